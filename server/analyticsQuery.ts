@@ -0,0 +1,231 @@
+// Runs an AnalyticsQuery in SQL and returns ProcessedData in the same shape as DataProcessor.processTransactions,
+// so backend-mode dashboards don't have to download the ledger first.
+
+import { db } from './db';
+import { selectTransactions, TransactionJson } from './transactions';
+import {
+  AnalyticsQuery, AggregatedData, Filter, FilterOperator, AggregationFunction,
+} from '../src/types/interactive-analytics';
+
+// `raw` is capped unless the query sets a limit; the charts only use the aggregates and statistics
+const DEFAULT_RAW_LIMIT = 1000;
+
+// The ledger as analytics sees it: a split transaction (see src/utils/splits.ts) is replaced by its parts. A part
+// keeps the transaction's id, and `part_tags` holds its own tags (a JSON array), which add to the transaction's.
+const LEDGER = `(
+  SELECT id, household_id, deleted, date, payee, type, currency, description, amount, category, NULL AS part_tags
+  FROM transactions
+  WHERE COALESCE(json_array_length(extra, '$.splits'), 0) = 0
+  UNION ALL
+  SELECT p.id, p.household_id, p.deleted, p.date, p.payee, p.type, p.currency,
+    COALESCE(NULLIF(json_extract(s.value, '$.note'), ''), p.description),
+    json_extract(s.value, '$.amount'), json_extract(s.value, '$.category'), json_extract(s.value, '$.tags')
+  FROM transactions p, json_each(p.extra, '$.splits') s
+)`;
+
+// A row's tags: the transaction's, plus a split part's own
+const TAGS = `SELECT tag FROM transaction_tags g WHERE g.household_id = t.household_id AND g.transaction_id = t.id
+  UNION SELECT value FROM json_each(t.part_tags)`;
+
+// One household's rows; transactions and parts tagged "Exclude" never count in analytics. Binds the household id.
+const BASE_WHERE = `t.household_id = ? AND t.deleted = 0 AND NOT EXISTS (
+  SELECT 1 FROM (${TAGS}) WHERE lower(tag) = 'exclude'
+)`;
+
+const tagList = (separator: string) => `(SELECT group_concat(tag, '${separator}') FROM (${TAGS}))`;
+
+const CATEGORY = `COALESCE(NULLIF(t.category, ''), 'Uncategorized')`;
+
+// SQL for the values DataProcessor.getFieldValue reads, with the same fallbacks
+const FIELDS: Record<string, string> = {
+  category: CATEGORY,
+  payee: 't.payee',
+  amount: 't.amount',
+  date: '((julianday(t.date) - 2440587.5) * 86400000)', // Epoch milliseconds, like Number(date)
+  tags: tagList(','),
+  currency: `COALESCE(NULLIF(t.currency, ''), 'USD')`,
+  type: 't.type',
+  description: `COALESCE(t.description, '')`,
+};
+
+const AGGREGATES: Record<string, string> = {
+  [AggregationFunction.SUM]: 'SUM(t.amount)',
+  [AggregationFunction.AVERAGE]: 'AVG(t.amount)',
+  [AggregationFunction.COUNT]: 'COUNT(*)',
+  [AggregationFunction.MIN]: 'MIN(t.amount)',
+  [AggregationFunction.MAX]: 'MAX(t.amount)',
+};
+
+const SORT_FIELDS: Record<string, string> = {
+  date: 't.date',
+  amount: 't.amount',
+  payee: 't.payee',
+  category: CATEGORY,
+};
+
+// better-sqlite3 binds numbers, strings and null only
+function bindable(value: unknown): string | number | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return String(value);
+}
+
+function filterSql(filter: Filter, params: unknown[]): string {
+  const field = FIELDS[filter.field] ?? 'NULL';
+  const { value } = filter;
+  const contains = () => {
+    params.push(String(value));
+    return `instr(lower(COALESCE(CAST(${field} AS TEXT), '')), lower(?)) > 0`;
+  };
+
+  switch (filter.operator) {
+    case FilterOperator.EQUALS:
+      params.push(bindable(value));
+      return `${field} = ?`;
+    case FilterOperator.NOT_EQUALS:
+      params.push(bindable(value));
+      return `${field} IS NOT ?`;
+    case FilterOperator.CONTAINS:
+      return contains();
+    case FilterOperator.NOT_CONTAINS:
+      return `NOT (${contains()})`;
+    case FilterOperator.GREATER_THAN:
+      params.push(Number(value));
+      return `${field} > ?`;
+    case FilterOperator.LESS_THAN:
+      params.push(Number(value));
+      return `${field} < ?`;
+    case FilterOperator.BETWEEN:
+      if (!Array.isArray(value) || value.length !== 2) return '0';
+      params.push(Number(value[0]), Number(value[1]));
+      return `${field} BETWEEN ? AND ?`;
+    case FilterOperator.IN:
+      if (!Array.isArray(value)) return '0';
+      params.push(JSON.stringify(value));
+      return `${field} IN (SELECT value FROM json_each(?))`;
+    case FilterOperator.NOT_IN:
+      if (!Array.isArray(value)) return '0';
+      params.push(JSON.stringify(value));
+      return `COALESCE(${field} NOT IN (SELECT value FROM json_each(?)), 1)`;
+    default:
+      return '1';
+  }
+}
+
+// Group label for one field; dates group by month in the client's time zone, as DataProcessor does
+function groupKeySql(field: string, utcOffsetMinutes: number): string {
+  if (field === 'date') return `strftime('%Y-%m', t.date, '${utcOffsetMinutes} minutes')`;
+  if (field === 'tags') return `COALESCE(${tagList(', ')}, 'None')`;
+  return `COALESCE(NULLIF(CAST(${FIELDS[field] ?? 'NULL'} AS TEXT), ''), 'Unknown')`;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function aggregate(from: string, params: unknown[], query: AnalyticsQuery, utcOffsetMinutes: number): AggregatedData {
+  const fn = query.aggregations[0]?.function ?? AggregationFunction.SUM;
+  const fields = query.groupings.map(g => g.field);
+  const key = fields.length ? fields.map(f => groupKeySql(f, utcOffsetMinutes)).join(` || ' | ' || `) : `'Total'`;
+
+  let groups: Array<{ key: string; value: number; count: number }>;
+  if (fn === AggregationFunction.MEDIAN) {
+    const rows = db.prepare(`SELECT ${key} AS key, t.amount AS amount ${from} ORDER BY key`).all(...params) as
+      { key: string; amount: number }[];
+    const byKey = new Map<string, number[]>();
+    for (const row of rows) {
+      if (!byKey.has(row.key)) byKey.set(row.key, []);
+      byKey.get(row.key)!.push(row.amount);
+    }
+    groups = Array.from(byKey, ([k, amounts]) => ({ key: k, value: median(amounts), count: amounts.length }));
+  } else {
+    groups = db.prepare(`SELECT ${key} AS key, ${AGGREGATES[fn] ?? 'SUM(t.amount)'} AS value, COUNT(*) AS count ${from} GROUP BY key ORDER BY key`)
+      .all(...params) as Array<{ key: string; value: number; count: number }>;
+  }
+
+  if (fields.length === 0) {
+    return { Total: { value: groups[0]?.value ?? 0, count: groups[0]?.count ?? 0, percentage: 100 } };
+  }
+  const { total } = db.prepare(`SELECT ABS(COALESCE(SUM(t.amount), 0)) AS total ${from}`).get(...params) as { total: number };
+  return Object.fromEntries(groups.map(g => [g.key, {
+    value: g.value ?? 0,
+    count: g.count,
+    percentage: total > 0 ? (Math.abs(g.value ?? 0) / total) * 100 : 0,
+  }]));
+}
+
+function distinct(expr: string, from: string, params: unknown[]): string[] {
+  const rows = db.prepare(`SELECT DISTINCT ${expr} AS value ${from}`).all(...params) as { value: string }[];
+  return rows.map(r => r.value).sort();
+}
+
+export function runAnalyticsQuery(householdId: number, query: AnalyticsQuery, utcOffsetMinutes: number) {
+  const params: unknown[] = [householdId];
+  const conditions = [BASE_WHERE, ...query.filters.filter(f => f.enabled).map(f => filterSql(f, params))];
+  if (query.timeRange) {
+    // Dates are stored as ISO strings, which compare correctly as text
+    conditions.push('t.date >= ?', 't.date <= ?');
+    params.push(new Date(query.timeRange.start).toISOString(), new Date(query.timeRange.end).toISOString());
+  }
+  const from = `FROM ${LEDGER} t WHERE ${conditions.map(c => `(${c})`).join(' AND ')}`;
+
+  return db.transaction(() => {
+    const { totalRecords } = db.prepare(`SELECT COUNT(*) AS totalRecords FROM ${LEDGER} t WHERE ${BASE_WHERE}`).get(householdId) as
+      { totalRecords: number };
+    const totals = db.prepare(`
+      SELECT COUNT(*) AS count,
+        MIN(t.date) AS firstDate,
+        MAX(t.date) AS lastDate,
+        COALESCE(SUM(CASE WHEN t.amount > 0 THEN t.amount END), 0) AS income,
+        ABS(COALESCE(SUM(CASE WHEN t.amount < 0 THEN t.amount END), 0)) AS expenses,
+        COALESCE(AVG(ABS(t.amount)), 0) AS averageTransaction
+      ${from}
+    `).get(...params) as {
+      count: number; firstDate: string | null; lastDate: string | null;
+      income: number; expenses: number; averageTransaction: number;
+    };
+
+    const topCategories = (db.prepare(`
+      SELECT ${CATEGORY} AS category, SUM(ABS(t.amount)) AS amount ${from} AND t.amount < 0
+      GROUP BY category ORDER BY amount DESC LIMIT 5
+    `).all(...params) as { category: string; amount: number }[])
+      .map(c => ({ ...c, percentage: totals.expenses > 0 ? (c.amount / totals.expenses) * 100 : 0 }));
+    const topPayees = db.prepare(`
+      SELECT t.payee AS payee, SUM(ABS(t.amount)) AS amount, COUNT(*) AS count ${from} AND t.amount < 0
+      GROUP BY t.payee ORDER BY amount DESC LIMIT 5
+    `).all(...params) as { payee: string; amount: number; count: number }[];
+
+    const sortField = query.sortBy ? SORT_FIELDS[query.sortBy.field] ?? 't.date' : 't.date';
+    const sortOrder = query.sortBy?.order === 'asc' ? 'ASC' : 'DESC';
+    // Parts of the same split transaction share its id; `raw` lists the transaction once
+    const ids = [...new Set((db.prepare(`SELECT t.id ${from} ORDER BY ${sortField} ${sortOrder} LIMIT ?`)
+      .all(...params, query.limit ?? DEFAULT_RAW_LIMIT) as { id: string }[]).map(r => r.id))];
+    const byId = new Map(selectTransactions(householdId, 'id IN (SELECT value FROM json_each(?))', JSON.stringify(ids))
+      .map(r => [r.transaction.id, r.transaction]));
+
+    return {
+      raw: ids.map(id => byId.get(id)).filter((t): t is TransactionJson => !!t),
+      aggregated: aggregate(from, params, query, utcOffsetMinutes),
+      metadata: {
+        totalRecords,
+        filteredRecords: totals.count,
+        dateRange: query.timeRange ?? { start: totals.firstDate, end: totals.lastDate },
+        categories: distinct(CATEGORY, from, params),
+        payees: distinct('t.payee', from, params),
+        currencies: distinct(FIELDS.currency, from, params),
+      },
+      statistics: {
+        totalIncome: totals.income,
+        totalExpenses: totals.expenses,
+        netAmount: totals.income - totals.expenses,
+        averageTransaction: totals.averageTransaction,
+        transactionCount: totals.count,
+        topCategories,
+        topPayees,
+      },
+    };
+  })();
+}
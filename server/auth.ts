@@ -0,0 +1,125 @@
+// Local accounts: scrypt password hashes, opaque bearer tokens stored only as SHA-256 hashes,
+// and the middleware that puts the signed-in user's household on every request.
+
+import { randomBytes, scryptSync, timingSafeEqual, createHash } from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import { db } from './db';
+
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 32;
+
+const SESSION_DAYS = 30;
+
+export interface AuthUser {
+  id: number;
+  username: string;
+  householdId: number;
+}
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  const hash = scryptSync(password, salt, KEY_LENGTH, { N: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P });
+  return ['scrypt', SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString('base64'), hash.toString('base64')].join('$');
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, n, r, p, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt') return false;
+  const expected = Buffer.from(hash, 'base64');
+  const actual = scryptSync(password, Buffer.from(salt, 'base64'), expected.length, { N: Number(n), r: Number(r), p: Number(p) });
+  return timingSafeEqual(actual, expected);
+}
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+/** Start a session; the returned token is shown to the client once and never stored. */
+export function createSession(userId: number): string {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  db.prepare('INSERT INTO sessions (token_hash, user_id, expires_at) VALUES (?, ?, ?)').run(hashToken(token), userId, expiresAt);
+  return token;
+}
+
+export function deleteSession(token: string) {
+  db.prepare('DELETE FROM sessions WHERE token_hash = ?').run(hashToken(token));
+}
+
+function bearerToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  return header?.startsWith('Bearer ') ? header.slice(7) : undefined;
+}
+
+function sessionUser(token: string): AuthUser | undefined {
+  const row = db.prepare(`
+    SELECT u.id, u.username, u.household_id AS householdId
+    FROM sessions s JOIN users u ON u.id = s.user_id
+    WHERE s.token_hash = ? AND s.expires_at > ?
+  `).get(hashToken(token), new Date().toISOString()) as AuthUser | undefined;
+  return row;
+}
+
+/** Reject requests without a valid session; otherwise expose the user as `res.locals.user`. */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const token = bearerToken(req);
+  const user = token ? sessionUser(token) : undefined;
+  if (!user) {
+    res.status(401).json({ error: 'Sign in required' });
+    return;
+  }
+  res.locals.user = user;
+  res.locals.token = token;
+  next();
+}
+
+/** The signed-in user's household; only valid behind requireAuth. */
+export function householdOf(res: Response): number {
+  return (res.locals.user as AuthUser).householdId;
+}
+
+export function deleteExpiredSessions() {
+  db.prepare('DELETE FROM sessions WHERE expires_at <= ?').run(new Date().toISOString());
+}
+
+export const newInviteCode = () => randomBytes(8).toString('hex');
+
+/**
+ * Failed attempts per key (a client address or a username) within a sliding window, to slow down password and
+ * invite code guessing. Kept in memory; a restart forgets them.
+ */
+export class AttemptLimiter {
+  private failures = new Map<string, number[]>();
+  private max: number;
+  private windowMs: number;
+
+  constructor(max: number, windowMs: number) {
+    this.max = max;
+    this.windowMs = windowMs;
+  }
+
+  private recent(key: string, now: number): number[] {
+    const times = (this.failures.get(key) ?? []).filter(t => t > now - this.windowMs);
+    if (times.length) this.failures.set(key, times);
+    else this.failures.delete(key);
+    return times;
+  }
+
+  /** Seconds until `key` may try again; 0 when it may now. */
+  retryAfter(key: string): number {
+    const now = Date.now();
+    const times = this.recent(key, now);
+    return times.length < this.max ? 0 : Math.ceil((times[times.length - this.max] + this.windowMs - now) / 1000);
+  }
+
+  fail(key: string) {
+    const now = Date.now();
+    // Keys that stopped failing would otherwise pile up
+    if (this.failures.size > 10_000) for (const k of [...this.failures.keys()]) this.recent(k, now);
+    this.failures.set(key, [...this.recent(key, now), now]);
+  }
+
+  clear(key: string) {
+    this.failures.delete(key);
+  }
+}
@@ -0,0 +1,15 @@
+import Database from 'better-sqlite3';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { mkdirSync } from 'fs';
+import { migrate } from './migrations';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const dataDir = join(__dirname, '../data');
+mkdirSync(dataDir, { recursive: true });
+
+export const db = new Database(join(dataDir, 'transactions.db'));
+db.pragma('journal_mode = WAL');
+db.pragma('foreign_keys = ON');
+
+migrate(db);
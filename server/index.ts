@@ -1,88 +1,302 @@
 import express from 'express';
 import cors from 'cors';
-import Database from 'better-sqlite3';
-import { fileURLToPath } from 'url';
-import { dirname, join } from 'path';
-import { mkdirSync } from 'fs';
-
-const __dirname = dirname(fileURLToPath(import.meta.url));
-const dataDir = join(__dirname, '../data');
-mkdirSync(dataDir, { recursive: true });
-
-const db = new Database(join(dataDir, 'transactions.db'));
-db.pragma('journal_mode = WAL');
-
-db.exec(`
-  CREATE TABLE IF NOT EXISTS transactions (
-    id TEXT PRIMARY KEY,
-    data TEXT NOT NULL
-  );
-  CREATE TABLE IF NOT EXISTS categories (
-    id INTEGER PRIMARY KEY CHECK (id = 1),
-    data TEXT NOT NULL
-  );
-`);
+import { db } from './db';
+import {
+  selectTransactions, currentRevision, nextRevision, upsertTransactions, markDeleted, isTransactionJson,
+} from './transactions';
+import { runAnalyticsQuery } from './analyticsQuery';
+import {
+  AuthUser, hashPassword, verifyPassword, createSession, deleteSession, deleteExpiredSessions, requireAuth, householdOf,
+  newInviteCode, AttemptLimiter,
+} from './auth';
 
 const app = express();
-app.use(cors());
+// Requests authenticate with a bearer token rather than cookies. Other web origins may only call the API when
+// CORS_ORIGIN lists them (comma-separated); without it, only the Vite dev server and preview may. CORS_ORIGIN=*
+// allows any origin.
+const DEV_ORIGINS = ['http://localhost:5173', 'http://127.0.0.1:5173', 'http://localhost:4173', 'http://127.0.0.1:4173'];
+const corsOrigin = process.env.CORS_ORIGIN?.trim();
+app.use(cors({ origin: corsOrigin === '*' ? true : corsOrigin ? corsOrigin.split(',').map(o => o.trim()) : DEV_ORIGINS }));
 app.use(express.json({ limit: '50mb' }));
 
 app.get('/api/health', (_req, res) => {
   res.json({ ok: true });
 });
 
+const USERNAME_PATTERN = /^[\w.@-]{3,64}$/;
+const MIN_PASSWORD_LENGTH = 8;
+// Compared against when the username doesn't exist, so a login takes as long either way
+const UNKNOWN_USER_HASH = hashPassword(newInviteCode());
+
+// Failed sign-ins and registrations per client address, and failed sign-ins per username, every 15 minutes
+const ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+const byAddress = new AttemptLimiter(30, ATTEMPT_WINDOW_MS);
+const byUsername = new AttemptLimiter(10, ATTEMPT_WINDOW_MS);
+
+// Answers 429 and returns true when any of the keys has used up its attempts
+function throttled(res: express.Response, checks: Array<[AttemptLimiter, string]>): boolean {
+  const wait = Math.max(...checks.map(([limiter, key]) => limiter.retryAfter(key)));
+  if (wait === 0) return false;
+  res.set('Retry-After', String(wait));
+  res.status(429).json({ error: `Too many attempts; try again in ${Math.ceil(wait / 60)} minute(s)` });
+  return true;
+}
+
+// The first account takes over household 1, which holds any data from before accounts existed. After that,
+// joining a household needs its invite code, and new households only when OPEN_REGISTRATION=1.
+app.post('/api/auth/register', (req, res) => {
+  const address = req.ip ?? '';
+  if (throttled(res, [[byAddress, address]])) return;
+  const { username, password, inviteCode, householdName } = req.body ?? {};
+  if (typeof username !== 'string' || !USERNAME_PATTERN.test(username)) {
+    res.status(400).json({ error: 'Usernames are 3-64 letters, digits or . _ @ -' });
+    return;
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    res.status(400).json({ error: `Passwords need at least ${MIN_PASSWORD_LENGTH} characters` });
+    return;
+  }
+
+  const passwordHash = hashPassword(password);
+  const result = db.transaction((): { error: string; status: number } | AuthUser => {
+    if (db.prepare('SELECT 1 FROM users WHERE username = ?').get(username)) return { status: 409, error: 'That username is taken' };
+    let householdId: number;
+    if (inviteCode) {
+      const household = db.prepare('SELECT id FROM households WHERE invite_code = ?').get(String(inviteCode)) as { id: number } | undefined;
+      if (!household) return { status: 403, error: 'Unknown invite code' };
+      householdId = household.id;
+    } else if (!db.prepare('SELECT 1 FROM users').get()) {
+      householdId = 1;
+      if (householdName) db.prepare('UPDATE households SET name = ? WHERE id = 1').run(String(householdName));
+    } else if (process.env.OPEN_REGISTRATION === '1') {
+      householdId = Number(db.prepare('INSERT INTO households (name, invite_code) VALUES (?, ?)')
+        .run(String(householdName || `${username}'s household`), newInviteCode()).lastInsertRowid);
+    } else {
+      return { status: 403, error: 'Ask a household member for an invite code' };
+    }
+    const userId = Number(db.prepare('INSERT INTO users (username, password_hash, household_id, created_at) VALUES (?, ?, ?, ?)')
+      .run(username, passwordHash, householdId, new Date().toISOString()).lastInsertRowid);
+    return { id: userId, username, householdId };
+  })();
+
+  if ('error' in result) {
+    // Guessing invite codes costs attempts like guessing passwords
+    byAddress.fail(address);
+    res.status(result.status).json({ error: result.error });
+    return;
+  }
+  res.status(201).json({ token: createSession(result.id), username: result.username });
+});
+
+app.post('/api/auth/login', (req, res) => {
+  const { username, password } = req.body ?? {};
+  const address = req.ip ?? '';
+  // Usernames are case-insensitive
+  const account = String(username ?? '').toLowerCase();
+  if (throttled(res, [[byAddress, address], [byUsername, account]])) return;
+  const user = db.prepare('SELECT id, username, password_hash FROM users WHERE username = ?').get(String(username ?? '')) as
+    { id: number; username: string; password_hash: string } | undefined;
+  const valid = verifyPassword(String(password ?? ''), user?.password_hash ?? UNKNOWN_USER_HASH);
+  if (!user || !valid) {
+    byAddress.fail(address);
+    byUsername.fail(account);
+    res.status(401).json({ error: 'Wrong username or password' });
+    return;
+  }
+  byUsername.clear(account);
+  deleteExpiredSessions();
+  res.json({ token: createSession(user.id), username: user.username });
+});
+
+// Everything below needs a signed-in user and only sees that user's household
+app.use('/api', requireAuth);
+
+app.post('/api/auth/logout', (_req, res) => {
+  deleteSession(res.locals.token);
+  res.json({ ok: true });
+});
+
+app.get('/api/auth/me', (_req, res) => {
+  const user: AuthUser = res.locals.user;
+  const household = db.prepare('SELECT id, name, invite_code AS inviteCode FROM households WHERE id = ?').get(user.householdId);
+  const members = (db.prepare('SELECT username FROM users WHERE household_id = ? ORDER BY username').all(user.householdId) as
+    { username: string }[]).map(m => m.username);
+  res.json({ username: user.username, household: { ...(household as object), members } });
+});
+
+// A new invite code; the old one stops working
+app.post('/api/household/invite', (_req, res) => {
+  const inviteCode = newInviteCode();
+  db.prepare('UPDATE households SET invite_code = ? WHERE id = ?').run(inviteCode, householdOf(res));
+  res.json({ inviteCode });
+});
+
 app.get('/api/transactions', (_req, res) => {
-  const rows = db.prepare('SELECT data FROM transactions').all() as { data: string }[];
-  res.json(rows.map(r => JSON.parse(r.data)));
+  res.json(selectTransactions(householdOf(res), 'deleted = 0').map(r => r.transaction));
 });
 
-// check-duplicates must come before /:id to avoid being caught as an id
+// Change feed: rows written after `since` with the revision each was written at, and ids deleted after it.
+// since=0 is a full load, so no tombstones.
+app.get('/api/transactions/changes', (req, res) => {
+  const since = Number(req.query.since ?? 0);
+  if (!Number.isInteger(since) || since < 0) { res.status(400).json({ error: 'Invalid since' }); return; }
+  const result = db.transaction(() => {
+    const rows = selectTransactions(householdOf(res), 'revision > ?', since);
+    return {
+      revision: currentRevision(),
+      upserted: rows.filter(r => !r.deleted).map(r => r.transaction),
+      revisions: Object.fromEntries(rows.filter(r => !r.deleted).map(r => [r.transaction.id, r.revision])),
+      deleted: since > 0 ? rows.filter(r => r.deleted).map(r => r.transaction.id) : [],
+    };
+  })();
+  res.json(result);
+});
+
+// check-duplicates, upsert and delete must come before /:id to avoid being caught as an id
 app.post('/api/transactions/check-duplicates', (req, res) => {
   const ids: string[] = req.body;
-  const existing = ids.filter(id =>
-    db.prepare('SELECT 1 FROM transactions WHERE id = ?').get(id)
-  );
-  res.json(existing);
+  const rows = db.prepare('SELECT id FROM transactions WHERE household_id = ? AND deleted = 0 AND id IN (SELECT value FROM json_each(?))')
+    .all(householdOf(res), JSON.stringify(ids)) as { id: string }[];
+  res.json(rows.map(r => r.id));
 });
 
-app.post('/api/transactions', (req, res) => {
-  const transactions: Array<{ id: string }> = req.body;
-  const insert = db.prepare('INSERT OR REPLACE INTO transactions (id, data) VALUES (?, ?)');
-  db.transaction(() => {
-    db.prepare('DELETE FROM transactions').run();
-    for (const t of transactions) insert.run(t.id, JSON.stringify(t));
+// Insert or replace the given transactions; rows not in the body are left alone
+app.post('/api/transactions/upsert', (req, res) => {
+  const transactions: unknown = req.body;
+  if (!Array.isArray(transactions) || !transactions.every(isTransactionJson)) {
+    res.status(400).json({ error: 'Expected an array of transactions with an id, date, payee and amount' });
+    return;
+  }
+  const revision = db.transaction(() => {
+    const revision = nextRevision();
+    upsertTransactions(householdOf(res), transactions, revision);
+    return revision;
   })();
-  res.json({ ok: true });
+  res.json({ revision });
 });
 
+app.post('/api/transactions/delete', (req, res) => {
+  const ids: unknown = req.body;
+  if (!Array.isArray(ids) || !ids.every(id => typeof id === 'string')) {
+    res.status(400).json({ error: 'Expected an array of transaction ids' });
+    return;
+  }
+  const revision = db.transaction(() => {
+    const revision = nextRevision();
+    markDeleted(householdOf(res), ids, revision);
+    return revision;
+  })();
+  res.json({ revision });
+});
+
+// With `If-Match: <revision>`, the edit only applies if nobody wrote the row after that revision;
+// otherwise 409 with the row as it is now, so the client can show what changed
 app.patch('/api/transactions/:id', (req, res) => {
-  const row = db.prepare('SELECT data FROM transactions WHERE id = ?').get(req.params.id) as { data: string } | undefined;
-  if (!row) { res.status(404).json({ error: 'Not found' }); return; }
-  const updated = { ...JSON.parse(row.data), ...req.body };
-  db.prepare('UPDATE transactions SET data = ? WHERE id = ?').run(JSON.stringify(updated), req.params.id);
-  res.json({ ok: true });
+  const expected = req.headers['if-match'] === undefined ? undefined : Number(req.headers['if-match']);
+  const result = db.transaction(() => {
+    const [row] = selectTransactions(householdOf(res), 'id = ? AND deleted = 0', req.params.id);
+    if (!row) return { status: 404 } as const;
+    if (expected !== undefined && row.revision > expected) return { status: 409, row } as const;
+    const transaction = { ...row.transaction, ...req.body };
+    if (!isTransactionJson(transaction)) return { status: 400 } as const;
+    const revision = nextRevision();
+    upsertTransactions(householdOf(res), [transaction], revision);
+    return { status: 200, revision } as const;
+  })();
+  if (result.status === 400) { res.status(400).json({ error: 'Invalid transaction fields' }); return; }
+  if (result.status === 404) { res.status(404).json({ error: 'Not found' }); return; }
+  if (result.status === 409) {
+    res.status(409).json({ error: 'Changed on the server', revision: result.row.revision, transaction: result.row.transaction });
+    return;
+  }
+  res.json({ revision: result.revision });
 });
 
 app.delete('/api/transactions/:id', (req, res) => {
-  db.prepare('DELETE FROM transactions WHERE id = ?').run(req.params.id);
-  res.json({ ok: true });
+  const revision = db.transaction(() => {
+    const revision = nextRevision();
+    markDeleted(householdOf(res), [req.params.id], revision);
+    return revision;
+  })();
+  res.json({ revision });
 });
 
 app.delete('/api/transactions', (_req, res) => {
-  db.prepare('DELETE FROM transactions').run();
-  res.json({ ok: true });
+  const householdId = householdOf(res);
+  const revision = db.transaction(() => {
+    const revision = nextRevision();
+    db.prepare('UPDATE transactions SET deleted = 1, revision = ? WHERE household_id = ? AND deleted = 0').run(revision, householdId);
+    db.prepare('DELETE FROM import_batches WHERE household_id = ?').run(householdId);
+    return revision;
+  })();
+  res.json({ revision });
+});
+
+// Interactive analytics in backend mode: filters and aggregates in SQL instead of in the browser
+app.post('/api/query', (req, res) => {
+  const { query, utcOffsetMinutes } = req.body ?? {};
+  if (!query || !Array.isArray(query.filters) || !Array.isArray(query.groupings) || !Array.isArray(query.aggregations)) {
+    res.status(400).json({ error: 'Invalid query' });
+    return;
+  }
+  // Interpolated into a date modifier, so it must be a plain integer
+  res.json(runAnalyticsQuery(householdOf(res), query, Math.trunc(Number(utcOffsetMinutes)) || 0));
 });
 
 app.get('/api/categories', (_req, res) => {
-  const row = db.prepare('SELECT data FROM categories WHERE id = 1').get() as { data: string } | undefined;
+  const row = db.prepare('SELECT data FROM categories WHERE household_id = ?').get(householdOf(res)) as { data: string } | undefined;
   res.json(row ? JSON.parse(row.data) : []);
 });
 
 app.post('/api/categories', (req, res) => {
-  db.prepare('INSERT OR REPLACE INTO categories (id, data) VALUES (1, ?)').run(JSON.stringify(req.body));
+  db.prepare('INSERT OR REPLACE INTO categories (household_id, data) VALUES (?, ?)').run(householdOf(res), JSON.stringify(req.body));
   res.json({ ok: true });
 });
 
+// Rules, budgets, mappings, dashboards and preferences, as one JSON value per key
+app.get('/api/settings', (_req, res) => {
+  const rows = db.prepare('SELECT key, value FROM settings WHERE household_id = ?').all(householdOf(res)) as { key: string; value: string }[];
+  res.json(Object.fromEntries(rows.map(r => [r.key, JSON.parse(r.value)])));
+});
+
+app.post('/api/settings', (req, res) => {
+  const settings: Record<string, unknown> = req.body;
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    res.status(400).json({ error: 'Expected an object of settings' });
+    return;
+  }
+  const upsert = db.prepare('INSERT OR REPLACE INTO settings (household_id, key, value) VALUES (?, ?, ?)');
+  db.transaction(() => {
+    for (const [key, value] of Object.entries(settings)) upsert.run(householdOf(res), key, JSON.stringify(value));
+  })();
+  res.json({ ok: true });
+});
+
+app.get('/api/import-batches', (_req, res) => {
+  const rows = db.prepare('SELECT data FROM import_batches WHERE household_id = ?').all(householdOf(res)) as { data: string }[];
+  res.json(rows.map(r => JSON.parse(r.data)));
+});
+
+app.post('/api/import-batches', (req, res) => {
+  const batch: { id: string } = req.body;
+  db.prepare('INSERT OR REPLACE INTO import_batches (household_id, id, data) VALUES (?, ?, ?)').run(householdOf(res), batch.id, JSON.stringify(batch));
+  res.json({ ok: true });
+});
+
+// Rolling back a batch removes every transaction it imported
+app.delete('/api/import-batches/:id', (req, res) => {
+  const id = req.params.id;
+  const householdId = householdOf(res);
+  const revision = db.transaction(() => {
+    const revision = nextRevision();
+    db.prepare('UPDATE transactions SET deleted = 1, revision = ? WHERE household_id = ? AND deleted = 0 AND import_batch_id = ?')
+      .run(revision, householdId, id);
+    db.prepare('DELETE FROM import_batches WHERE household_id = ? AND id = ?').run(householdId, id);
+    return revision;
+  })();
+  res.json({ revision });
+});
+
 const PORT = process.env.PORT || 3001;
 app.listen(PORT, () => {
   console.log(`Backend running on http://localhost:${PORT}`);
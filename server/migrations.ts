@@ -0,0 +1,277 @@
+// Versioned schema migrations. The applied version is kept in SQLite's user_version pragma;
+// each migration runs in its own transaction, so a failed one leaves the database at the previous version.
+
+import type BetterSqlite3 from 'better-sqlite3';
+
+type Database = BetterSqlite3.Database;
+
+interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database) => void;
+}
+
+function columnNames(db: Database, table: string): string[] {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(c => c.name);
+}
+
+const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'Initial JSON tables',
+    // IF NOT EXISTS: databases from before migrations already have these tables at user_version 0
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS transactions (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS categories (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        data TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS import_batches (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL
+      );
+    `),
+  },
+  {
+    version: 2,
+    name: 'Revision change feed',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS sync_state (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          revision INTEGER NOT NULL
+        );
+        INSERT OR IGNORE INTO sync_state (id, revision) VALUES (1, 0);
+      `);
+      // The change feed shipped briefly without migrations, so the columns may already be there
+      if (!columnNames(db, 'transactions').includes('revision')) {
+        db.exec(`
+          ALTER TABLE transactions ADD COLUMN revision INTEGER NOT NULL DEFAULT 0;
+          ALTER TABLE transactions ADD COLUMN deleted INTEGER NOT NULL DEFAULT 0;
+        `);
+      }
+    },
+  },
+  {
+    version: 3,
+    name: 'Transaction columns and tags table',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE transactions_v3 (
+          id TEXT PRIMARY KEY,
+          date TEXT NOT NULL,              -- ISO 8601 timestamp as sent by the client
+          amount REAL NOT NULL,
+          payee TEXT NOT NULL,
+          category TEXT,
+          account TEXT,
+          currency TEXT,
+          hidden INTEGER NOT NULL DEFAULT 0,
+          saving INTEGER NOT NULL DEFAULT 0,
+          bank_transaction_id TEXT,
+          type TEXT,
+          description TEXT,
+          balance REAL,
+          reference TEXT,
+          import_batch_id TEXT,
+          extra TEXT,                      -- JSON of any fields without a column
+          revision INTEGER NOT NULL DEFAULT 0,
+          deleted INTEGER NOT NULL DEFAULT 0
+        );
+      `);
+
+      const insert = db.prepare(`
+        INSERT INTO transactions_v3 (
+          id, date, amount, payee, category, account, currency, hidden, saving, bank_transaction_id,
+          type, description, balance, reference, import_batch_id, extra, revision, deleted
+        ) VALUES (
+          @id, @date, @amount, @payee, @category, @account, @currency, @hidden, @saving, @bankTransactionId,
+          @type, @description, @balance, @reference, @importBatchId, @extra, @revision, @deleted
+        )
+      `);
+      const rows = db.prepare('SELECT id, data, revision, deleted FROM transactions').all() as
+        { id: string; data: string; revision: number; deleted: number }[];
+      const tagRows: Array<[string, string]> = [];
+
+      for (const row of rows) {
+        const {
+          date, amount, payee, category, account, currency, isHidden, isSaving, transactionId,
+          type, description, balance, reference, importBatchId, tags, ...rest
+        } = JSON.parse(row.data);
+        delete rest.id;
+        insert.run({
+          id: row.id,
+          date: String(date ?? ''),
+          amount: Number(amount) || 0,
+          payee: String(payee ?? ''),
+          category: category ?? null,
+          account: account ?? null,
+          currency: currency ?? null,
+          hidden: isHidden ? 1 : 0,
+          saving: isSaving ? 1 : 0,
+          bankTransactionId: transactionId ?? null,
+          type: type ?? null,
+          description: description ?? null,
+          balance: typeof balance === 'number' ? balance : null,
+          reference: reference ?? null,
+          importBatchId: importBatchId ?? null,
+          extra: Object.keys(rest).length ? JSON.stringify(rest) : null,
+          revision: row.revision,
+          deleted: row.deleted,
+        });
+        for (const tag of Array.isArray(tags) ? tags : []) tagRows.push([row.id, String(tag)]);
+      }
+
+      // The tags table is created after the swap so its foreign key never points at the old table
+      db.exec(`
+        DROP TABLE transactions;
+        ALTER TABLE transactions_v3 RENAME TO transactions;
+        CREATE TABLE transaction_tags (
+          transaction_id TEXT NOT NULL REFERENCES transactions (id) ON DELETE CASCADE,
+          tag TEXT NOT NULL,
+          PRIMARY KEY (transaction_id, tag)
+        );
+        CREATE INDEX idx_transactions_date ON transactions (date);
+        CREATE INDEX idx_transactions_category ON transactions (category);
+        CREATE INDEX idx_transactions_payee ON transactions (payee);
+        CREATE INDEX idx_transactions_account ON transactions (account);
+        CREATE INDEX idx_transactions_import_batch ON transactions (import_batch_id);
+        CREATE INDEX idx_transactions_revision ON transactions (revision);
+        CREATE INDEX idx_transaction_tags_tag ON transaction_tags (tag);
+      `);
+      const insertTag = db.prepare('INSERT OR IGNORE INTO transaction_tags (transaction_id, tag) VALUES (?, ?)');
+      for (const [transactionId, tag] of tagRows) insertTag.run(transactionId, tag);
+    },
+  },
+  {
+    version: 4,
+    name: 'Settings table',
+    up: (db) => db.exec(`
+      CREATE TABLE settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL              -- JSON
+      );
+    `),
+  },
+  {
+    version: 5,
+    name: 'Users, sessions and household partitioning',
+    // Data from before accounts goes to household 1, which the first user to register joins.
+    // The change-feed revision stays global; each household only sees its own rows.
+    up: (db) => db.exec(`
+      CREATE TABLE households (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        invite_code TEXT NOT NULL UNIQUE
+      );
+      INSERT INTO households (id, name, invite_code) VALUES (1, 'Household', lower(hex(randomblob(8))));
+
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY,
+        username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        password_hash TEXT NOT NULL,     -- scrypt$N$r$p$salt$hash
+        household_id INTEGER NOT NULL REFERENCES households (id),
+        created_at TEXT NOT NULL
+      );
+      CREATE TABLE sessions (
+        token_hash TEXT PRIMARY KEY,     -- SHA-256 of the bearer token; the token itself is never stored
+        user_id INTEGER NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        expires_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_sessions_user ON sessions (user_id);
+
+      CREATE TABLE transactions_v5 (
+        household_id INTEGER NOT NULL REFERENCES households (id),
+        id TEXT NOT NULL,
+        date TEXT NOT NULL,
+        amount REAL NOT NULL,
+        payee TEXT NOT NULL,
+        category TEXT,
+        account TEXT,
+        currency TEXT,
+        hidden INTEGER NOT NULL DEFAULT 0,
+        saving INTEGER NOT NULL DEFAULT 0,
+        bank_transaction_id TEXT,
+        type TEXT,
+        description TEXT,
+        balance REAL,
+        reference TEXT,
+        import_batch_id TEXT,
+        extra TEXT,
+        revision INTEGER NOT NULL DEFAULT 0,
+        deleted INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (household_id, id)
+      );
+      INSERT INTO transactions_v5
+      SELECT 1, id, date, amount, payee, category, account, currency, hidden, saving, bank_transaction_id,
+        type, description, balance, reference, import_batch_id, extra, revision, deleted
+      FROM transactions;
+
+      -- Tags are parked in a plain table while the transactions table is swapped, as in version 3
+      CREATE TABLE transaction_tags_v5 AS SELECT transaction_id, tag FROM transaction_tags;
+      DROP TABLE transaction_tags;
+      DROP TABLE transactions;
+      ALTER TABLE transactions_v5 RENAME TO transactions;
+      CREATE TABLE transaction_tags (
+        household_id INTEGER NOT NULL,
+        transaction_id TEXT NOT NULL,
+        tag TEXT NOT NULL,
+        PRIMARY KEY (household_id, transaction_id, tag),
+        FOREIGN KEY (household_id, transaction_id) REFERENCES transactions (household_id, id) ON DELETE CASCADE
+      );
+      INSERT INTO transaction_tags SELECT 1, transaction_id, tag FROM transaction_tags_v5;
+      DROP TABLE transaction_tags_v5;
+
+      CREATE INDEX idx_transactions_date ON transactions (household_id, date);
+      CREATE INDEX idx_transactions_category ON transactions (household_id, category);
+      CREATE INDEX idx_transactions_payee ON transactions (household_id, payee);
+      CREATE INDEX idx_transactions_account ON transactions (household_id, account);
+      CREATE INDEX idx_transactions_import_batch ON transactions (household_id, import_batch_id);
+      CREATE INDEX idx_transactions_revision ON transactions (household_id, revision);
+      CREATE INDEX idx_transaction_tags_tag ON transaction_tags (household_id, tag);
+
+      CREATE TABLE categories_v5 (
+        household_id INTEGER PRIMARY KEY REFERENCES households (id),
+        data TEXT NOT NULL
+      );
+      INSERT INTO categories_v5 SELECT 1, data FROM categories;
+      DROP TABLE categories;
+      ALTER TABLE categories_v5 RENAME TO categories;
+
+      CREATE TABLE import_batches_v5 (
+        household_id INTEGER NOT NULL REFERENCES households (id),
+        id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (household_id, id)
+      );
+      INSERT INTO import_batches_v5 SELECT 1, id, data FROM import_batches;
+      DROP TABLE import_batches;
+      ALTER TABLE import_batches_v5 RENAME TO import_batches;
+
+      CREATE TABLE settings_v5 (
+        household_id INTEGER NOT NULL REFERENCES households (id),
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        PRIMARY KEY (household_id, key)
+      );
+      INSERT INTO settings_v5 SELECT 1, key, value FROM settings;
+      DROP TABLE settings;
+      ALTER TABLE settings_v5 RENAME TO settings;
+    `),
+  },
+];
+
+/** Apply every migration newer than the database's user_version, in order. */
+export function migrate(db: Database): void {
+  const current = db.pragma('user_version', { simple: true }) as number;
+  for (const migration of migrations) {
+    if (migration.version <= current) continue;
+    db.transaction(() => {
+      migration.up(db);
+      db.pragma(`user_version = ${migration.version}`);
+    })();
+    console.log(`Applied migration ${migration.version}: ${migration.name}`);
+  }
+}
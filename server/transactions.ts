@@ -0,0 +1,165 @@
+// Transaction rows: the mapping between the client's Transaction JSON and the columns of the transactions table,
+// plus the revisioned writes behind the change feed. Every function works within one household's rows.
+
+import { db } from './db';
+
+/** A transaction as the client sends it: a Transaction with the date as an ISO string. */
+export interface TransactionJson {
+  id: string;
+  date: string;
+  payee: string;
+  amount: number;
+  tags?: string[];
+  [field: string]: unknown;
+}
+
+/** Whether a request body value has what a transaction row can't be stored without. */
+export function isTransactionJson(value: unknown): value is TransactionJson {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const t = value as Record<string, unknown>;
+  return typeof t.id === 'string' && t.id !== ''
+    && typeof t.date === 'string' && !isNaN(Date.parse(t.date))
+    && typeof t.payee === 'string'
+    && typeof t.amount === 'number' && Number.isFinite(t.amount)
+    && (t.tags === undefined || (Array.isArray(t.tags) && t.tags.every(tag => typeof tag === 'string')));
+}
+
+interface TransactionRow {
+  household_id: number;
+  id: string;
+  date: string;
+  amount: number;
+  payee: string;
+  category: string | null;
+  account: string | null;
+  currency: string | null;
+  hidden: number;
+  saving: number;
+  bank_transaction_id: string | null;
+  type: string | null;
+  description: string | null;
+  balance: number | null;
+  reference: string | null;
+  import_batch_id: string | null;
+  extra: string | null;
+  revision: number;
+  deleted: number;
+}
+
+// Fields with their own column; everything else round-trips through `extra`
+const COLUMN_FIELDS = new Set([
+  'id', 'date', 'amount', 'payee', 'category', 'account', 'currency', 'isHidden', 'isSaving',
+  'transactionId', 'type', 'description', 'balance', 'reference', 'importBatchId', 'tags',
+]);
+
+function toParams(householdId: number, t: TransactionJson, revision: number) {
+  const extra = Object.fromEntries(Object.entries(t).filter(([key]) => !COLUMN_FIELDS.has(key)));
+  return {
+    householdId,
+    id: t.id,
+    date: t.date,
+    amount: t.amount,
+    payee: t.payee,
+    category: t.category ?? null,
+    account: t.account ?? null,
+    currency: t.currency ?? null,
+    hidden: t.isHidden ? 1 : 0,
+    saving: t.isSaving ? 1 : 0,
+    bankTransactionId: t.transactionId ?? null,
+    type: t.type ?? null,
+    description: t.description ?? null,
+    balance: t.balance ?? null,
+    reference: t.reference ?? null,
+    importBatchId: t.importBatchId ?? null,
+    extra: Object.keys(extra).length ? JSON.stringify(extra) : null,
+    revision,
+  };
+}
+
+function fromRow(row: TransactionRow, tags: string[]): TransactionJson {
+  // Same key order as the client's Transaction interface; unset columns are left out rather than sent as null
+  const t: TransactionJson = {
+    id: row.id,
+    transactionId: row.bank_transaction_id ?? undefined,
+    date: row.date,
+    payee: row.payee,
+    amount: row.amount,
+    type: row.type ?? undefined,
+    description: row.description ?? undefined,
+    category: row.category ?? undefined,
+    tags,
+    account: row.account ?? undefined,
+    balance: row.balance ?? undefined,
+    reference: row.reference ?? undefined,
+    currency: row.currency ?? undefined,
+    isSaving: row.saving ? true : undefined,
+    isHidden: row.hidden ? true : undefined,
+    importBatchId: row.import_batch_id ?? undefined,
+    ...(row.extra ? JSON.parse(row.extra) : {}),
+  };
+  for (const key of Object.keys(t)) {
+    if (t[key] === undefined) delete t[key];
+  }
+  return t;
+}
+
+/** A household's transactions matching a WHERE clause on the transactions table, with their tags. */
+export function selectTransactions(
+  householdId: number, where: string, ...params: unknown[]
+): Array<{ transaction: TransactionJson; revision: number; deleted: boolean }> {
+  const rows = db.prepare(`SELECT * FROM transactions WHERE household_id = ? AND (${where})`)
+    .all(householdId, ...params) as TransactionRow[];
+  const tagRows = db.prepare(`
+    SELECT transaction_id, tag FROM transaction_tags
+    WHERE household_id = ? AND transaction_id IN (SELECT id FROM transactions WHERE household_id = ? AND (${where}))
+  `).all(householdId, householdId, ...params) as { transaction_id: string; tag: string }[];
+
+  const tags = new Map<string, string[]>();
+  for (const { transaction_id, tag } of tagRows) {
+    if (!tags.has(transaction_id)) tags.set(transaction_id, []);
+    tags.get(transaction_id)!.push(tag);
+  }
+  return rows.map(row => ({ transaction: fromRow(row, tags.get(row.id) ?? []), revision: row.revision, deleted: !!row.deleted }));
+}
+
+export function currentRevision(): number {
+  return (db.prepare('SELECT revision FROM sync_state WHERE id = 1').get() as { revision: number }).revision;
+}
+
+// Every write bumps the global revision once and stamps the rows it touched with it, so a client
+// that has seen revision N can ask for exactly the rows changed after it. Deletes leave a tombstone
+// row (deleted = 1) for the same reason.
+export function nextRevision(): number {
+  const row = db.prepare('UPDATE sync_state SET revision = revision + 1 WHERE id = 1 RETURNING revision').get() as { revision: number };
+  return row.revision;
+}
+
+export function upsertTransactions(householdId: number, transactions: TransactionJson[], revision: number) {
+  const upsert = db.prepare(`
+    INSERT INTO transactions (
+      household_id, id, date, amount, payee, category, account, currency, hidden, saving, bank_transaction_id,
+      type, description, balance, reference, import_batch_id, extra, revision, deleted
+    ) VALUES (
+      @householdId, @id, @date, @amount, @payee, @category, @account, @currency, @hidden, @saving, @bankTransactionId,
+      @type, @description, @balance, @reference, @importBatchId, @extra, @revision, 0
+    )
+    ON CONFLICT (household_id, id) DO UPDATE SET
+      date = excluded.date, amount = excluded.amount, payee = excluded.payee, category = excluded.category,
+      account = excluded.account, currency = excluded.currency, hidden = excluded.hidden, saving = excluded.saving,
+      bank_transaction_id = excluded.bank_transaction_id, type = excluded.type, description = excluded.description,
+      balance = excluded.balance, reference = excluded.reference, import_batch_id = excluded.import_batch_id,
+      extra = excluded.extra, revision = excluded.revision, deleted = 0
+  `);
+  const clearTags = db.prepare('DELETE FROM transaction_tags WHERE household_id = ? AND transaction_id = ?');
+  const insertTag = db.prepare('INSERT OR IGNORE INTO transaction_tags (household_id, transaction_id, tag) VALUES (?, ?, ?)');
+  for (const t of transactions) {
+    upsert.run(toParams(householdId, t, revision));
+    clearTags.run(householdId, t.id);
+    for (const tag of t.tags ?? []) insertTag.run(householdId, t.id, tag);
+  }
+}
+
+export function markDeleted(householdId: number, ids: string[], revision: number) {
+  const remove = db.prepare('UPDATE transactions SET deleted = 1, revision = ? WHERE household_id = ? AND id = ? AND deleted = 0');
+  for (const id of ids) remove.run(revision, householdId, id);
+}
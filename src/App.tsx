@@ -1,5 +1,5 @@
-import { useState, useEffect, useCallback, useTransition } from 'react';
-import { Transaction, ColumnMapping, AppView, Category } from './types';
+import { useState, useEffect, useCallback, useRef, useTransition } from 'react';
+import { Transaction, ColumnMapping, AppView, Category, ParseProfile, ImportBatchFile, DuplicateDecision } from './types';
 import { FileUpload } from './components/FileUpload';
 import { ColumnMapper } from './components/ColumnMapper';
 import { TransactionList } from './components/TransactionList';
@@ -8,12 +8,25 @@ import { InteractiveAnalytics } from './components/InteractiveAnalytics';
 import { SubscriptionDashboard } from './components/SubscriptionDashboard';
 import { CategoryDrilldown } from './components/CategoryDrilldown';
 import { Settings } from './components/Settings';
+import { SyncStatusIndicator } from './components/SyncStatusIndicator';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { LoadingOverlay } from './components/LoadingOverlay';
+import { ImportPreview, PendingImport } from './components/ImportPreview';
+import { SheetPicker } from './components/SheetPicker';
+import { UnlockScreen } from './components/UnlockScreen';
 import { Upload, Map as MapIcon, List, BarChart3, Activity, CreditCard, Target, Settings as SettingsIcon } from 'lucide-react';
 import * as storage from './storage';
 import { loadCategoriesFromYaml } from './utils/categoryLoader';
+import { isLikelySaving } from './utils/rowConverter';
+import { DuplicateOptions, DEFAULT_DUPLICATE_OPTIONS, getDuplicateDetectionMode, getDuplicateDateWindow, mergeDuplicate } from './utils/duplicateDetection';
+import { getRenamingRules } from './utils/payeeRules';
+import { applyImportRules } from './utils/smartCategorization';
+import { loadCategoryModel, resetCategoryModel, trainCategoryModel } from './utils/categoryModel';
+import { ImportWorkerClient, ImportProgress, ImportCancelledError } from './workers/importClient';
+import { CsvFileInfo, ImportSession, ParsedStatement, groupFiles, groupSample, tableFormat } from './utils/importGroups';
+import { loadSavedMappings } from './utils/savedMappings';
 import { useToast } from './context/ToastContext';
+import { RestoredWorkspace } from './utils/backup';
 
 const VIEW_MESSAGES: Record<AppView, { title: string; sub: string }> = {
   upload:        { title: 'Preparing upload…',          sub: 'Getting ready for your data' },
@@ -26,17 +39,47 @@ const VIEW_MESSAGES: Record<AppView, { title: string; sub: string }> = {
   settings:      { title: 'Loading preferences…',       sub: '' },
 };
 
+// Rows sent back from the import worker for column detection and the mapping preview
+const SAMPLE_SIZE = 50;
+
+// Duplicate settings live in localStorage, which the worker can't read, so resolve them here
+function duplicateOptions(): DuplicateOptions | null {
+  const mode = getDuplicateDetectionMode();
+  if (mode === 'off') return null;
+  return {
+    ...DEFAULT_DUPLICATE_OPTIONS,
+    fuzzy: mode === 'fuzzy',
+    dateWindowDays: getDuplicateDateWindow(),
+    renamingRules: getRenamingRules(),
+  };
+}
+
+// Spreadsheets with several sheets or rows above the table get a chance to pick the right one
+function needsSheetReview(file: CsvFileInfo): boolean {
+  return !!file.sheet && (file.sheet.names.length > 1 || file.sheet.headerRow > 0);
+}
+
 function App() {
   const showToast = useToast();
   const [view, setView] = useState<AppView>('upload');
   const [pendingView, setPendingView] = useState<AppView | null>(null);
   const [isPending, startTransition] = useTransition();
-  const [rawData, setRawData] = useState<string[][]>([]);
-  const [headers, setHeaders] = useState<string[]>([]);
+  // Files of the current upload, grouped by format; the mapper works through the groups without a mapping
+  const [importSession, setImportSession] = useState<ImportSession | null>(null);
+  const [mappingIndex, setMappingIndex] = useState(0);
+  // Parsed files of an upload while the sheet picker is open; `index` is the spreadsheet being reviewed
+  const [sheetReview, setSheetReview] = useState<{ files: CsvFileInfo[]; statements: ParsedStatement[]; index: number; busy?: boolean } | null>(null);
+  // Holds the parsed CSV rows between upload and mapping
+  const importWorker = useRef<ImportWorkerClient | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
-  const [importProgress, setImportProgress] = useState<{ message: string; sub: string; progress: number } | null>(null);
+  // The local ledger is encrypted and waiting for the passphrase
+  const [locked, setLocked] = useState(false);
+  const [autoLockMinutes, setAutoLockMinutes] = useState(0); // 0: no auto-lock
+  // Only the worker stages can be cancelled; once saving starts the overlay has no cancel button
+  const [importProgress, setImportProgress] = useState<(ImportProgress & { cancellable?: boolean }) | null>(null);
   // Lazy-mount: once visited, a view stays in the DOM so its memo cache survives navigation
   const [mountedViews, setMountedViews] = useState<Set<AppView>>(() => new Set(['upload']));
   // When Analytics pie is clicked, carry the category + date range into Drilldown
@@ -51,10 +94,36 @@ function App() {
       }
     } catch (error) {
       console.error('Failed to load data:', error);
-      showToast('Failed to load transactions. Try refreshing the page.', 'error');
+      if (error instanceof storage.UnauthorizedError) {
+        // Signed out, or the session expired: don't keep showing the previous household's ledger
+        setTransactions([]);
+        showToast('Sign in to the backend server in Settings to see your transactions.', 'warning');
+      } else {
+        showToast('Failed to load transactions. Try refreshing the page.', 'error');
+      }
     }
   }, []);
 
+  // Settings, categories and the ledger; loaded at startup and again after unlocking
+  const loadWorkspace = useCallback(async () => {
+    // Rules, budgets and preferences are read synchronously from here on
+    try {
+      await storage.loadSettings();
+    } catch (error) {
+      console.error('Failed to load settings:', error);
+      // Signing in is prompted for when the ledger fails to load the same way
+      if (!(error instanceof storage.UnauthorizedError)) showToast('Failed to load settings. Try refreshing the page.', 'error');
+    }
+    // The backend's saved model comes with its settings
+    await loadCategoryModel();
+
+    // Categories restored from a backup are stored; otherwise they come from the YAML file
+    const storedCategories = await storage.getCategories().catch(() => []);
+    setCategories(storedCategories.length > 0 ? storedCategories : await loadCategoriesFromYaml());
+
+    await loadData();
+  }, [loadData, showToast]);
+
   // Initialize storage and load data
   useEffect(() => {
     const init = async () => {
@@ -66,118 +135,306 @@ function App() {
         if (settings.backendUrl) {
           storage.setBackendUrl(settings.backendUrl);
         }
+        storage.setMirroring(!!settings.mirror);
       }
 
       // Initialize IndexedDB
       await storage.initDB();
 
-      // Load categories from YAML
-      const loadedCategories = await loadCategoriesFromYaml();
-      setCategories(loadedCategories);
+      // An encrypted local ledger waits for the passphrase instead of loading
+      if (storage.getStorageType() === 'local') {
+        const encryption = await storage.getEncryptionStatus();
+        setAutoLockMinutes(encryption.autoLockMinutes);
+        if (encryption.locked) {
+          setLocked(true);
+          setLoading(false);
+          return;
+        }
+      }
 
-      // Load existing data
-      await loadData();
+      await loadWorkspace();
       setLoading(false);
     };
     init();
-  }, [loadData]);
+  }, [loadWorkspace]);
+
+  const handleUnlock = async (passphrase: string) => {
+    await storage.unlockStorage(passphrase);
+    setLocked(false);
+    setLoading(true);
+    await loadWorkspace();
+    setLoading(false);
+  };
+
+  // Drop everything decrypted from memory: the ledger, and any view or import holding rows from it
+  const handleLock = useCallback(() => {
+    storage.lockStorage();
+    resetCategoryModel();
+    setLocked(true);
+    setTransactions([]);
+    setCategories([]);
+    setPendingImport(null);
+    setImportSession(null);
+    setSheetReview(null);
+    setMountedViews(new Set(['upload']));
+    setView('upload');
+  }, []);
+
+  // Auto-lock after the configured time without keyboard, mouse or touch input
+  useEffect(() => {
+    if (locked || autoLockMinutes === 0) return;
+    let timer = window.setTimeout(handleLock, autoLockMinutes * 60_000);
+    const restart = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(handleLock, autoLockMinutes * 60_000);
+    };
+    const events = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'];
+    events.forEach(event => window.addEventListener(event, restart, { passive: true }));
+    return () => {
+      window.clearTimeout(timer);
+      events.forEach(event => window.removeEventListener(event, restart));
+    };
+  }, [locked, autoLockMinutes, handleLock]);
 
-  const handleFileUpload = (data: string[][], fileHeaders: string[]) => {
-    setRawData(data);
-    setHeaders(fileHeaders);
-    setView('mapping');
+  const handleEncryptionChange = (status: storage.EncryptionStatus) => {
+    setAutoLockMinutes(status.enabled ? status.autoLockMinutes : 0);
   };
 
-  const handleMappingComplete = async (columnMapping: ColumnMapping) => {
-    const getIdx = (field?: string) => field ? headers.indexOf(field) : -1;
+  const getImportWorker = () => {
+    importWorker.current ??= new ImportWorkerClient();
+    return importWorker.current;
+  };
 
-    const dateIdx   = getIdx(columnMapping.date);
-    const payeeIdx  = getIdx(columnMapping.payee);
-    const amountIdx = getIdx(columnMapping.amount);
-    const txnIdIdx  = getIdx(columnMapping.transactionId);
-    const typeIdx   = getIdx(columnMapping.type);
-    const descIdx   = getIdx(columnMapping.description);
-    const accountIdx = getIdx(columnMapping.account);
-    const balanceIdx = getIdx(columnMapping.balance);
-    const refIdx    = getIdx(columnMapping.reference);
+  // Failed or cancelled imports end up here; a cancelled worker has lost its rows, so start over
+  const handleImportError = (error: unknown) => {
+    setImportProgress(null);
+    if (error instanceof ImportCancelledError) {
+      showToast('Import cancelled.', 'info');
+      setImportSession(null);
+      setView('upload');
+      return;
+    }
+    console.error('Import failed:', error);
+    showToast(`Import failed: ${error instanceof Error ? error.message : String(error)}`, 'error');
+  };
 
-    setImportProgress({ message: 'Parsing rows…', sub: `Processing ${rawData.length.toLocaleString()} rows`, progress: 5 });
-    await new Promise(r => setTimeout(r, 0));
+  const discardImportWorker = () => {
+    importWorker.current?.terminate();
+    importWorker.current = null;
+  };
 
-    const savingsKeywords = ['savings', 'transfer to savings', 'deposit', 'investment'];
-
-    const parsed: Transaction[] = rawData.map((row, index) => {
-      const rawAmount  = row[amountIdx]?.replace(/[^0-9.-]/g, '') || '0';
-      const rawBalance = balanceIdx >= 0 ? row[balanceIdx]?.replace(/[^0-9.-]/g, '') : undefined;
-      const rawType    = typeIdx >= 0 ? row[typeIdx]?.toLowerCase() : undefined;
-      const amount     = parseFloat(rawAmount);
-      const payee      = row[payeeIdx] || 'Unknown';
-      const description = descIdx >= 0 ? row[descIdx] : undefined;
-      const isSaving   = amount > 0 && savingsKeywords.some(kw =>
-        payee.toLowerCase().includes(kw) || description?.toLowerCase().includes(kw)
-      );
-      const txnType: 'credit' | 'debit' | undefined =
-        rawType?.includes('credit') ? 'credit' : rawType?.includes('debit') ? 'debit' : undefined;
-
-      return {
-        id: `txn-${Date.now()}-${index}`,
-        transactionId: txnIdIdx >= 0 ? row[txnIdIdx] : undefined,
-        date: new Date(row[dateIdx]),
-        payee,
-        amount,
-        type: txnType,
-        description,
-        category: undefined,
-        tags: [],
-        account: accountIdx >= 0 ? row[accountIdx] : undefined,
-        balance: rawBalance ? parseFloat(rawBalance) : undefined,
-        reference: refIdx >= 0 ? row[refIdx] : undefined,
-        isSaving,
-      };
-    }).filter(t => !isNaN(t.date.getTime()) && !isNaN(t.amount));
-
-    // Chunked duplicate detection so the UI can show progress
-    const duplicateDetection = localStorage.getItem('duplicate-detection') || 'strict';
-    const duplicateIndices = new Set<number>();
-
-    if (duplicateDetection === 'strict' && transactions.length > 0) {
-      const CHUNK = 300;
-      for (let i = 0; i < parsed.length; i += CHUNK) {
-        const end = Math.min(i + CHUNK, parsed.length);
-        for (let j = i; j < end; j++) {
-          const t = parsed[j];
-          if (transactions.some(e =>
-            e.date.getTime() === t.date.getTime() &&
-            e.payee === t.payee &&
-            e.amount === t.amount
-          )) duplicateIndices.add(j);
-        }
-        const pct = 10 + ((i + CHUNK) / parsed.length) * 75;
-        setImportProgress({
-          message: 'Checking for duplicates…',
-          sub: `Scanned ${Math.min(i + CHUNK, parsed.length).toLocaleString()} of ${parsed.length.toLocaleString()} rows`,
-          progress: Math.min(pct, 85),
+  const handleWorkerProgress = (progress: ImportProgress) => setImportProgress({ ...progress, cancellable: true });
+
+  const handleFileUpload = async (tableFiles: File[], statements: ParsedStatement[]) => {
+    // A new upload replaces whatever rows the previous one left in the worker
+    discardImportWorker();
+    const files: CsvFileInfo[] = [];
+    try {
+      for (const [i, file] of tableFiles.entries()) {
+        const fileId = `file-${i}`;
+        handleWorkerProgress({
+          message: tableFiles.length > 1 ? `Reading file ${i + 1} of ${tableFiles.length}…` : 'Reading file…',
+          sub: file.name,
+          progress: 0,
         });
-        await new Promise(r => setTimeout(r, 0));
+        const parsed = await getImportWorker().parseFile(fileId, file, SAMPLE_SIZE, handleWorkerProgress);
+        files.push({ fileId, fileName: file.name, format: tableFormat(file.name), ...parsed });
+      }
+      setImportProgress(null);
+    } catch (error) {
+      handleImportError(error);
+      return;
+    }
+
+    const review = files.findIndex(needsSheetReview);
+    if (review >= 0) {
+      setSheetReview({ files, statements, index: review });
+      return;
+    }
+    await continueUpload(files, statements);
+  };
+
+  const handleSheetChange = async (sheetName: string, headerRow?: number) => {
+    if (!sheetReview) return;
+    const { fileId } = sheetReview.files[sheetReview.index];
+    setSheetReview({ ...sheetReview, busy: true });
+    try {
+      const parsed = await getImportWorker().selectSheet(fileId, sheetName, headerRow, SAMPLE_SIZE);
+      setSheetReview(prev => prev && {
+        ...prev,
+        busy: false,
+        files: prev.files.map(f => f.fileId === fileId ? { ...f, ...parsed } : f),
+      });
+    } catch (error) {
+      setSheetReview(null);
+      handleImportError(error);
+    }
+  };
+
+  const handleSheetContinue = async () => {
+    if (!sheetReview) return;
+    const { files, statements, index } = sheetReview;
+    const next = files.findIndex((f, i) => i > index && needsSheetReview(f));
+    if (next >= 0) {
+      setSheetReview({ ...sheetReview, index: next });
+      return;
+    }
+    setSheetReview(null);
+    await continueUpload(files, statements);
+  };
+
+  const handleSheetCancel = () => {
+    setSheetReview(null);
+    discardImportWorker();
+    showToast('Import cancelled.', 'info');
+  };
+
+  // Group the parsed files by header row; groups without a saved mapping go to the mapper
+  const continueUpload = async (files: CsvFileInfo[], statements: ParsedStatement[]) => {
+    try {
+      const empty = files.find(f => f.rowCount === 0);
+      if (empty) throw new Error(`${empty.fileName} has no data rows.`);
+
+      // Formats with a saved mapping go straight through; only unknown ones need the mapper
+      const session: ImportSession = { groups: groupFiles(files, loadSavedMappings(), SAMPLE_SIZE), statements };
+      const unmapped = session.groups.findIndex(g => !g.mapping);
+      setImportSession(session);
+      setMappingIndex(Math.max(0, unmapped));
+      if (unmapped >= 0) {
+        setView('mapping');
+      } else {
+        await runImport(session);
       }
+    } catch (error) {
+      handleImportError(error);
     }
+  };
 
-    const newTransactions = parsed.filter((_, i) => !duplicateIndices.has(i));
-    if (duplicateIndices.size > 0) {
-      showToast(`Skipped ${duplicateIndices.size} duplicate transaction(s).`, 'info');
+  const handleMappingComplete = async (columnMapping: ColumnMapping, profile: ParseProfile, mappingName?: string) => {
+    if (!importSession) return;
+    const session: ImportSession = {
+      ...importSession,
+      groups: importSession.groups.map((g, i) => i === mappingIndex ? { ...g, mapping: columnMapping, profile, mappingName } : g),
+    };
+    setImportSession(session);
+    const unmapped = session.groups.findIndex(g => !g.mapping);
+    if (unmapped >= 0) {
+      setMappingIndex(unmapped);
+      return;
     }
+    await runImport(session);
+  };
 
-    setImportProgress({ message: 'Saving to database…', sub: `Writing ${newTransactions.length.toLocaleString()} transactions`, progress: 92 });
+  // Every file of the upload goes into one batch: the worker converts the CSVs and spreadsheets, adds the statements
+  // (OFX/QFX, QIF, camt.053, MT940 arrive already structured) and checks it all for duplicates
+  const runImport = async (session: ImportSession) => {
+    const fileCount = session.groups.reduce((n, g) => n + g.files.length, 0) + session.statements.length;
+    handleWorkerProgress({ message: 'Parsing rows…', sub: `${fileCount} file(s)`, progress: 0 });
+    try {
+      const batchId = `batch-${Date.now()}`;
+      const result = await getImportWorker().runImport({
+        groups: session.groups.flatMap(g => g.mapping && g.profile
+          ? [{ fileIds: g.files.map(f => f.fileId), mapping: g.mapping, profile: g.profile }]
+          : []),
+        statements: session.statements.map(s => s.transactions.map(t => ({
+          ...t,
+          isSaving: t.isSaving ?? isLikelySaving(t.amount, t.payee, t.description),
+        }))),
+        batchId,
+        existing: transactions,
+        duplicateOptions: duplicateOptions(),
+      }, handleWorkerProgress);
+
+      const stats = new Map(result.fileStats.map(f => [f.fileId, f]));
+      const files: ImportBatchFile[] = [
+        ...session.groups.flatMap(g => g.files.map(f => ({
+          fileName: f.fileName,
+          format: f.format,
+          mappingName: g.mappingName,
+          totalRows: stats.get(f.fileId)?.totalRows ?? f.rowCount,
+          invalidCount: stats.get(f.fileId)?.invalidCount ?? 0,
+        }))),
+        ...session.statements.map(s => ({ fileName: s.fileName, format: s.format, totalRows: s.transactions.length, invalidCount: 0 })),
+      ];
+      const singleGroup = session.groups.length === 1 && session.statements.length === 0 ? session.groups[0] : undefined;
+
+      setImportProgress(null);
+      setPendingImport({
+        batch: {
+          id: batchId,
+          fileName: files.length === 1 ? files[0].fileName : `${files[0].fileName} + ${files.length - 1} more`,
+          files: files.length > 1 ? files : undefined,
+          format: files[0].format,
+          mappingName: singleGroup?.mappingName,
+          mapping: singleGroup?.mapping,
+          importedAt: new Date(),
+          totalRows: files.reduce((n, f) => n + f.totalRows, 0),
+          importedCount: result.newTransactions.length,
+          duplicateCount: result.duplicates.length,
+          invalidCount: files.reduce((n, f) => n + f.invalidCount, 0),
+        },
+        // Rules marked to run on import apply before the preview, so it shows what will be saved
+        newTransactions: applyImportRules(result.newTransactions),
+        duplicates: result.duplicates,
+        probable: result.probable.map(m => ({ ...m, incoming: applyImportRules([m.incoming])[0] })),
+      });
+    } catch (error) {
+      handleImportError(error);
+    }
+  };
+
+  const handleConfirmImport = async (decisions: Record<string, DuplicateDecision>) => {
+    if (!pendingImport) return;
+    const { batch, newTransactions, duplicates, probable } = pendingImport;
+
+    // Resolve the review queue: kept rows are imported, merged ones only fill gaps in the existing transaction
+    const kept = probable.filter(m => decisions[m.incoming.id] === 'keep').map(m => m.incoming);
+    const merges = new Map(probable
+      .filter(m => decisions[m.incoming.id] === 'merge')
+      .map(m => [m.existing.id, mergeDuplicate(m.existing, m.incoming)]));
+    // A match can also be an earlier row of the same import, when the dropped files overlap
+    const toImport = [...newTransactions, ...kept].map(t => merges.has(t.id) ? { ...t, ...merges.get(t.id) } : t);
+    const skippedCount = duplicates.length + probable.length - kept.length - merges.size;
+
+    setImportProgress({ message: 'Saving to database…', sub: `Writing ${toImport.length.toLocaleString()} transactions`, progress: 92 });
     await new Promise(r => setTimeout(r, 0));
 
-    const allTransactions = [...transactions, ...newTransactions];
-    await storage.saveTransactions(allTransactions);
+    const allTransactions = [
+      ...transactions.map(t => merges.has(t.id) ? { ...t, ...merges.get(t.id) } : t),
+      ...toImport,
+    ];
+    try {
+      await storage.saveTransactions(allTransactions);
+      await storage.saveImportBatch({
+        ...batch,
+        importedAt: new Date(),
+        importedCount: toImport.length,
+        duplicateCount: skippedCount,
+        mergedCount: merges.size,
+      });
+    } catch (error) {
+      // The review stays open, with its decisions, so the import can be confirmed again
+      console.error('Failed to save import:', error);
+      setImportProgress(null);
+      showToast(error instanceof storage.StorageLockedError
+        ? 'The database locked before the import was saved. Unlock it and confirm the import again.'
+        : 'Failed to save the import. Try confirming it again.', 'error');
+      return;
+    }
+    setPendingImport(null);
+
+    if (skippedCount > 0 || merges.size > 0) {
+      showToast(`Skipped ${skippedCount} duplicate transaction(s)${merges.size ? `, merged ${merges.size}` : ''}.`, 'info');
+    }
 
     setImportProgress({ message: 'Done!', sub: '', progress: 100 });
     await new Promise(r => setTimeout(r, 350));
 
     setImportProgress(null);
     setTransactions(allTransactions);
+    setImportSession(null);
+    discardImportWorker();
+    setMountedViews(prev => new Set([...prev, 'transactions']));
     startTransition(() => setView('transactions'));
   };
 
@@ -211,6 +468,14 @@ function App() {
     startTransition(() => setView(v));
   };
 
+  // Keep the learned categorization model in step with the ledger. Its features go through the payee renaming
+  // rules, so wait for the settings (and the saved model, loaded with them)
+  useEffect(() => {
+    if (loading) return;
+    const timer = window.setTimeout(() => trainCategoryModel(transactions), 1000);
+    return () => window.clearTimeout(timer);
+  }, [transactions, loading]);
+
   // Clear pendingView once the transition has committed
   useEffect(() => {
     if (!isPending) setPendingView(null);
@@ -226,13 +491,39 @@ function App() {
     handleSetView('drilldown');
   };
 
-  const handleStorageChange = () => {
+  const handleStorageChange = async () => {
+    // Auto-lock and the unlock screen only apply to the local database
+    if (storage.getStorageType() === 'local') {
+      const encryption = await storage.getEncryptionStatus();
+      setAutoLockMinutes(encryption.autoLockMinutes);
+      if (encryption.locked) {
+        handleLock();
+        return;
+      }
+    } else {
+      setAutoLockMinutes(0);
+    }
     loadData();
   };
 
+  const handleCategoriesChange = (updatedCategories: Category[], updatedTransactions: Transaction[]) => {
+    setCategories(updatedCategories);
+    setTransactions(updatedTransactions);
+  };
+
+  const handleRestore = (restored: RestoredWorkspace) => {
+    setTransactions(restored.transactions);
+    setCategories(restored.categories);
+  };
+
+  const reviewFile = sheetReview?.files[sheetReview.index];
+  const reviewFiles = sheetReview?.files.filter(needsSheetReview) ?? [];
+  const mappingGroup = importSession?.groups[mappingIndex];
+  const mappingSample = mappingGroup ? groupSample(mappingGroup, SAMPLE_SIZE) : undefined;
+
   const navItems = [
     { view: 'upload' as AppView, icon: Upload, label: 'Upload' },
-    { view: 'mapping' as AppView, icon: MapIcon, label: 'Map', disabled: !headers.length },
+    { view: 'mapping' as AppView, icon: MapIcon, label: 'Map', disabled: !importSession?.groups.length },
     { view: 'transactions' as AppView, icon: List, label: 'Transactions', disabled: !transactions.length },
     { view: 'analytics' as AppView, icon: BarChart3, label: 'Analytics', disabled: !transactions.length },
     { view: 'interactive' as AppView, icon: Activity, label: 'Interactive', disabled: !transactions.length },
@@ -251,6 +542,10 @@ function App() {
     );
   }
 
+  if (locked) {
+    return <UnlockScreen onUnlock={handleUnlock} />;
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       <nav className="bg-white shadow-sm border-b">
@@ -274,6 +569,7 @@ function App() {
                   )}
                 </button>
               ))}
+              {storage.getStorageType() === 'backend' && <SyncStatusIndicator onResolved={loadData} />}
             </div>
           </div>
         </div>
@@ -283,12 +579,19 @@ function App() {
         {/* Upload & Mapping are never lazy-mounted — they need fresh state each time */}
         {view === 'upload' && (
           <ErrorBoundary label="Upload">
-            <FileUpload onUpload={handleFileUpload} />
+            <FileUpload onUpload={handleFileUpload} categories={categories} />
           </ErrorBoundary>
         )}
-        {view === 'mapping' && (
+        {view === 'mapping' && mappingGroup && mappingSample && (
           <ErrorBoundary label="Column Mapper">
-            <ColumnMapper headers={headers} sampleData={rawData.slice(0, 3)} onComplete={handleMappingComplete} />
+            <ColumnMapper
+              key={mappingGroup.signature}
+              headers={mappingSample.headers}
+              sampleData={mappingSample.sample}
+              fileNames={mappingGroup.files.map(f => f.fileName)}
+              step={{ index: mappingIndex, total: importSession?.groups.length ?? 1 }}
+              onComplete={handleMappingComplete}
+            />
           </ErrorBoundary>
         )}
 
@@ -347,7 +650,15 @@ function App() {
         {mountedViews.has('settings') && (
           <div style={{ display: view === 'settings' ? undefined : 'none' }}>
             <ErrorBoundary label="Settings">
-              <Settings onStorageChange={handleStorageChange} categories={categories} transactions={transactions} />
+              <Settings
+                onStorageChange={handleStorageChange}
+                onRestore={handleRestore}
+                onLock={handleLock}
+                onEncryptionChange={handleEncryptionChange}
+                categories={categories}
+                transactions={transactions}
+                onCategoriesChange={handleCategoriesChange}
+              />
             </ErrorBoundary>
           </div>
         )}
@@ -360,12 +671,36 @@ function App() {
           />
         )}
 
+        {/* Sheet and header row choice for spreadsheets, before grouping and mapping */}
+        {sheetReview && reviewFile?.sheet && (
+          <SheetPicker
+            fileName={reviewFile.fileName}
+            sheet={reviewFile.sheet}
+            rowCount={reviewFile.rowCount}
+            step={{ index: reviewFiles.indexOf(reviewFile), total: reviewFiles.length }}
+            busy={!!sheetReview.busy}
+            onChange={handleSheetChange}
+            onContinue={handleSheetContinue}
+            onCancel={handleSheetCancel}
+          />
+        )}
+
+        {/* Review step between parsing an import and saving it */}
+        {pendingImport && (
+          <ImportPreview
+            pending={pendingImport}
+            onConfirm={handleConfirmImport}
+            onCancel={() => setPendingImport(null)}
+          />
+        )}
+
         {/* Import progress overlay */}
         {importProgress && (
           <LoadingOverlay
             message={importProgress.message}
             subMessage={importProgress.sub}
             progress={importProgress.progress}
+            onCancel={importProgress.cancellable ? discardImportWorker : undefined}
           />
         )}
       </main>
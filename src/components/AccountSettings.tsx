@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import { LogOut, RefreshCw, User } from 'lucide-react';
+import { useToast } from '../context/ToastContext';
+import { BackendAccount, UnauthorizedError, getSessionUser, getAccount, login, register, logout, rotateInviteCode } from '../storage';
+
+interface AccountSettingsProps {
+  /** Signed in or out; the data shown now belongs to a different household */
+  onSessionChange: () => void;
+}
+
+const MIN_PASSWORD_LENGTH = 8;
+
+type AccountForm = 'sign-in' | 'register';
+
+export function AccountSettings({ onSessionChange }: AccountSettingsProps) {
+  const showToast = useToast();
+  const [signedInAs, setSignedInAs] = useState<string | null>(getSessionUser);
+  const [account, setAccount] = useState<BackendAccount | null>(null);
+  const [form, setForm] = useState<AccountForm>('sign-in');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [inviteCode, setInviteCode] = useState('');
+  const [householdName, setHouseholdName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!signedInAs) {
+      setAccount(null);
+      return;
+    }
+    getAccount()
+      .then(setAccount)
+      .catch(err => {
+        console.error('Failed to load the account:', err);
+        // The server dropped the session, e.g. it expired
+        if (err instanceof UnauthorizedError) setSignedInAs(null);
+      });
+  }, [signedInAs]);
+
+  const canSubmit = !busy && username.trim() !== '' && (form === 'sign-in' ? password !== '' : password.length >= MIN_PASSWORD_LENGTH);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    setBusy(true);
+    setError(null);
+    try {
+      if (form === 'sign-in') await login(username.trim(), password);
+      else await register(username.trim(), password, inviteCode.trim(), householdName.trim());
+      setPassword('');
+      setSignedInAs(getSessionUser());
+      onSessionChange();
+    } catch (err) {
+      console.error('Sign-in failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await logout();
+    setSignedInAs(null);
+    onSessionChange();
+  };
+
+  const handleNewInvite = async () => {
+    try {
+      const code = await rotateInviteCode();
+      setAccount(current => current && { ...current, household: { ...current.household, inviteCode: code } });
+      showToast('New invite code created; the old one no longer works.', 'success');
+    } catch (err) {
+      console.error('Failed to create an invite code:', err);
+      showToast('Failed to create a new invite code.', 'error');
+    }
+  };
+
+  if (signedInAs) {
+    return (
+      <div className="mt-4 p-4 border rounded-lg">
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center gap-2 text-sm">
+            <User size={16} className="text-gray-500" />
+            Signed in as <span className="font-medium">{signedInAs}</span>
+            {account && <span className="text-gray-500">• {account.household.name}</span>}
+          </div>
+          <button
+            onClick={handleSignOut}
+            className="flex items-center gap-2 px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+          >
+            <LogOut size={14} />
+            Sign out
+          </button>
+        </div>
+        {account && (
+          <div className="text-xs text-gray-500 space-y-1">
+            <div>Members: {account.household.members.join(', ')}</div>
+            <div className="flex items-center gap-2">
+              Invite code: <code className="bg-gray-200 px-1 rounded">{account.household.inviteCode}</code>
+              <button onClick={handleNewInvite} title="Create a new invite code" className="p-1 hover:bg-gray-200 rounded">
+                <RefreshCw size={12} />
+              </button>
+            </div>
+            <div>Others join this household by creating an account with the invite code.</div>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const textInput = (value: string, onValueChange: (v: string) => void, placeholder: string, type = 'text', autoComplete = 'off') => (
+    <input
+      type={type}
+      value={value}
+      onChange={(e) => onValueChange(e.target.value)}
+      placeholder={placeholder}
+      autoComplete={autoComplete}
+      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+    />
+  );
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 p-4 border rounded-lg space-y-3 max-w-sm">
+      <div className="flex gap-4 text-sm">
+        {(['sign-in', 'register'] as const).map(f => (
+          <button
+            key={f}
+            type="button"
+            onClick={() => { setForm(f); setError(null); }}
+            className={form === f ? 'font-medium text-blue-600' : 'text-gray-500 hover:text-gray-700'}
+          >
+            {f === 'sign-in' ? 'Sign in' : 'Create account'}
+          </button>
+        ))}
+      </div>
+      {textInput(username, setUsername, 'Username', 'text', 'username')}
+      {textInput(password, setPassword, 'Password', 'password', form === 'sign-in' ? 'current-password' : 'new-password')}
+      {form === 'register' && (
+        <>
+          {password && password.length < MIN_PASSWORD_LENGTH && (
+            <p className="text-sm text-red-600">Use at least {MIN_PASSWORD_LENGTH} characters.</p>
+          )}
+          {textInput(inviteCode, setInviteCode, 'Invite code (to join a household)')}
+          {!inviteCode && textInput(householdName, setHouseholdName, 'Household name (optional)')}
+        </>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <button
+        type="submit"
+        disabled={!canSubmit}
+        className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+      >
+        {busy ? 'Working…' : form === 'sign-in' ? 'Sign in' : 'Create account'}
+      </button>
+    </form>
+  );
+}
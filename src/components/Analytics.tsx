@@ -1,5 +1,5 @@
 import { useState, useMemo } from 'react';
-import { Transaction, Category } from '../types';
+import { Transaction, Category, SavingsGoal } from '../types';
 import {
   PieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, CartesianGrid,
   Tooltip, Legend, ResponsiveContainer, LineChart, Line, AreaChart, Area
@@ -12,6 +12,8 @@ import { DateRangePicker } from './DateRangePicker';
 import { formatCurrency } from '../utils/currency';
 import { getCategoryChildren } from '../utils/categoryLoader';
 import { getAllBudgetProgress } from '../utils/budgetManager';
+import { expandSplits } from '../utils/splits';
+import { getSetting } from '../storage';
 
 type ChartType = 'pie' | 'bar' | 'line' | 'area';
 
@@ -54,7 +56,9 @@ function ChartTypeSelector({ value, onChange, options = ['pie', 'bar', 'line', '
   );
 }
 
-export function Analytics({ transactions, categories, onDrilldown }: AnalyticsProps) {
+export function Analytics({ transactions: ledger, categories, onDrilldown }: AnalyticsProps) {
+  // Split transactions count as their parts
+  const transactions = useMemo(() => expandSplits(ledger), [ledger]);
   const [dateRange, setDateRange] = useState<{ start: string; end: string }>({
     start: '',
     end: '',
@@ -71,7 +75,7 @@ export function Analytics({ transactions, categories, onDrilldown }: AnalyticsPr
   
 
   // Get user's currency
-  const userCurrency = localStorage.getItem('default-currency') || 'USD';
+  const userCurrency = getSetting('default-currency', 'USD');
 
   // Filter transactions
   const filteredTransactions = useMemo(() => {
@@ -133,10 +137,7 @@ export function Analytics({ transactions, categories, onDrilldown }: AnalyticsPr
 
   const savingsAmount = income.filter(t => t.isSaving).reduce((sum, t) => sum + t.amount, 0);
   
-  const savingsGoal = (() => {
-    const saved = localStorage.getItem('savings-goal');
-    return saved ? JSON.parse(saved) : { amount: 0, period: 'year' };
-  })();
+  const savingsGoal = getSetting<SavingsGoal>('savings-goal', { amount: 0, period: 'year' });
 
   const savingsProgress = savingsGoal.amount > 0 ? (savingsAmount / savingsGoal.amount) * 100 : 0;
 
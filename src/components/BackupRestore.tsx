@@ -0,0 +1,181 @@
+import { useRef, useState } from 'react';
+import { Archive, Download, Upload } from 'lucide-react';
+import { useToast } from '../context/ToastContext';
+import { Category } from '../types';
+import {
+  WorkspaceBackup, RestoreMode, RestoredWorkspace, BackupValidationError,
+  createBackup, serializeBackup, parseBackup, restoreBackup,
+} from '../utils/backup';
+
+interface BackupRestoreProps {
+  categories: Category[];
+  onRestored: (restored: RestoredWorkspace) => void;
+}
+
+// Entries of a list setting in the backup, for the summary
+const settingCount = (backup: WorkspaceBackup, key: string) => {
+  const value = backup.settings[key];
+  return Array.isArray(value) ? value.length : 0;
+};
+
+export function BackupRestore({ categories, onRestored }: BackupRestoreProps) {
+  const showToast = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // A validated backup waiting for the user to pick merge or replace
+  const [pending, setPending] = useState<{ fileName: string; backup: WorkspaceBackup } | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [busy, setBusy] = useState(false);
+
+  const handleExport = async () => {
+    setBusy(true);
+    try {
+      const backup = await createBackup(categories);
+      const blob = new Blob([serializeBackup(backup)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `where-money-go-backup-${backup.exportedAt.toISOString().slice(0, 10)}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+      showToast(`Backed up ${backup.transactions.length.toLocaleString()} transactions and all settings.`, 'success');
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      showToast('Error creating the backup.', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFileSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        setPending({ fileName: file.name, backup: parseBackup(e.target?.result as string) });
+        setMode('merge');
+      } catch (error) {
+        console.error('Error reading backup:', error);
+        showToast(error instanceof BackupValidationError ? error.message : 'Error reading the backup file.', 'error');
+      }
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleRestore = async () => {
+    if (!pending) return;
+    setBusy(true);
+    try {
+      const restored = await restoreBackup(pending.backup, mode, categories);
+      onRestored(restored);
+      setPending(null);
+      showToast(
+        mode === 'replace'
+          ? `Restored ${restored.transactions.length.toLocaleString()} transactions from ${pending.fileName}.`
+          : `Merged ${pending.fileName}; the ledger now has ${restored.transactions.length.toLocaleString()} transactions.`,
+        'success',
+      );
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      showToast('Error restoring the backup. Some data may have been restored; check before trying again.', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <h3 className="font-medium mb-4 flex items-center gap-2">
+        <Archive size={20} />
+        Backup &amp; Restore
+      </h3>
+      <p className="text-sm text-gray-500 mb-4">
+        One file with your transactions, categories, import history, rules, budgets, saved mappings, goals and dashboards.
+      </p>
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleExport}
+          disabled={busy}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Download size={16} />
+          Download backup
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={busy}
+          className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Upload size={16} />
+          Restore from backup
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleFileSelected}
+          className="hidden"
+        />
+      </div>
+
+      {pending && (
+        <div className="mt-4 p-4 border rounded-lg">
+          <div className="font-medium text-sm">{pending.fileName}</div>
+          <div className="text-xs text-gray-500 mb-3">
+            Backed up {pending.backup.exportedAt.toLocaleString()} • {pending.backup.transactions.length.toLocaleString()} transactions
+            • {pending.backup.categories.length} categories
+            • {settingCount(pending.backup, 'category-rules') + settingCount(pending.backup, 'payee-renaming-rules')} rules
+            • {settingCount(pending.backup, 'budgets')} budgets
+            • {settingCount(pending.backup, 'saved-column-mappings')} mappings
+            • {settingCount(pending.backup, 'interactive-analytics-dashboards')} dashboards
+          </div>
+
+          <div className="space-y-2 mb-4">
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input type="radio" name="restore-mode" checked={mode === 'merge'} onChange={() => setMode('merge')} className="mt-1" />
+              <div>
+                <div className="font-medium text-sm">Merge</div>
+                <div className="text-xs text-gray-500">
+                  Add transactions, categories, rules and dashboards you don't have yet; keep everything already here
+                </div>
+              </div>
+            </label>
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input type="radio" name="restore-mode" checked={mode === 'replace'} onChange={() => setMode('replace')} className="mt-1" />
+              <div>
+                <div className="font-medium text-sm">Replace</div>
+                <div className="text-xs text-gray-500">
+                  Delete the current transactions, import history, rules, budgets and dashboards, and use the backup's instead
+                </div>
+              </div>
+            </label>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleRestore}
+              disabled={busy}
+              className={`px-4 py-2 text-white rounded-md disabled:opacity-50 ${
+                mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              {mode === 'replace' ? 'Replace workspace' : 'Merge backup'}
+            </button>
+            <button
+              onClick={() => setPending(null)}
+              disabled={busy}
+              className="px-4 py-2 bg-gray-200 rounded-md hover:bg-gray-300"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,12 +2,14 @@ import { useState, useMemo, useCallback, useEffect } from 'react';
 import { Transaction, Category } from '../types';
 import { formatCurrency } from '../utils/currency';
 import { getCategoryChildren } from '../utils/categoryLoader';
+import { expandSplits } from '../utils/splits';
 import { ChevronRight, Home, TrendingDown, TrendingUp, Users } from 'lucide-react';
 import { DateRangePicker } from './DateRangePicker';
 import {
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
   Cell, PieChart, Pie
 } from 'recharts';
+import { getSetting } from '../storage';
 
 interface CategoryDrilldownProps {
   transactions: Transaction[];
@@ -28,12 +30,14 @@ interface CategoryNode {
   [key: string]: string | number | boolean | undefined;
 }
 
-export function CategoryDrilldown({ transactions, categories, initialCategory, initialDateRange, onInitialConsumed }: CategoryDrilldownProps) {
+export function CategoryDrilldown({ transactions: ledger, categories, initialCategory, initialDateRange, onInitialConsumed }: CategoryDrilldownProps) {
+  // Split transactions count as their parts
+  const transactions = useMemo(() => expandSplits(ledger), [ledger]);
   const [selectedPath, setSelectedPath] = useState<string[]>([]);
   const [showPayees, setShowPayees] = useState(false);
   const [selectedPayee, setSelectedPayee] = useState<string | null>(null);
   const [dateRange, setDateRange] = useState<{ start: string; end: string }>({ start: '', end: '' });
-  const userCurrency = localStorage.getItem('default-currency') || 'USD';
+  const userCurrency = getSetting('default-currency', 'USD');
   const formatAmount = (value: number) => formatCurrency(value, userCurrency);
 
   // When Analytics navigates here with a category + date range, apply them
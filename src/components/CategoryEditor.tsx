@@ -0,0 +1,284 @@
+import { useRef, useState } from 'react';
+import { FolderTree, GripVertical, Plus, Trash2, Check, X } from 'lucide-react';
+import { useToast } from '../context/ToastContext';
+import { Category, Transaction } from '../types';
+import { getCategoryLevel } from '../utils/categoryLoader';
+import {
+  CategoryChange, CategoryEditError, CategoryUsage,
+  addCategory, canHaveChildren, deleteCategory, getCategoryUsage, moveCategory, renameCategory, saveCategoryChange, updateCategory,
+} from '../utils/categoryEditing';
+
+interface CategoryEditorProps {
+  categories: Category[];
+  transactions: Transaction[];
+  /** The categories were saved; `transactions` has renames and deletions applied */
+  onChange: (categories: Category[], transactions: Transaction[]) => void;
+}
+
+// Parents before their children, siblings in list order
+function treeOrder(categories: Category[], parent?: string): Category[] {
+  return categories
+    .filter(c => c.parent === parent || (!parent && c.parent && !categories.some(p => p.name === c.parent)))
+    .flatMap(c => [c, ...treeOrder(categories, c.name)]);
+}
+
+export function CategoryEditor({ categories, transactions, onChange }: CategoryEditorProps) {
+  const showToast = useToast();
+  const [busy, setBusy] = useState(false);
+  const [renaming, setRenaming] = useState<{ name: string; value: string } | null>(null);
+  // Parent of the category being added; '' adds a top-level one
+  const [adding, setAdding] = useState<{ parent: string; value: string } | null>(null);
+  const [deleting, setDeleting] = useState<{ name: string; usage: CategoryUsage; replacement: string } | null>(null);
+  const [dragged, setDragged] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  // The color picker reports every step of a drag; only where it settles is saved
+  const [colorDraft, setColorDraft] = useState<{ name: string; color: string } | null>(null);
+  const colorTimer = useRef<number | undefined>(undefined);
+
+  // Apply an edit to the list and save it; invalid edits are reported and leave everything as it was
+  const commit = async (edit: () => Category[], change?: CategoryChange) => {
+    let next: Category[];
+    try {
+      next = edit();
+    } catch (error) {
+      if (!(error instanceof CategoryEditError)) throw error;
+      showToast(error.message, 'warning');
+      return false;
+    }
+    setBusy(true);
+    try {
+      onChange(next, await saveCategoryChange(next, transactions, change));
+      return true;
+    } catch (error) {
+      console.error('Failed to save categories:', error);
+      showToast('Failed to save categories.', 'error');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleColor = (name: string, color: string) => {
+    setColorDraft({ name, color });
+    window.clearTimeout(colorTimer.current);
+    colorTimer.current = window.setTimeout(async () => {
+      await commit(() => updateCategory(categories, name, { color }));
+      setColorDraft(null);
+    }, 400);
+  };
+
+  const handleRename = async () => {
+    if (!renaming) return;
+    const { name, value } = renaming;
+    if (await commit(() => renameCategory(categories, name, value), { type: 'rename', from: name, to: value.trim() })) {
+      setRenaming(null);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!adding) return;
+    if (await commit(() => addCategory(categories, adding.value, adding.parent || undefined))) setAdding(null);
+  };
+
+  const startDelete = (category: Category) => {
+    setDeleting({ name: category.name, usage: getCategoryUsage(category.name, transactions), replacement: category.parent ?? '' });
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    const { name, replacement } = deleting;
+    if (await commit(() => deleteCategory(categories, name), { type: 'delete', name, replacement: replacement || undefined })) {
+      setDeleting(null);
+    }
+  };
+
+  const handleDrop = (parent?: string) => {
+    const name = dragged;
+    setDragged(null);
+    setDropTarget(null);
+    if (!name || categories.find(c => c.name === name)?.parent === parent) return;
+    commit(() => moveCategory(categories, name, parent));
+  };
+
+  const renderAddForm = (parent: string, level: number) => (
+    <div className="flex items-center gap-2 py-1" style={{ paddingLeft: `${level * 1.5 + 1.75}rem` }}>
+      <input
+        type="text"
+        autoFocus
+        value={adding!.value}
+        onChange={(e) => setAdding({ parent, value: e.target.value })}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') handleAdd();
+          if (e.key === 'Escape') setAdding(null);
+        }}
+        placeholder={parent ? `New subcategory of ${parent}` : 'New category'}
+        className="flex-1 border rounded-md px-2 py-1 text-sm"
+      />
+      <button onClick={handleAdd} disabled={busy} className="text-green-600 hover:text-green-700" title="Add">
+        <Check size={16} />
+      </button>
+      <button onClick={() => setAdding(null)} className="text-gray-400 hover:text-gray-600" title="Cancel">
+        <X size={16} />
+      </button>
+    </div>
+  );
+
+  const ordered = treeOrder(categories);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-medium flex items-center gap-2">
+          <FolderTree size={20} />
+          Categories
+        </h3>
+        <button
+          onClick={() => setAdding({ parent: '', value: '' })}
+          className="flex items-center gap-1 px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm"
+        >
+          <Plus size={16} />
+          Add Category
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Drag a category onto another to move it there, up to four levels deep. Renaming or deleting a category updates
+        its transactions, category rules and budgets.
+      </p>
+
+      {adding?.parent === '' && renderAddForm('', 0)}
+
+      {dragged && (
+        <div
+          onDragOver={(e) => { e.preventDefault(); setDropTarget(''); }}
+          onDragLeave={() => setDropTarget(null)}
+          onDrop={() => handleDrop(undefined)}
+          className={`mb-2 p-2 border-2 border-dashed rounded-md text-sm text-center ${dropTarget === '' ? 'border-blue-500 bg-blue-50 text-blue-700' : 'text-gray-500'}`}
+        >
+          Drop here to make it a top-level category
+        </div>
+      )}
+
+      <div className="max-h-[32rem] overflow-auto border rounded-md divide-y">
+        {ordered.map(category => {
+          const level = getCategoryLevel(category.name, categories);
+          return (
+            <div key={category.name}>
+              <div
+                draggable={!busy && renaming?.name !== category.name}
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  e.dataTransfer.setData('text/plain', category.name);
+                  setDragged(category.name);
+                }}
+                onDragEnd={() => { setDragged(null); setDropTarget(null); }}
+                onDragOver={(e) => {
+                  if (!dragged || dragged === category.name) return;
+                  e.preventDefault();
+                  setDropTarget(category.name);
+                }}
+                onDragLeave={() => setDropTarget(prev => prev === category.name ? null : prev)}
+                onDrop={() => handleDrop(category.name)}
+                className={`flex items-center gap-2 py-1.5 pr-2 ${dropTarget === category.name ? 'bg-blue-50 ring-2 ring-inset ring-blue-400' : 'hover:bg-gray-50'} ${dragged === category.name ? 'opacity-50' : ''}`}
+                style={{ paddingLeft: `${level * 1.5 + 0.5}rem` }}
+              >
+                <GripVertical size={14} className="text-gray-400 cursor-grab flex-shrink-0" />
+                <input
+                  type="color"
+                  value={colorDraft?.name === category.name ? colorDraft.color : category.color}
+                  onChange={(e) => handleColor(category.name, e.target.value)}
+                  className="w-6 h-6 rounded cursor-pointer border-0 p-0 flex-shrink-0"
+                  title="Change color"
+                />
+                {renaming?.name === category.name ? (
+                  <>
+                    <input
+                      type="text"
+                      autoFocus
+                      value={renaming.value}
+                      onChange={(e) => setRenaming({ name: category.name, value: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleRename();
+                        if (e.key === 'Escape') setRenaming(null);
+                      }}
+                      className="flex-1 border rounded-md px-2 py-0.5 text-sm"
+                    />
+                    <button onClick={handleRename} disabled={busy} className="text-green-600 hover:text-green-700" title="Save name">
+                      <Check size={16} />
+                    </button>
+                    <button onClick={() => setRenaming(null)} className="text-gray-400 hover:text-gray-600" title="Cancel">
+                      <X size={16} />
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    onClick={() => setRenaming({ name: category.name, value: category.name })}
+                    className="flex-1 text-left text-sm truncate hover:underline"
+                    title="Rename"
+                  >
+                    {category.name}
+                  </button>
+                )}
+                <label className="flex items-center gap-1 text-xs text-gray-500 cursor-pointer" title="Count as a subscription">
+                  <input
+                    type="checkbox"
+                    checked={!!category.isSubscription}
+                    onChange={(e) => commit(() => updateCategory(categories, category.name, { isSubscription: e.target.checked }))}
+                  />
+                  Subscription
+                </label>
+                <button
+                  onClick={() => setAdding({ parent: category.name, value: '' })}
+                  disabled={!canHaveChildren(category.name, categories)}
+                  className="text-gray-400 hover:text-blue-600 disabled:opacity-30 disabled:hover:text-gray-400"
+                  title="Add subcategory"
+                >
+                  <Plus size={16} />
+                </button>
+                <button onClick={() => startDelete(category)} className="text-gray-400 hover:text-red-600" title="Delete">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+
+              {adding?.parent === category.name && renderAddForm(category.name, level + 1)}
+
+              {deleting?.name === category.name && (
+                <div className="m-2 p-3 bg-red-50 border border-red-200 rounded-md text-sm" style={{ marginLeft: `${level * 1.5 + 0.5}rem` }}>
+                  <p className="text-red-800 mb-2">
+                    Delete "{category.name}"? It is used by {deleting.usage.transactions.toLocaleString()} transactions,{' '}
+                    {deleting.usage.rules} category rules and {deleting.usage.budgets} budgets.
+                    {categories.some(c => c.parent === category.name) && ' Its subcategories move up one level.'}
+                  </p>
+                  <label className="flex items-center gap-2 mb-3">
+                    Move them to
+                    <select
+                      value={deleting.replacement}
+                      onChange={(e) => setDeleting({ ...deleting, replacement: e.target.value })}
+                      className="border rounded-md px-2 py-1 text-sm"
+                    >
+                      <option value="">Uncategorized (budgets are removed)</option>
+                      {ordered.filter(c => c.name !== category.name).map(c => (
+                        <option key={c.name} value={c.name}>{'  '.repeat(getCategoryLevel(c.name, categories))}{c.name}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={handleDelete}
+                      disabled={busy}
+                      className="px-3 py-1 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                    <button onClick={() => setDeleting(null)} className="px-3 py-1 bg-gray-200 rounded-md hover:bg-gray-300">
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
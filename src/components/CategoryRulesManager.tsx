@@ -1,32 +1,93 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { useToast } from '../context/ToastContext';
-import { Plus, X, Edit3, Brain, Zap, Download, Upload } from 'lucide-react';
-import { CategoryRule, getCategoryRules, saveCategoryRules, addCategoryRule, batchAddCategoryRules, updateCategoryRule } from '../utils/smartCategorization';
-import { Category } from '../types';
+import { Plus, X, Edit3, Brain, Zap, Download, Upload, ChevronUp, ChevronDown, FlaskConical, AlertTriangle } from 'lucide-react';
+import { CategoryRule, NewCategoryRule, RuleActions, ruleMatches, getCategoryRules, saveCategoryRules, addCategoryRule, batchAddCategoryRules, updateCategoryRule } from '../utils/smartCategorization';
+import { RuleCondition, ConditionMatch, describeCondition } from '../utils/ruleConditions';
+import { dryRunRules } from '../utils/ruleDryRun';
+import { RuleConditionsEditor } from './RuleConditionsEditor';
+import { RuleDryRunPanel } from './RuleDryRunPanel';
+import { Category, Transaction } from '../types';
 import { load, dump } from 'js-yaml';
 
 interface CategoryRulesManagerProps {
   categories: Category[];
+  /** The stored ledger, for dry runs */
+  transactions?: Transaction[];
 }
 
-export function CategoryRulesManager({ categories }: CategoryRulesManagerProps) {
+type FlagAction = '' | 'yes' | 'no'; // '' leaves the flag alone
+
+const EMPTY_RULE = {
+  pattern: '',
+  category: '',
+  isRegex: false,
+  confidence: 0.8,
+  tags: '',
+  conditions: [] as RuleCondition[],
+  match: 'all' as ConditionMatch,
+  isSaving: '' as FlagAction,
+  isHidden: '' as FlagAction,
+  renamePayee: '',
+  runOnImport: false,
+};
+
+const toFlag = (value: boolean | undefined): FlagAction => value === undefined ? '' : value ? 'yes' : 'no';
+const fromFlag = (value: FlagAction) => value === '' ? undefined : value === 'yes';
+
+function toRuleData(form: typeof EMPTY_RULE): NewCategoryRule {
+  const tags = form.tags ? form.tags.split(',').map(t => t.trim()).filter(Boolean) : [];
+  const actions: RuleActions = {
+    isSaving: fromFlag(form.isSaving),
+    isHidden: fromFlag(form.isHidden),
+    renamePayee: form.renamePayee.trim() || undefined,
+  };
+  return {
+    pattern: form.pattern,
+    category: form.category,
+    isRegex: form.isRegex,
+    confidence: form.confidence,
+    tags: tags.length > 0 ? tags : undefined,
+    enabled: true,
+    conditions: form.conditions.length > 0 ? form.conditions : undefined,
+    match: form.conditions.length > 0 ? form.match : undefined,
+    actions: Object.values(actions).some(v => v !== undefined) ? actions : undefined,
+    runOnImport: form.runOnImport || undefined,
+  };
+}
+
+function describeActions(rule: CategoryRule): string[] {
+  const actions = rule.actions ?? {};
+  return [
+    actions.renamePayee && `Payee → "${actions.renamePayee}"`,
+    actions.isSaving !== undefined && (actions.isSaving ? 'Mark saving' : 'Not saving'),
+    actions.isHidden !== undefined && (actions.isHidden ? 'Hide' : 'Unhide'),
+  ].filter((a): a is string => !!a);
+}
+
+export function CategoryRulesManager({ categories, transactions = [] }: CategoryRulesManagerProps) {
   const showToast = useToast();
   const [rules, setRules] = useState<CategoryRule[]>([]);
   const [showAddRule, setShowAddRule] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [newRule, setNewRule] = useState({
-    pattern: '',
-    category: '',
-    isRegex: false,
-    confidence: 0.8,
-    tags: ''
-  });
+  const [newRule, setNewRule] = useState(EMPTY_RULE);
+  const [showDryRun, setShowDryRun] = useState(false);
 
   useEffect(() => {
     setRules(getCategoryRules());
   }, []);
 
+  // Rerun on every rule change while the dry run is open, so it always shows the current rule set
+  const dryRun = useMemo(() => showDryRun ? dryRunRules(transactions, rules) : null, [showDryRun, transactions, rules]);
+
+  // The rule being edited on its own: how many transactions it matches and how many it would recategorize
+  const draftImpact = useMemo(() => {
+    const draft = { ...toRuleData(newRule), id: '', createdAt: new Date(), priority: 0 };
+    if (!showAddRule || (!draft.pattern && !draft.conditions)) return null;
+    const matched = transactions.filter(t => ruleMatches(draft, t));
+    return { matched: matched.length, recategorized: draft.category ? matched.filter(t => t.category !== draft.category).length : 0 };
+  }, [showAddRule, newRule, transactions]);
+
   const handleExportRules = () => {
     try {
       const yamlStr = dump(rules);
@@ -55,7 +116,9 @@ export function CategoryRulesManager({ categories }: CategoryRulesManagerProps)
         
         if (Array.isArray(parsed)) {
           // Filter valid rules and strip IDs/dates to treat as new/updates
-          const validRules = parsed.filter(r => r.pattern && r.category).map(({ id, createdAt, ...rest }) => rest);
+          const validRules: NewCategoryRule[] = parsed
+            .filter(r => (r.pattern || r.conditions?.length) && (r.category || r.tags?.length || r.actions))
+            .map(({ id, createdAt, ...rest }) => ({ ...rest, category: rest.category ?? '', pattern: rest.pattern ?? '' }));
           
           if (validRules.length > 0) {
             batchAddCategoryRules(validRules);
@@ -85,7 +148,13 @@ export function CategoryRulesManager({ categories }: CategoryRulesManagerProps)
       category: rule.category,
       isRegex: rule.isRegex,
       confidence: rule.confidence,
-      tags: rule.tags ? rule.tags.join(', ') : ''
+      tags: rule.tags ? rule.tags.join(', ') : '',
+      conditions: rule.conditions ?? [],
+      match: rule.match ?? 'all',
+      isSaving: toFlag(rule.actions?.isSaving),
+      isHidden: toFlag(rule.actions?.isHidden),
+      renamePayee: rule.actions?.renamePayee ?? '',
+      runOnImport: !!rule.runOnImport,
     });
     setEditingId(rule.id);
     setShowAddRule(true);
@@ -93,33 +162,32 @@ export function CategoryRulesManager({ categories }: CategoryRulesManagerProps)
   };
 
   const handleSaveRule = () => {
-    if (newRule.pattern && newRule.category) {
-      const ruleData = {
-        pattern: newRule.pattern,
-        category: newRule.category,
-        isRegex: newRule.isRegex,
-        confidence: newRule.confidence,
-        tags: newRule.tags ? newRule.tags.split(',').map(t => t.trim()).filter(Boolean) : undefined,
-        enabled: true,
-      };
-
-      if (editingId) {
-        const originalRule = rules.find(r => r.id === editingId);
-        if (originalRule) {
-          updateCategoryRule({
-            ...originalRule,
-            ...ruleData
-          });
-        }
-      } else {
-        addCategoryRule(ruleData);
+    const ruleData = toRuleData(newRule);
+    if (!ruleData.pattern && !ruleData.conditions) {
+      showToast('Add a pattern or at least one condition.', 'warning');
+      return;
+    }
+    if (!ruleData.category && !ruleData.tags && !ruleData.actions) {
+      showToast('Choose a category, tags or another action for the rule.', 'warning');
+      return;
+    }
+
+    if (editingId) {
+      const originalRule = rules.find(r => r.id === editingId);
+      if (originalRule) {
+        updateCategoryRule({
+          ...originalRule,
+          ...ruleData
+        });
       }
-      
-      setRules(getCategoryRules());
-      setNewRule({ pattern: '', category: '', isRegex: false, confidence: 0.8, tags: '' });
-      setEditingId(null);
-      setShowAddRule(false);
+    } else {
+      addCategoryRule(ruleData);
     }
+    
+    setRules(getCategoryRules());
+    setNewRule(EMPTY_RULE);
+    setEditingId(null);
+    setShowAddRule(false);
   };
 
   const handleToggleRule = (id: string) => {
@@ -136,6 +204,18 @@ export function CategoryRulesManager({ categories }: CategoryRulesManagerProps)
     setRules(updated);
   };
 
+  // Swap priorities with the neighbour; `rules` is kept in priority order
+  const handleMoveRule = (index: number, direction: -1 | 1) => {
+    const other = index + direction;
+    if (other < 0 || other >= rules.length) return;
+    const updated = rules.map((r, i) =>
+      i === index ? { ...rules[other], priority: r.priority } :
+      i === other ? { ...rules[index], priority: r.priority } : r
+    );
+    saveCategoryRules(updated);
+    setRules(updated);
+  };
+
   const handleUpdateConfidence = (id: string, confidence: number) => {
     const updated = rules.map(r =>
       r.id === id ? { ...r, confidence } : r
@@ -167,6 +247,15 @@ export function CategoryRulesManager({ categories }: CategoryRulesManagerProps)
             <Upload size={16} />
             Import
           </button>
+          <button
+            onClick={() => setShowDryRun(!showDryRun)}
+            disabled={rules.length === 0}
+            className="flex items-center gap-1 px-3 py-1 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 text-sm border disabled:opacity-50"
+            title="See what the rules would change in your transactions, without saving"
+          >
+            <FlaskConical size={16} />
+            Dry Run
+          </button>
           <button
             onClick={handleExportRules}
             className="flex items-center gap-1 px-3 py-1 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 text-sm border"
@@ -192,13 +281,18 @@ export function CategoryRulesManager({ categories }: CategoryRulesManagerProps)
         </div>
         <div className="text-xs text-purple-600 space-y-1">
           <p>• Rules are checked first, before keyword matching</p>
-          <p>• Higher confidence rules take priority</p>
-          <p>• You can optionally assign tags (e.g., "Exclude")</p>
+          <p>• Rules run top to bottom: the first matching rule that sets a field wins, and tags from every match are added</p>
+          <p>• Add conditions on amount, sign, account, description, currency, weekday or dates, combined with AND or OR</p>
+          <p>• Besides the category, rules can add tags (e.g., "Exclude"), rename the payee and mark transactions saving or hidden</p>
           <p>• Use regex for advanced pattern matching</p>
           <p>• Example: Pattern "UBER.*" → Category "Uber" (matches "UBER A 12930123")</p>
         </div>
       </div>
 
+      {dryRun && (
+        <RuleDryRunPanel result={dryRun} rules={rules} transactionCount={transactions.length} onClose={() => setShowDryRun(false)} />
+      )}
+
       {showAddRule && (
         <div className="mb-4 p-4 bg-gray-50 rounded-lg">
           <div className="space-y-3">
@@ -218,8 +312,20 @@ export function CategoryRulesManager({ categories }: CategoryRulesManagerProps)
                   ? "Use regex patterns like '^UBER.*' to match payees starting with UBER"
                   : "Simple text matching - will match if payee contains this text"
                 }
+                {newRule.conditions.length > 0 && ' (optional with conditions)'}
               </div>
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Conditions
+              </label>
+              <RuleConditionsEditor
+                conditions={newRule.conditions}
+                match={newRule.match}
+                onChange={(conditions, match) => setNewRule({ ...newRule, conditions, match })}
+              />
+            </div>
             
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -230,7 +336,7 @@ export function CategoryRulesManager({ categories }: CategoryRulesManagerProps)
                 onChange={(e) => setNewRule({ ...newRule, category: e.target.value })}
                 className="w-full border rounded-md px-3 py-2 text-sm"
               >
-                <option value="">Select category...</option>
+                <option value="">Leave category unchanged</option>
                 {categories.map((cat) => (
                   <option key={cat.name} value={cat.name}>{cat.name}</option>
                 ))}
@@ -250,6 +356,43 @@ export function CategoryRulesManager({ categories }: CategoryRulesManagerProps)
               />
             </div>
 
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Rename payee to</label>
+                <input
+                  type="text"
+                  value={newRule.renamePayee}
+                  onChange={(e) => setNewRule({ ...newRule, renamePayee: e.target.value })}
+                  placeholder="Keep payee"
+                  className="w-full border rounded-md px-3 py-2 text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Saving</label>
+                <select
+                  value={newRule.isSaving}
+                  onChange={(e) => setNewRule({ ...newRule, isSaving: e.target.value as FlagAction })}
+                  className="w-full border rounded-md px-3 py-2 text-sm"
+                >
+                  <option value="">Leave unchanged</option>
+                  <option value="yes">Mark as saving</option>
+                  <option value="no">Mark as not saving</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Hidden</label>
+                <select
+                  value={newRule.isHidden}
+                  onChange={(e) => setNewRule({ ...newRule, isHidden: e.target.value as FlagAction })}
+                  className="w-full border rounded-md px-3 py-2 text-sm"
+                >
+                  <option value="">Leave unchanged</option>
+                  <option value="yes">Hide</option>
+                  <option value="no">Unhide</option>
+                </select>
+              </div>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Confidence: {(newRule.confidence * 100).toFixed(0)}%
@@ -264,7 +407,7 @@ export function CategoryRulesManager({ categories }: CategoryRulesManagerProps)
                 className="w-full"
               />
               <div className="text-xs text-gray-500">
-                Higher confidence rules take priority over lower ones
+                How sure suggestions from this rule are shown to be
               </div>
             </div>
 
@@ -278,6 +421,24 @@ export function CategoryRulesManager({ categories }: CategoryRulesManagerProps)
               Use Regular Expression
             </label>
 
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={newRule.runOnImport}
+                onChange={(e) => setNewRule({ ...newRule, runOnImport: e.target.checked })}
+                className="rounded"
+              />
+              Apply automatically to imported transactions
+            </label>
+
+            {draftImpact && (
+              <p className="text-xs text-gray-600">
+                On its own this rule matches {draftImpact.matched.toLocaleString()} of {transactions.length.toLocaleString()} transactions
+                {newRule.category && <> and would move {draftImpact.recategorized.toLocaleString()} of them to {newRule.category}</>}.
+                Rules above it may decide some of them first.
+              </p>
+            )}
+
             <div className="flex gap-2">
               <button
                 onClick={handleSaveRule}
@@ -288,7 +449,7 @@ export function CategoryRulesManager({ categories }: CategoryRulesManagerProps)
               <button
                 onClick={() => {
                   setShowAddRule(false);
-                  setNewRule({ pattern: '', category: '', isRegex: false, confidence: 0.8, tags: '' });
+                  setNewRule(EMPTY_RULE);
                   setEditingId(null);
                 }}
                 className="px-4 py-2 bg-gray-200 rounded-md hover:bg-gray-300 text-sm"
@@ -307,8 +468,7 @@ export function CategoryRulesManager({ categories }: CategoryRulesManagerProps)
           </p>
         ) : (
           rules
-            .sort((a, b) => b.confidence - a.confidence) // Sort by confidence
-            .map(rule => (
+            .map((rule, index) => (
               <div
                 key={rule.id}
                 className={`flex items-center justify-between p-3 border rounded-lg ${
@@ -317,11 +477,24 @@ export function CategoryRulesManager({ categories }: CategoryRulesManagerProps)
               >
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center gap-2 mb-1">
-                    <code className="text-sm font-mono text-purple-600 truncate">
-                      {rule.pattern}
-                    </code>
+                    {rule.pattern && (
+                      <code className="text-sm font-mono text-purple-600 truncate">
+                        {rule.pattern}
+                      </code>
+                    )}
+                    {rule.conditions?.map((condition, i) => (
+                      <span key={i} className="text-xs bg-blue-50 text-blue-700 px-1.5 py-0.5 rounded">
+                        {(i > 0 || rule.pattern) && <>{rule.match === 'any' ? 'or ' : 'and '}</>}
+                        {describeCondition(condition)}
+                      </span>
+                    ))}
                     <span className="text-gray-400">→</span>
-                    <span className="text-sm font-medium truncate">{rule.category}</span>
+                    {rule.category && <span className="text-sm font-medium truncate">{rule.category}</span>}
+                    {describeActions(rule).map(action => (
+                      <span key={action} className="text-xs bg-green-50 text-green-700 px-1.5 py-0.5 rounded">
+                        {action}
+                      </span>
+                    ))}
                     {rule.tags && rule.tags.length > 0 && (
                       <div className="flex gap-1">
                         {rule.tags.map(tag => (
@@ -339,11 +512,38 @@ export function CategoryRulesManager({ categories }: CategoryRulesManagerProps)
                   </div>
                   <div className="flex items-center gap-4 text-xs text-gray-500">
                     <span>Confidence: {(rule.confidence * 100).toFixed(0)}%</span>
+                    {rule.runOnImport && <span>Runs on import</span>}
+                    {dryRun && rule.enabled && <span>Matches {(dryRun.matchCounts[rule.id] ?? 0).toLocaleString()}</span>}
+                    {dryRun?.issues.some(i => i.ruleId === rule.id) && (
+                      <span className="flex items-center gap-1 text-amber-700">
+                        <AlertTriangle size={12} />
+                        See dry run
+                      </span>
+                    )}
                     <span>Created: {rule.createdAt.toLocaleDateString()}</span>
                   </div>
                 </div>
                 
                 <div className="flex items-center gap-2 ml-4">
+                  <div className="flex flex-col">
+                    <button
+                      onClick={() => handleMoveRule(index, -1)}
+                      disabled={index === 0}
+                      className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                      title="Run earlier"
+                    >
+                      <ChevronUp size={16} />
+                    </button>
+                    <button
+                      onClick={() => handleMoveRule(index, 1)}
+                      disabled={index === rules.length - 1}
+                      className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                      title="Run later"
+                    >
+                      <ChevronDown size={16} />
+                    </button>
+                  </div>
+
                   <div className="flex flex-col items-center">
                     <input
                       type="range"
@@ -394,7 +594,7 @@ export function CategoryRulesManager({ categories }: CategoryRulesManagerProps)
           <p><strong>💡 Tips:</strong></p>
           <p>• Create rules for payees that aren't automatically detected</p>
           <p>• Use regex for complex patterns: "^(UBER|Uber).*" matches both "UBER A 123" and "Uber Trip"</p>
-          <p>• Higher confidence rules (90%+) override lower ones</p>
+          <p>• Put specific rules above general ones, e.g. a large "AMAZON" payment above the plain "AMAZON" rule</p>
           <p>• Test your regex patterns online before adding them</p>
         </div>
       </div>
@@ -1,37 +1,123 @@
-import { useState, useEffect } from 'react';
-import { ColumnMapping } from '../types';
-import { Save, FolderOpen, Trash2 } from 'lucide-react';
-
-interface SavedMapping {
-  name: string;
-  mapping: ColumnMapping;
-}
+import { useState } from 'react';
+import { ColumnMapping, DateFormat, DirectionValues, ParseProfile } from '../types';
+import { Save, FolderOpen, Trash2, Sparkles } from 'lucide-react';
+import { detectColumnMapping, DetectableField } from '../utils/columnDetection';
+import { parseAmount, parseDate, DATE_FORMAT_LABELS, DEFAULT_DIRECTION_VALUES } from '../utils/parseProfile';
+import { SavedMapping, loadSavedMappings, storeSavedMappings, findSavedMapping, columnSamples, detectProfileFor } from '../utils/savedMappings';
 
 interface ColumnMapperProps {
   headers: string[];
   sampleData: string[][];
-  onComplete: (mapping: ColumnMapping) => void;
+  onComplete: (mapping: ColumnMapping, profile: ParseProfile, mappingName?: string) => void;
+  /** Files that share this format, when several were dropped at once */
+  fileNames?: string[];
+  /** Position of this format among the ones that still need a mapping */
+  step?: { index: number; total: number };
+}
+
+// Column-valued keys of ColumnMapping (everything the selects can point at a header)
+type ColumnKey = Exclude<keyof ColumnMapping, 'directionValues'>;
+
+// How the file expresses money in vs. money out
+type AmountLayout = 'signed' | 'debitCredit' | 'direction';
+
+const AMOUNT_LAYOUTS: Array<{ value: AmountLayout; label: string }> = [
+  { value: 'signed', label: 'One signed amount column' },
+  { value: 'debitCredit', label: 'Separate debit & credit columns' },
+  { value: 'direction', label: 'Amount + direction column' },
+];
+
+function layoutOf(mapping: Partial<ColumnMapping>): AmountLayout {
+  if (mapping.debit || mapping.credit) return 'debitCredit';
+  if (mapping.direction) return 'direction';
+  return 'signed';
+}
+
+function isMappingComplete(mapping: Partial<ColumnMapping>, layout: AmountLayout): boolean {
+  if (!mapping.date || !mapping.payee) return false;
+  if (layout === 'debitCredit') return !!(mapping.debit && mapping.credit);
+  if (layout === 'direction') return !!(mapping.amount && mapping.direction);
+  return !!mapping.amount;
+}
+
+// A saved mapping whose header set matches the file wins; otherwise fall back to detection
+function initialMapping(headers: string[], sampleData: string[][], savedMappings: SavedMapping[]) {
+  const matched = findSavedMapping(headers, savedMappings);
+  if (matched) {
+    return {
+      mapping: matched.mapping as Partial<ColumnMapping>,
+      confidence: {},
+      matchedName: matched.name,
+      profile: matched.profile ?? detectProfileFor(headers, sampleData, matched.mapping),
+    };
+  }
+  const detected = detectColumnMapping(headers, sampleData);
+  return {
+    mapping: detected.mapping,
+    confidence: detected.confidence,
+    matchedName: null,
+    profile: detectProfileFor(headers, sampleData, detected.mapping),
+  };
 }
 
-const STORAGE_KEY = 'saved-column-mappings';
+const DECIMAL_OPTIONS: Array<{ value: ParseProfile['decimalSeparator']; label: string }> = [
+  { value: '.', label: 'Dot (1234.56)' },
+  { value: ',', label: 'Comma (1234,56)' },
+];
 
-export function ColumnMapper({ headers, sampleData, onComplete }: ColumnMapperProps) {
-  const [mapping, setMapping] = useState<Partial<ColumnMapping>>({});
-  const [savedMappings, setSavedMappings] = useState<SavedMapping[]>([]);
+const THOUSANDS_OPTIONS: Array<{ value: ParseProfile['thousandsSeparator']; label: string }> = [
+  { value: '', label: 'None' },
+  { value: ',', label: 'Comma (1,234)' },
+  { value: '.', label: 'Dot (1.234)' },
+  { value: ' ', label: 'Space (1 234)' },
+  { value: "'", label: "Apostrophe (1'234)" },
+];
+
+const NEGATIVE_OPTIONS: Array<{ value: ParseProfile['negativeStyle']; label: string }> = [
+  { value: 'minus', label: 'Leading minus (-12.00)' },
+  { value: 'parentheses', label: 'Parentheses ((12.00))' },
+  { value: 'trailing-minus', label: 'Trailing minus (12.00-)' },
+];
+
+function directionTextOf(values: DirectionValues | undefined) {
+  const v = values ?? DEFAULT_DIRECTION_VALUES;
+  return { debit: v.debit.join(', '), credit: v.credit.join(', ') };
+}
+
+function confidenceStyle(score: number): string {
+  if (score >= 0.75) return 'bg-green-100 text-green-700';
+  if (score >= 0.5) return 'bg-yellow-100 text-yellow-700';
+  return 'bg-gray-100 text-gray-600';
+}
+
+export function ColumnMapper({ headers, sampleData, onComplete, fileNames, step }: ColumnMapperProps) {
+  const [savedMappings, setSavedMappings] = useState<SavedMapping[]>(loadSavedMappings);
+  const [initial] = useState(() => initialMapping(headers, sampleData, savedMappings));
+  const [mapping, setMapping] = useState<Partial<ColumnMapping>>(initial.mapping);
+  const [confidence, setConfidence] = useState<Partial<Record<DetectableField, number>>>(initial.confidence);
+  const [matchedMapping, setMatchedMapping] = useState<string | null>(initial.matchedName);
+  const [profile, setProfile] = useState<ParseProfile>(initial.profile);
+  const [amountLayout, setAmountLayout] = useState<AmountLayout>(() => layoutOf(initial.mapping));
+  const [directionText, setDirectionText] = useState(() => directionTextOf(initial.mapping.directionValues));
   const [saveName, setSaveName] = useState('');
   const [showSaveDialog, setShowSaveDialog] = useState(false);
 
-  useEffect(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      setSavedMappings(JSON.parse(stored));
-    }
-  }, []);
+  const amountFields: Record<AmountLayout, Array<{ key: ColumnKey; label: string; required: boolean }>> = {
+    signed: [{ key: 'amount', label: 'Amount', required: true }],
+    debitCredit: [
+      { key: 'debit', label: 'Money Out (Debit)', required: true },
+      { key: 'credit', label: 'Money In (Credit)', required: true },
+    ],
+    direction: [
+      { key: 'amount', label: 'Amount', required: true },
+      { key: 'direction', label: 'Direction (In/Out)', required: true },
+    ],
+  };
 
-  const fields = [
+  const fields: Array<{ key: ColumnKey; label: string; required: boolean }> = [
     { key: 'date', label: 'Date', required: true },
     { key: 'payee', label: 'Payee/Merchant', required: true },
-    { key: 'amount', label: 'Amount', required: true },
+    ...amountFields[amountLayout],
     { key: 'transactionId', label: 'Transaction ID', required: false },
     { key: 'type', label: 'Transaction Type', required: false },
     { key: 'description', label: 'Description', required: false },
@@ -41,42 +127,117 @@ export function ColumnMapper({ headers, sampleData, onComplete }: ColumnMapperPr
   ];
 
   const handleSubmit = () => {
-    if (mapping.date && mapping.payee && mapping.amount) {
-      onComplete(mapping as ColumnMapping);
+    if (isComplete) {
+      onComplete(mapping as ColumnMapping, profile, matchedMapping ?? undefined);
     }
   };
 
   const saveMapping = () => {
-    if (!saveName.trim() || !mapping.date || !mapping.payee || !mapping.amount) return;
+    if (!saveName.trim() || !isComplete) return;
 
     const newMapping: SavedMapping = {
       name: saveName.trim(),
       mapping: mapping as ColumnMapping,
+      headers,
+      profile,
     };
 
     const updated = [...savedMappings.filter(m => m.name !== newMapping.name), newMapping];
     setSavedMappings(updated);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+    storeSavedMappings(updated);
     setSaveName('');
     setShowSaveDialog(false);
+    setMatchedMapping(newMapping.name);
   };
 
   const loadMapping = (saved: SavedMapping) => {
     setMapping(saved.mapping);
+    setAmountLayout(layoutOf(saved.mapping));
+    setDirectionText(directionTextOf(saved.mapping.directionValues));
+    setProfile(saved.profile ?? detectProfileFor(headers, sampleData, saved.mapping));
+    setConfidence({});
+    setMatchedMapping(saved.name);
+  };
+
+  const handleFieldChange = (key: ColumnKey, value: string) => {
+    const next = { ...mapping, [key]: value || undefined };
+    setMapping(next);
+    // The format is sniffed from the date and amount columns, so re-detect when those move
+    if (['date', 'amount', 'debit', 'credit', 'balance'].includes(key)) {
+      setProfile(detectProfileFor(headers, sampleData, next));
+    }
+    // A manual choice replaces the detected one, so its score no longer applies
+    setConfidence(prev => {
+      const next = { ...prev };
+      delete next[key as DetectableField];
+      return next;
+    });
+  };
+
+  const handleLayoutChange = (layout: AmountLayout) => {
+    setAmountLayout(layout);
+    // Drop the columns the other layouts use so the importer can tell which one applies
+    setMapping(prev => ({
+      ...prev,
+      amount: layout === 'debitCredit' ? undefined : prev.amount,
+      debit: layout === 'debitCredit' ? prev.debit : undefined,
+      credit: layout === 'debitCredit' ? prev.credit : undefined,
+      direction: layout === 'direction' ? prev.direction : undefined,
+      directionValues: layout === 'direction' ? prev.directionValues ?? DEFAULT_DIRECTION_VALUES : undefined,
+    }));
+    if (layout === 'direction') setDirectionText(directionTextOf(mapping.directionValues));
+  };
+
+  const handleDirectionValuesChange = (side: keyof DirectionValues, text: string) => {
+    setDirectionText(prev => ({ ...prev, [side]: text }));
+    setMapping(prev => ({
+      ...prev,
+      directionValues: {
+        ...(prev.directionValues ?? DEFAULT_DIRECTION_VALUES),
+        [side]: text.split(',').map(v => v.trim()).filter(Boolean),
+      },
+    }));
   };
 
   const deleteMapping = (name: string) => {
     const updated = savedMappings.filter(m => m.name !== name);
     setSavedMappings(updated);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+    storeSavedMappings(updated);
+    if (matchedMapping === name) setMatchedMapping(null);
   };
 
-  const isComplete = mapping.date && mapping.payee && mapping.amount;
+  const detectedCount = Object.keys(confidence).length;
+  const sampleDate = columnSamples(headers, sampleData, mapping.date).find(v => v.trim());
+  const sampleAmount = [mapping.amount, mapping.debit, mapping.credit]
+    .flatMap(col => columnSamples(headers, sampleData, col))
+    .find(v => v.trim());
+  const parsedSampleDate = sampleDate !== undefined ? parseDate(sampleDate, profile) : undefined;
+  const parsedSampleAmount = sampleAmount !== undefined ? parseAmount(sampleAmount, profile) : undefined;
+  const isComplete = isMappingComplete(mapping, amountLayout);
 
   return (
     <div className="max-w-4xl mx-auto">
       <h2 className="text-2xl font-bold mb-6">Map Your Columns</h2>
 
+      {((step && step.total > 1) || (fileNames && fileNames.length > 1)) && (
+        <div className="bg-gray-50 text-gray-700 rounded-lg p-3 mb-6 text-sm">
+          {step && step.total > 1 && <span className="font-medium">Format {step.index + 1} of {step.total}: </span>}
+          {fileNames?.join(', ')}
+        </div>
+      )}
+
+      {matchedMapping ? (
+        <div className="bg-green-50 text-green-800 rounded-lg p-3 mb-6 text-sm flex items-center gap-2">
+          <FolderOpen size={16} />
+          Using saved mapping <span className="font-medium">{matchedMapping}</span> — it matches this file's columns.
+        </div>
+      ) : detectedCount > 0 && (
+        <div className="bg-blue-50 text-blue-800 rounded-lg p-3 mb-6 text-sm flex items-center gap-2">
+          <Sparkles size={16} />
+          Detected {detectedCount} column{detectedCount !== 1 ? 's' : ''} automatically. Check the suggestions below before continuing.
+        </div>
+      )}
+
       {savedMappings.length > 0 && (
         <div className="bg-blue-50 rounded-lg p-4 mb-6">
           <h3 className="font-medium mb-3 flex items-center gap-2">
@@ -88,7 +249,7 @@ export function ColumnMapper({ headers, sampleData, onComplete }: ColumnMapperPr
               <div key={saved.name} className="flex items-center gap-1 bg-white rounded px-2 py-1 text-sm">
                 <button
                   onClick={() => loadMapping(saved)}
-                  className="hover:text-blue-600"
+                  className={`hover:text-blue-600 ${matchedMapping === saved.name ? 'font-medium text-blue-600' : ''}`}
                 >
                   {saved.name}
                 </button>
@@ -117,7 +278,7 @@ export function ColumnMapper({ headers, sampleData, onComplete }: ColumnMapperPr
               </tr>
             </thead>
             <tbody>
-              {sampleData.map((row, i) => (
+              {sampleData.slice(0, 3).map((row, i) => (
                 <tr key={i} className="border-t">
                   {row.map((cell, j) => (
                     <td key={j} className="px-3 py-2 truncate max-w-[150px]">
@@ -133,15 +294,37 @@ export function ColumnMapper({ headers, sampleData, onComplete }: ColumnMapperPr
 
       <div className="bg-white rounded-lg shadow p-6">
         <h3 className="font-medium mb-4">Column Mapping</h3>
+        <div className="flex flex-wrap gap-4 mb-4">
+          {AMOUNT_LAYOUTS.map(({ value, label }) => (
+            <label key={value} className="flex items-center gap-2 text-sm cursor-pointer">
+              <input
+                type="radio"
+                name="amount-layout"
+                checked={amountLayout === value}
+                onChange={() => handleLayoutChange(value)}
+                className="w-4 h-4"
+              />
+              {label}
+            </label>
+          ))}
+        </div>
         <div className="grid grid-cols-3 gap-4">
           {fields.map(({ key, label, required }) => (
             <div key={key}>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                {label} {required && <span className="text-red-500">*</span>}
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-1">
+                <span>{label} {required && <span className="text-red-500">*</span>}</span>
+                {confidence[key as DetectableField] !== undefined && (
+                  <span
+                    className={`text-xs px-1.5 py-0.5 rounded ${confidenceStyle(confidence[key as DetectableField]!)}`}
+                    title="Confidence of the automatic detection"
+                  >
+                    {Math.round(confidence[key as DetectableField]! * 100)}%
+                  </span>
+                )}
               </label>
               <select
-                value={mapping[key as keyof ColumnMapping] || ''}
-                onChange={(e) => setMapping(prev => ({ ...prev, [key]: e.target.value || undefined }))}
+                value={mapping[key] || ''}
+                onChange={(e) => handleFieldChange(key, e.target.value)}
                 className="w-full border rounded-md px-3 py-2"
               >
                 <option value="">Select column...</option>
@@ -153,6 +336,96 @@ export function ColumnMapper({ headers, sampleData, onComplete }: ColumnMapperPr
           ))}
         </div>
 
+        {amountLayout === 'direction' && (
+          <div className="grid grid-cols-2 gap-4 mt-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Values meaning money out</label>
+              <input
+                type="text"
+                value={directionText.debit}
+                onChange={(e) => handleDirectionValuesChange('debit', e.target.value)}
+                placeholder="debit, D, out"
+                className="w-full border rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Values meaning money in</label>
+              <input
+                type="text"
+                value={directionText.credit}
+                onChange={(e) => handleDirectionValuesChange('credit', e.target.value)}
+                placeholder="credit, C, in"
+                className="w-full border rounded-md px-3 py-2 text-sm"
+              />
+            </div>
+            <p className="col-span-2 text-xs text-gray-500">
+              Comma-separated, case-insensitive. Rows whose direction matches neither list keep the amount's own sign.
+            </p>
+          </div>
+        )}
+
+        <h3 className="font-medium mt-6 mb-4">Date & Number Format</h3>
+        <div className="grid grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Date format</label>
+            <select
+              value={profile.dateFormat}
+              onChange={(e) => setProfile(prev => ({ ...prev, dateFormat: e.target.value as DateFormat }))}
+              className="w-full border rounded-md px-3 py-2"
+            >
+              {(Object.keys(DATE_FORMAT_LABELS) as DateFormat[]).map(f => (
+                <option key={f} value={f}>{DATE_FORMAT_LABELS[f]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Decimal separator</label>
+            <select
+              value={profile.decimalSeparator}
+              onChange={(e) => setProfile(prev => ({ ...prev, decimalSeparator: e.target.value as ParseProfile['decimalSeparator'] }))}
+              className="w-full border rounded-md px-3 py-2"
+            >
+              {DECIMAL_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Thousands separator</label>
+            <select
+              value={profile.thousandsSeparator}
+              onChange={(e) => setProfile(prev => ({ ...prev, thousandsSeparator: e.target.value as ParseProfile['thousandsSeparator'] }))}
+              className="w-full border rounded-md px-3 py-2"
+            >
+              {THOUSANDS_OPTIONS.map(o => <option key={o.label} value={o.value}>{o.label}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Negative amounts</label>
+            <select
+              value={profile.negativeStyle}
+              onChange={(e) => setProfile(prev => ({ ...prev, negativeStyle: e.target.value as ParseProfile['negativeStyle'] }))}
+              className="w-full border rounded-md px-3 py-2"
+            >
+              {NEGATIVE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+          </div>
+        </div>
+        {(parsedSampleDate || parsedSampleAmount !== undefined) && (
+          <p className="mt-3 text-xs text-gray-500">
+            First row reads as:{' '}
+            {parsedSampleDate && (
+              <span className={isNaN(parsedSampleDate.getTime()) ? 'text-red-600' : ''}>
+                <code>{sampleDate}</code> → {isNaN(parsedSampleDate.getTime()) ? 'invalid date' : parsedSampleDate.toDateString()}
+              </span>
+            )}
+            {parsedSampleDate && parsedSampleAmount !== undefined && ', '}
+            {parsedSampleAmount !== undefined && (
+              <span className={isNaN(parsedSampleAmount) ? 'text-red-600' : ''}>
+                <code>{sampleAmount}</code> → {isNaN(parsedSampleAmount) ? 'invalid amount' : parsedSampleAmount.toFixed(2)}
+              </span>
+            )}
+          </p>
+        )}
+
         <div className="mt-6 flex items-center gap-3">
           <button
             onClick={handleSubmit}
@@ -0,0 +1,218 @@
+import { useEffect, useState } from 'react';
+import { Lock, Shield } from 'lucide-react';
+import { useToast } from '../context/ToastContext';
+import {
+  EncryptionStatus, WrongPassphraseError, getEncryptionStatus, enableEncryption, changePassphrase,
+  disableEncryption, setAutoLockMinutes,
+} from '../storage';
+
+interface EncryptionSettingsProps {
+  onLock: () => void;
+  onChange: (status: EncryptionStatus) => void;
+}
+
+const AUTO_LOCK_OPTIONS = [
+  { minutes: 0, label: 'Never' },
+  { minutes: 5, label: 'After 5 minutes' },
+  { minutes: 15, label: 'After 15 minutes' },
+  { minutes: 30, label: 'After 30 minutes' },
+  { minutes: 60, label: 'After 1 hour' },
+];
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+type PassphraseForm = 'enable' | 'change' | 'disable';
+
+export function EncryptionSettings({ onLock, onChange }: EncryptionSettingsProps) {
+  const showToast = useToast();
+  const [status, setStatus] = useState<EncryptionStatus | null>(null);
+  const [form, setForm] = useState<PassphraseForm | null>(null);
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [autoLock, setAutoLock] = useState(15);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    getEncryptionStatus()
+      .then(setStatus)
+      .catch(error => console.error('Failed to read encryption status:', error));
+  }, []);
+
+  const closeForm = () => {
+    setForm(null);
+    setCurrent('');
+    setNext('');
+    setConfirm('');
+  };
+
+  const refresh = async () => {
+    const updated = await getEncryptionStatus();
+    setStatus(updated);
+    onChange(updated);
+  };
+
+  const newPassphraseProblem = (form === 'enable' || form === 'change') && next
+    ? next.length < MIN_PASSPHRASE_LENGTH
+      ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`
+      : confirm && confirm !== next ? 'The passphrases don\'t match.' : null
+    : null;
+  const canSubmit = !busy && (form === 'disable'
+    ? !!current
+    : next.length >= MIN_PASSPHRASE_LENGTH && next === confirm && (form === 'enable' || !!current));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    setBusy(true);
+    try {
+      if (form === 'enable') await enableEncryption(next, autoLock);
+      else if (form === 'change') await changePassphrase(current, next);
+      else await disableEncryption(current);
+      showToast(
+        form === 'enable' ? 'Local data is now encrypted.'
+          : form === 'change' ? 'Passphrase changed and data re-encrypted.'
+          : 'Encryption turned off.',
+        'success',
+      );
+      closeForm();
+      await refresh();
+    } catch (error) {
+      console.error('Encryption change failed:', error);
+      showToast(error instanceof WrongPassphraseError ? 'Wrong passphrase.' : 'Failed to update encryption. Your data was not changed.', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAutoLockChange = async (minutes: number) => {
+    try {
+      await setAutoLockMinutes(minutes);
+      await refresh();
+    } catch (error) {
+      console.error('Failed to save auto-lock:', error);
+      showToast('Failed to save the auto-lock setting.', 'error');
+    }
+  };
+
+  if (!status) return null;
+
+  const passwordInput = (value: string, onValueChange: (v: string) => void, placeholder: string, autoComplete: string) => (
+    <input
+      type="password"
+      value={value}
+      onChange={(e) => onValueChange(e.target.value)}
+      placeholder={placeholder}
+      autoComplete={autoComplete}
+      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+    />
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <h3 className="font-medium mb-4 flex items-center gap-2">
+        <Shield size={20} />
+        Encryption
+      </h3>
+      <p className="text-sm text-gray-500 mb-4">
+        {status.enabled
+          ? 'Transactions and categories in this browser are encrypted with your passphrase.'
+          : 'Encrypt the transactions and categories stored in this browser with a passphrase, for shared computers.'}
+      </p>
+
+      {status.enabled && !form && (
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <label className="text-sm font-medium text-gray-700">Auto-lock</label>
+            <select
+              value={status.autoLockMinutes}
+              onChange={(e) => handleAutoLockChange(Number(e.target.value))}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              {AUTO_LOCK_OPTIONS.map(o => (
+                <option key={o.minutes} value={o.minutes}>{o.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={onLock}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              <Lock size={16} />
+              Lock now
+            </button>
+            <button
+              onClick={() => setForm('change')}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+            >
+              Change passphrase
+            </button>
+            <button
+              onClick={() => setForm('disable')}
+              className="px-4 py-2 text-red-600 border border-red-200 rounded-md hover:bg-red-50"
+            >
+              Turn off encryption
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!status.enabled && !form && (
+        <button
+          onClick={() => setForm('enable')}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          <Lock size={16} />
+          Encrypt local data
+        </button>
+      )}
+
+      {form && (
+        <form onSubmit={handleSubmit} className="space-y-3 max-w-sm">
+          {form !== 'enable' && passwordInput(current, setCurrent, 'Current passphrase', 'current-password')}
+          {form !== 'disable' && (
+            <>
+              {passwordInput(next, setNext, 'New passphrase', 'new-password')}
+              {passwordInput(confirm, setConfirm, 'Repeat new passphrase', 'new-password')}
+            </>
+          )}
+          {form === 'enable' && (
+            <div className="flex items-center gap-3">
+              <label className="text-sm font-medium text-gray-700">Auto-lock</label>
+              <select
+                value={autoLock}
+                onChange={(e) => setAutoLock(Number(e.target.value))}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                {AUTO_LOCK_OPTIONS.map(o => (
+                  <option key={o.minutes} value={o.minutes}>{o.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          {newPassphraseProblem && <p className="text-sm text-red-600">{newPassphraseProblem}</p>}
+          {form !== 'disable' && (
+            <p className="text-xs text-gray-500">
+              There is no way to recover the data if the passphrase is forgotten. Keep a backup somewhere safe.
+            </p>
+          )}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={!canSubmit}
+              className={`px-4 py-2 text-white rounded-md disabled:opacity-50 ${
+                form === 'disable' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              {busy ? 'Working…' : form === 'enable' ? 'Encrypt' : form === 'change' ? 'Change passphrase' : 'Decrypt data'}
+            </button>
+            <button type="button" onClick={closeForm} disabled={busy} className="px-4 py-2 bg-gray-200 rounded-md hover:bg-gray-300">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -1,44 +1,98 @@
 import { useCallback } from 'react';
-import Papa from 'papaparse';
 import { Upload } from 'lucide-react';
 import { useToast } from '../context/ToastContext';
+import { Transaction, Category, ImportFormat } from '../types';
+import { ParsedStatement, SPREADSHEET_FORMATS } from '../utils/importGroups';
+import { parseOfx } from '../utils/ofxParser';
+import { parseCamt053 } from '../utils/camtParser';
+import { parseMt940 } from '../utils/mt940Parser';
+import { parseQif } from '../utils/qif';
 
 interface FileUploadProps {
-  onUpload: (data: string[][], headers: string[]) => void;
+  /**
+   * Everything dropped at once arrives in one call. CSV and spreadsheet files are parsed by the import worker,
+   * so they're handed over as-is; structured statements (OFX/QFX, camt.053, MT940, QIF) skip column mapping and arrive parsed.
+   */
+  onUpload: (tableFiles: File[], statements: ParsedStatement[]) => void;
+  categories: Category[]; // QIF category paths are matched against these
 }
 
-export function FileUpload({ onUpload }: FileUploadProps) {
+type StatementParser = (content: string, categories: Category[]) => Transaction[];
+
+interface StatementFormat {
+  label: string;
+  format: ImportFormat;
+  parse: StatementParser;
+}
+
+const STATEMENT_PARSERS: Record<string, StatementFormat> = {
+  '.ofx': { label: 'OFX/QFX', format: 'ofx', parse: parseOfx },
+  '.qfx': { label: 'OFX/QFX', format: 'ofx', parse: parseOfx },
+  '.xml': { label: 'camt.053', format: 'camt053', parse: parseCamt053 },
+  '.sta': { label: 'MT940', format: 'mt940', parse: parseMt940 },
+  '.mt940': { label: 'MT940', format: 'mt940', parse: parseMt940 },
+  '.940': { label: 'MT940', format: 'mt940', parse: parseMt940 },
+  '.qif': { label: 'QIF', format: 'qif', parse: parseQif },
+};
+
+const ACCEPTED_EXTENSIONS = ['.csv', ...Object.keys(SPREADSHEET_FORMATS), ...Object.keys(STATEMENT_PARSERS)];
+
+function getExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot >= 0 ? fileName.slice(dot).toLowerCase() : '';
+}
+
+export function FileUpload({ onUpload, categories }: FileUploadProps) {
   const showToast = useToast();
 
-  const handleFile = useCallback((file: File) => {
-    Papa.parse(file, {
-      complete: (results) => {
-        const data = results.data as string[][];
-        if (data.length > 1) {
-          const headers = data[0];
-          const rows = data.slice(1).filter(row => row.some(cell => cell.trim()));
-          onUpload(rows, headers);
-        }
-      },
-      error: (error) => {
-        console.error('Parse error:', error);
-        showToast('Failed to parse CSV file. Make sure it is a valid CSV.', 'error');
+  const parseStatement = useCallback(async (file: File, { label, format, parse }: StatementFormat): Promise<ParsedStatement | undefined> => {
+    try {
+      const transactions = parse(await file.text(), categories);
+      if (transactions.length === 0) {
+        showToast(`No transactions found in ${file.name}.`, 'warning');
+        return undefined;
       }
-    });
-  }, [onUpload, showToast]);
+      return { fileName: file.name, format, transactions };
+    } catch (error) {
+      console.error('Parse error:', error);
+      showToast(`Failed to parse ${file.name} as ${label}. Make sure it is a valid statement export.`, 'error');
+      return undefined;
+    }
+  }, [categories, showToast]);
+
+  const handleFiles = useCallback(async (files: File[]) => {
+    const accepted = files.filter(f => ACCEPTED_EXTENSIONS.includes(getExtension(f.name)));
+    if (accepted.length < files.length) {
+      showToast(`Skipped ${files.length - accepted.length} file(s) with an unsupported type.`, 'warning');
+    }
+
+    const tableFiles: File[] = [];
+    const statements: ParsedStatement[] = [];
+    for (const file of accepted) {
+      const parser = STATEMENT_PARSERS[getExtension(file.name)];
+      if (!parser) {
+        tableFiles.push(file);
+        continue;
+      }
+      const statement = await parseStatement(file, parser);
+      if (statement) statements.push(statement);
+    }
+
+    if (tableFiles.length > 0 || statements.length > 0) {
+      onUpload(tableFiles, statements);
+    }
+  }, [onUpload, parseStatement, showToast]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
-    const file = e.dataTransfer.files[0];
-    if (file && file.name.endsWith('.csv')) {
-      handleFile(file);
-    }
-  }, [handleFile]);
+    handleFiles(Array.from(e.dataTransfer.files));
+  }, [handleFiles]);
 
   const handleChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) handleFile(file);
-  }, [handleFile]);
+    handleFiles(Array.from(e.target.files ?? []));
+    // Allow picking the same files again after a cancelled import
+    e.target.value = '';
+  }, [handleFiles]);
 
   return (
     <div className="max-w-xl mx-auto">
@@ -49,7 +103,7 @@ export function FileUpload({ onUpload }: FileUploadProps) {
       >
         <Upload className="mx-auto h-12 w-12 text-gray-400" />
         <p className="mt-4 text-lg font-medium text-gray-900">
-          Drop your CSV file here
+          Drop your CSV, Excel, ODS, OFX/QFX, QIF, camt.053 or MT940 files here
         </p>
         <p className="mt-2 text-sm text-gray-500">or</p>
         <label className="mt-4 inline-block">
@@ -58,11 +112,15 @@ export function FileUpload({ onUpload }: FileUploadProps) {
           </span>
           <input
             type="file"
-            accept=".csv"
+            accept={ACCEPTED_EXTENSIONS.join(',')}
+            multiple
             onChange={handleChange}
             className="hidden"
           />
         </label>
+        <p className="mt-4 text-xs text-gray-500">
+          Drop several statements at once to import them together — known formats are mapped automatically.
+        </p>
       </div>
     </div>
   );
@@ -0,0 +1,244 @@
+import { useState } from 'react';
+import { FileText, X, Check, AlertTriangle } from 'lucide-react';
+import { Transaction, ImportBatch, DuplicateDecision } from '../types';
+import { formatCurrency, formatDateEuropean } from '../utils/currency';
+import { DuplicateMatch } from '../utils/duplicateDetection';
+import { getSetting } from '../storage';
+
+/** An import that has been parsed and checked for duplicates but not yet written to storage. */
+export interface PendingImport {
+  batch: ImportBatch;
+  newTransactions: Transaction[];
+  duplicates: DuplicateMatch[]; // Exact matches, always skipped
+  probable: DuplicateMatch[]; // Review queue: the user decides to keep, skip or merge each one
+}
+
+interface ImportPreviewProps {
+  pending: PendingImport;
+  /** Decisions for the review queue, keyed by incoming transaction id */
+  onConfirm: (decisions: Record<string, DuplicateDecision>) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 100;
+
+const DECISIONS: Array<{ value: DuplicateDecision; label: string; title: string }> = [
+  { value: 'skip', label: 'Skip', title: 'Treat as a duplicate and leave it out' },
+  { value: 'merge', label: 'Merge', title: 'Leave it out, but copy its reference, description and other missing details onto the existing transaction' },
+  { value: 'keep', label: 'Keep', title: 'Import it as a separate transaction' },
+];
+
+export function ImportPreview({ pending, onConfirm, onCancel }: ImportPreviewProps) {
+  const { batch, newTransactions, duplicates, probable } = pending;
+  const [tab, setTab] = useState<'new' | 'review' | 'duplicates'>(probable.length > 0 ? 'review' : 'new');
+  // Probable duplicates default to skip, so confirming without reviewing never adds a double
+  const [decisions, setDecisions] = useState<Record<string, DuplicateDecision>>(
+    () => Object.fromEntries(probable.map(m => [m.incoming.id, 'skip' as DuplicateDecision]))
+  );
+  const defaultCurrency = getSetting('default-currency', 'USD');
+
+  const keptCount = probable.filter(m => decisions[m.incoming.id] === 'keep').length;
+  const importCount = newTransactions.length + keptCount;
+
+  const setAll = (decision: DuplicateDecision) => {
+    setDecisions(Object.fromEntries(probable.map(m => [m.incoming.id, decision])));
+  };
+
+  const totalAmount = newTransactions.reduce((sum, t) => sum + t.amount, 0);
+  const dates = newTransactions.map(t => t.date.getTime());
+  const dateRange = dates.length
+    ? `${formatDateEuropean(new Date(Math.min(...dates)))} – ${formatDateEuropean(new Date(Math.max(...dates)))}`
+    : '—';
+
+  const summary = [
+    { label: 'Rows in file', value: batch.totalRows, className: 'text-gray-900' },
+    { label: 'New', value: batch.importedCount, className: 'text-green-700' },
+    { label: 'To review', value: probable.length, className: 'text-blue-700' },
+    { label: 'Duplicates skipped', value: batch.duplicateCount, className: 'text-yellow-700' },
+    { label: 'Invalid rows', value: batch.invalidCount, className: 'text-red-700' },
+  ];
+
+  const amountCell = (t: Transaction) => (
+    <span className={t.amount < 0 ? 'text-red-600' : 'text-green-600'}>
+      {formatCurrency(t.amount, t.currency || defaultCurrency)}
+    </span>
+  );
+
+  const renderPair = ({ incoming, existing }: DuplicateMatch) => (
+    <>
+      <div>
+        <div className="text-xs font-medium text-gray-500 mb-1">In this file</div>
+        <div>{formatDateEuropean(incoming.date)} • {incoming.payee}</div>
+        <div>{amountCell(incoming)}</div>
+      </div>
+      <div>
+        <div className="text-xs font-medium text-gray-500 mb-1">
+          {existing.importBatchId === incoming.importBatchId ? 'In another file of this import' : 'Already in ledger'}
+        </div>
+        <div>{formatDateEuropean(existing.date)} • {existing.payee}</div>
+        <div>{amountCell(existing)}{existing.category && <span className="text-gray-500"> • {existing.category}</span>}</div>
+      </div>
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full mx-4 max-h-[85vh] overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center gap-3">
+            <FileText size={24} className="text-blue-600" />
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Review Import</h2>
+              <p className="text-sm text-gray-500" title={batch.files?.map(f => f.fileName).join('\n')}>
+                {batch.fileName}
+                {batch.mappingName && <> • mapping <span className="font-medium">{batch.mappingName}</span></>}
+              </p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-2 text-gray-400 hover:text-gray-600 rounded-md">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-5 gap-4 p-6 border-b">
+          {summary.map(({ label, value, className }) => (
+            <div key={label} className="text-center">
+              <div className={`text-2xl font-bold ${className}`}>{value.toLocaleString()}</div>
+              <div className="text-xs text-gray-500">{label}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between px-6 pt-4">
+          <div className="flex gap-2">
+            <button
+              onClick={() => setTab('new')}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium ${tab === 'new' ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-100'}`}
+            >
+              New transactions ({newTransactions.length})
+            </button>
+            <button
+              onClick={() => setTab('review')}
+              disabled={probable.length === 0}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium disabled:opacity-50 ${tab === 'review' ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-100'}`}
+            >
+              Review ({probable.length})
+            </button>
+            <button
+              onClick={() => setTab('duplicates')}
+              disabled={duplicates.length === 0}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium disabled:opacity-50 ${tab === 'duplicates' ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-100'}`}
+            >
+              Duplicates ({duplicates.length})
+            </button>
+          </div>
+          {tab === 'new' && (
+            <div className="text-sm text-gray-500">
+              {dateRange} • net {formatCurrency(totalAmount, defaultCurrency)}
+            </div>
+          )}
+          {tab === 'review' && (
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+              Set all:
+              {DECISIONS.map(({ value, label }) => (
+                <button key={value} onClick={() => setAll(value)} className="text-blue-600 hover:underline">
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4">
+          {tab === 'new' ? (
+            newTransactions.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                No new transactions in this file.
+              </div>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-4 font-medium">Date</th>
+                    <th className="py-2 pr-4 font-medium">Payee</th>
+                    <th className="py-2 pr-4 font-medium">Description</th>
+                    <th className="py-2 font-medium text-right">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {newTransactions.slice(0, PREVIEW_ROWS).map(t => (
+                    <tr key={t.id} className="border-b last:border-0">
+                      <td className="py-2 pr-4 whitespace-nowrap">{formatDateEuropean(t.date)}</td>
+                      <td className="py-2 pr-4">{t.payee}</td>
+                      <td className="py-2 pr-4 text-gray-500 truncate max-w-xs">{t.description}</td>
+                      <td className="py-2 text-right whitespace-nowrap">{amountCell(t)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )
+          ) : tab === 'review' ? (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-500">
+                These rows look like transactions you already have, but don't match exactly. Decide what to do with each one.
+              </p>
+              {probable.map(match => (
+                <div key={match.incoming.id} className="p-3 border rounded-lg text-sm">
+                  <div className="grid grid-cols-2 gap-4">
+                    {renderPair(match)}
+                  </div>
+                  <div className="mt-2 flex items-center justify-between gap-4">
+                    <div className="text-xs text-gray-500">
+                      {Math.round(match.confidence * 100)}% likely duplicate • {match.reasons.join(' • ')}
+                    </div>
+                    <div className="flex rounded-md border overflow-hidden shrink-0">
+                      {DECISIONS.map(({ value, label, title }) => (
+                        <button
+                          key={value}
+                          title={title}
+                          onClick={() => setDecisions(prev => ({ ...prev, [match.incoming.id]: value }))}
+                          className={`px-3 py-1 text-xs font-medium ${decisions[match.incoming.id] === value ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-500 flex items-center gap-2">
+                <AlertTriangle size={14} className="text-yellow-600" />
+                These rows match transactions you already have and will not be imported.
+              </p>
+              {duplicates.slice(0, PREVIEW_ROWS).map(match => (
+                <div key={match.incoming.id} className="grid grid-cols-2 gap-4 p-3 border rounded-lg text-sm">
+                  {renderPair(match)}
+                </div>
+              ))}
+            </div>
+          )}
+          {tab !== 'review' && (tab === 'new' ? newTransactions.length : duplicates.length) > PREVIEW_ROWS && (
+            <p className="mt-3 text-xs text-gray-500 text-center">Showing the first {PREVIEW_ROWS} rows.</p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 p-6 border-t">
+          <button onClick={onCancel} className="px-4 py-2 bg-gray-200 rounded-md hover:bg-gray-300">
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(decisions)}
+            disabled={importCount === 0 && !Object.values(decisions).includes('merge')}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Check size={16} />
+            Import {importCount.toLocaleString()} transaction{importCount === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
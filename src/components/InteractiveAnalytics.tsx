@@ -20,6 +20,7 @@ import { DragDropContext, Droppable, Draggable } from '@hello-pangea/dnd';
 import { Widget } from './Widget';
 import { DashboardManager } from './DashboardManager';
 import { dataProcessor } from '../utils/dataProcessor';
+import * as storage from '../storage';
 import { dashboardStorage } from '../utils/dashboardStorage';
 import { 
   BarChart3, 
@@ -82,13 +83,24 @@ export function InteractiveAnalytics({ transactions }: InteractiveAnalyticsProps
 
   // Process data when query or transactions change
   useEffect(() => {
+    const combinedFilters = [...currentQuery.filters, ...activeFilters];
+    const queryWithFilters = { ...currentQuery, filters: combinedFilters };
+    // The backend runs the query in SQL; `transactions` still triggers a re-run after imports and edits
+    if (storage.getStorageType() === 'backend') {
+      let cancelled = false;
+      storage.queryAnalytics(queryWithFilters)
+        .then(processed => { if (!cancelled) setProcessedData(processed); })
+        .catch(error => {
+          console.error('Analytics query failed:', error);
+          if (!cancelled) showToast('Failed to load analytics from the backend.', 'error');
+        });
+      return () => { cancelled = true; };
+    }
     if (transactions.length > 0) {
-      const combinedFilters = [...currentQuery.filters, ...activeFilters];
-      const queryWithFilters = { ...currentQuery, filters: combinedFilters };
       const processed = dataProcessor.processTransactions(transactions, queryWithFilters);
       setProcessedData(processed);
     }
-  }, [transactions, currentQuery, activeFilters]);
+  }, [transactions, currentQuery, activeFilters, showToast]);
 
   // Available Data Dimensions
   const dataDimensions = useMemo<DataDimension[]>(() => [
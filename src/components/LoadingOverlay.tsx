@@ -5,6 +5,8 @@ interface LoadingOverlayProps {
   progress?: number;
   /** Covers the whole viewport vs just its container */
   fullScreen?: boolean;
+  /** Shows a Cancel button when set */
+  onCancel?: () => void;
 }
 
 // Heights + animation delays create a natural sine-wave feel
@@ -25,6 +27,7 @@ export function LoadingOverlay({
   subMessage,
   progress,
   fullScreen = false,
+  onCancel,
 }: LoadingOverlayProps) {
   const wrapper = fullScreen
     ? 'fixed inset-0 z-50 flex flex-col items-center justify-center gap-5'
@@ -94,6 +97,16 @@ export function LoadingOverlay({
           </div>
         </div>
       )}
+
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          className="px-4 py-1.5 text-sm rounded-md"
+          style={{ color: 'var(--text-primary)', backgroundColor: 'var(--bg-tertiary)', border: '1px solid var(--border)' }}
+        >
+          Cancel
+        </button>
+      )}
     </div>
   );
 }
@@ -0,0 +1,181 @@
+import { Plus, X } from 'lucide-react';
+import {
+  RuleCondition, ConditionMatch, TextField, TextOperator,
+  TEXT_FIELD_LABELS, TEXT_OPERATOR_LABELS, WEEKDAY_NAMES,
+} from '../utils/ruleConditions';
+
+interface RuleConditionsEditorProps {
+  conditions: RuleCondition[];
+  match: ConditionMatch;
+  onChange: (conditions: RuleCondition[], match: ConditionMatch) => void;
+}
+
+const NEW_CONDITIONS: Record<RuleCondition['type'], RuleCondition> = {
+  text: { type: 'text', field: 'description', operator: 'contains', value: '' },
+  amount: { type: 'amount' },
+  sign: { type: 'sign', sign: 'expense' },
+  weekday: { type: 'weekday', days: [] },
+  date: { type: 'date' },
+};
+
+const TYPE_LABELS: Record<RuleCondition['type'], string> = {
+  text: 'Text field',
+  amount: 'Amount range',
+  sign: 'Expense or income',
+  weekday: 'Weekday',
+  date: 'Date window',
+};
+
+const parseBound = (value: string) => value === '' ? undefined : parseFloat(value);
+
+/** The conditions of a category rule besides its payee pattern, and whether all or any must hold. */
+export function RuleConditionsEditor({ conditions, match, onChange }: RuleConditionsEditorProps) {
+  const update = (index: number, condition: RuleCondition) =>
+    onChange(conditions.map((c, i) => i === index ? condition : c), match);
+
+  const renderFields = (condition: RuleCondition, index: number) => {
+    switch (condition.type) {
+      case 'text':
+        return (
+          <>
+            <select
+              value={condition.field}
+              onChange={(e) => update(index, { ...condition, field: e.target.value as TextField })}
+              className="border rounded-md px-2 py-1 text-sm"
+            >
+              {Object.entries(TEXT_FIELD_LABELS).map(([field, label]) => <option key={field} value={field}>{label}</option>)}
+            </select>
+            <select
+              value={condition.operator}
+              onChange={(e) => update(index, { ...condition, operator: e.target.value as TextOperator })}
+              className="border rounded-md px-2 py-1 text-sm"
+            >
+              {Object.entries(TEXT_OPERATOR_LABELS).map(([op, label]) => <option key={op} value={op}>{label}</option>)}
+            </select>
+            <input
+              type="text"
+              value={condition.value}
+              onChange={(e) => update(index, { ...condition, value: e.target.value })}
+              className="flex-1 min-w-0 border rounded-md px-2 py-1 text-sm"
+            />
+          </>
+        );
+      case 'amount':
+        return (
+          <>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={condition.min ?? ''}
+              onChange={(e) => update(index, { ...condition, min: parseBound(e.target.value) })}
+              placeholder="Min"
+              className="w-24 border rounded-md px-2 py-1 text-sm"
+            />
+            <span className="text-sm text-gray-500">to</span>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={condition.max ?? ''}
+              onChange={(e) => update(index, { ...condition, max: parseBound(e.target.value) })}
+              placeholder="Max"
+              className="w-24 border rounded-md px-2 py-1 text-sm"
+            />
+            <span className="text-xs text-gray-500">either sign</span>
+          </>
+        );
+      case 'sign':
+        return (
+          <select
+            value={condition.sign}
+            onChange={(e) => update(index, { ...condition, sign: e.target.value as 'expense' | 'income' })}
+            className="border rounded-md px-2 py-1 text-sm"
+          >
+            <option value="expense">Is an expense</option>
+            <option value="income">Is income</option>
+          </select>
+        );
+      case 'weekday':
+        return (
+          <div className="flex gap-1">
+            {WEEKDAY_NAMES.map((name, day) => (
+              <button
+                key={name}
+                type="button"
+                onClick={() => update(index, {
+                  ...condition,
+                  days: condition.days.includes(day) ? condition.days.filter(d => d !== day) : [...condition.days, day].sort((a, b) => a - b),
+                })}
+                className={`px-2 py-1 text-xs rounded border ${condition.days.includes(day) ? 'bg-purple-600 text-white border-purple-600' : 'bg-white text-gray-700'}`}
+              >
+                {name}
+              </button>
+            ))}
+          </div>
+        );
+      case 'date':
+        return (
+          <>
+            <input
+              type="date"
+              value={condition.from ?? ''}
+              onChange={(e) => update(index, { ...condition, from: e.target.value || undefined })}
+              className="border rounded-md px-2 py-1 text-sm"
+            />
+            <span className="text-sm text-gray-500">to</span>
+            <input
+              type="date"
+              value={condition.to ?? ''}
+              onChange={(e) => update(index, { ...condition, to: e.target.value || undefined })}
+              className="border rounded-md px-2 py-1 text-sm"
+            />
+          </>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {conditions.length > 0 && (
+        <div className="flex items-center gap-2 text-sm">
+          Match
+          <select
+            value={match}
+            onChange={(e) => onChange(conditions, e.target.value as ConditionMatch)}
+            className="border rounded-md px-2 py-1 text-sm"
+          >
+            <option value="all">all conditions (AND)</option>
+            <option value="any">any condition (OR)</option>
+          </select>
+          <span className="text-xs text-gray-500">The pattern, if set, counts as one of them</span>
+        </div>
+      )}
+      {conditions.map((condition, index) => (
+        <div key={index} className="flex flex-wrap items-center gap-2 p-2 bg-white border rounded-md">
+          <span className="text-xs font-medium text-gray-500 w-28">{TYPE_LABELS[condition.type]}</span>
+          {renderFields(condition, index)}
+          <button
+            type="button"
+            onClick={() => onChange(conditions.filter((_, i) => i !== index), match)}
+            className="ml-auto text-gray-400 hover:text-red-600"
+            title="Remove condition"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <Plus size={14} className="text-gray-500" />
+        <select
+          value=""
+          onChange={(e) => e.target.value && onChange([...conditions, NEW_CONDITIONS[e.target.value as RuleCondition['type']]], match)}
+          className="border rounded-md px-2 py-1 text-sm"
+        >
+          <option value="">Add condition…</option>
+          {Object.entries(TYPE_LABELS).map(([type, label]) => <option key={type} value={type}>{label}</option>)}
+        </select>
+      </div>
+    </div>
+  );
+}
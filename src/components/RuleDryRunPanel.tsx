@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { AlertTriangle, FlaskConical, X } from 'lucide-react';
+import { CategoryRule } from '../utils/smartCategorization';
+import { DryRunResult, RuleIssue, ruleLabel } from '../utils/ruleDryRun';
+
+interface RuleDryRunPanelProps {
+  result: DryRunResult;
+  rules: CategoryRule[]; // In priority order
+  transactionCount: number;
+  onClose: () => void;
+}
+
+const PREVIEW_LIMIT = 50;
+
+export function RuleDryRunPanel({ result, rules, transactionCount, onClose }: RuleDryRunPanelProps) {
+  const [showAll, setShowAll] = useState(false);
+  const byId = new Map(rules.map(r => [r.id, r]));
+  const label = (id: string) => {
+    const rule = byId.get(id);
+    return rule ? ruleLabel(rule, rules) : id;
+  };
+
+  const describeIssue = (issue: RuleIssue) => {
+    switch (issue.kind) {
+      case 'never_matches':
+        return `${label(issue.ruleId)} matches no transactions`;
+      case 'shadowed':
+        return `${label(issue.ruleId)} never takes effect: ${label(issue.byRuleId)} above it already decides every transaction it matches`;
+      case 'overlap':
+        return `${label(issue.ruleId)} and ${label(issue.otherRuleId)} both match ${issue.count.toLocaleString()} transaction${issue.count === 1 ? '' : 's'} `
+          + `with different categories; ${label(issue.otherRuleId)} wins`;
+    }
+  };
+
+  const shown = showAll ? result.changes : result.changes.slice(0, PREVIEW_LIMIT);
+
+  return (
+    <div className="mb-4 p-4 border border-amber-200 bg-amber-50 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-medium text-sm flex items-center gap-2">
+          <FlaskConical size={16} />
+          Dry run over {transactionCount.toLocaleString()} transactions
+        </h4>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close dry run">
+          <X size={16} />
+        </button>
+      </div>
+      <p className="text-sm text-gray-700 mb-3">
+        {result.changes.length.toLocaleString()} transaction{result.changes.length === 1 ? '' : 's'} would change category
+        {result.otherChanges > 0 && <>, and {result.otherChanges.toLocaleString()} more would get other changes (tags, payee or flags)</>}.
+        Nothing is saved.
+      </p>
+
+      {result.issues.length > 0 && (
+        <ul className="mb-3 space-y-1">
+          {result.issues.map(issue => (
+            <li key={`${issue.kind}-${issue.ruleId}-${'otherRuleId' in issue ? issue.otherRuleId : ''}`} className="text-xs text-amber-800 flex items-start gap-1">
+              <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+              {describeIssue(issue)}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {result.changes.length > 0 && (
+        <div className="max-h-72 overflow-auto bg-white border rounded-md">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-gray-50">
+              <tr className="text-left text-gray-500">
+                <th className="px-2 py-1 font-medium">Date</th>
+                <th className="px-2 py-1 font-medium">Payee</th>
+                <th className="px-2 py-1 font-medium text-right">Amount</th>
+                <th className="px-2 py-1 font-medium">Category</th>
+                <th className="px-2 py-1 font-medium">Rule</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map(({ transaction: t, to, ruleId }) => (
+                <tr key={t.id} className="border-t">
+                  <td className="px-2 py-1 whitespace-nowrap">{t.date.toLocaleDateString()}</td>
+                  <td className="px-2 py-1 truncate max-w-[12rem]">{t.payee}</td>
+                  <td className="px-2 py-1 text-right">{t.amount.toFixed(2)}</td>
+                  <td className="px-2 py-1 whitespace-nowrap">
+                    <span className="text-gray-400 line-through">{t.category || '—'}</span> → <span className="font-medium">{to}</span>
+                  </td>
+                  <td className="px-2 py-1 text-gray-500 truncate max-w-[10rem]">{label(ruleId)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {!showAll && result.changes.length > PREVIEW_LIMIT && (
+            <button onClick={() => setShowAll(true)} className="w-full py-1 text-xs text-blue-600 hover:bg-gray-50 border-t">
+              Show all {result.changes.length.toLocaleString()}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
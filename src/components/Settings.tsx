@@ -1,47 +1,64 @@
 import { useState, useEffect, useRef, useMemo, ReactNode } from 'react';
 import { useToast } from '../context/ToastContext';
-import { StorageType, SavingsGoal, PayeeRenamingRule, Budget, Category, Transaction } from '../types';
-import { setStorageType, setBackendUrl, getStorageType, testConnection, clearTransactions } from '../storage';
+import { StorageType, SavingsGoal, PayeeRenamingRule, Budget, Category, Transaction, ImportBatch, DuplicateDetectionMode } from '../types';
+import { setStorageType, setBackendUrl, getStorageType, testConnection, clearTransactions, getImportBatches, deleteImportBatch, loadSettings, getSetting, setSetting, getSessionUser, setMirroring, isMirroring, UnauthorizedError, EncryptionStatus, ConnectionStatus } from '../storage';
 import { useTheme, Theme, Style } from '../context/ThemeContext';
-import { Database, Cloud, Trash2, CheckCircle, XCircle, Sun, Moon, Smartphone, DollarSign, Target, Edit3, Plus, X, TrendingDown, ChevronLeft, ChevronRight, Download, Upload, Search, Layout } from 'lucide-react';
+import { Database, Cloud, Trash2, CheckCircle, XCircle, Sun, Moon, Smartphone, DollarSign, Target, Edit3, Plus, X, TrendingDown, ChevronLeft, ChevronRight, Download, Upload, Search, Layout, History } from 'lucide-react';
 import { detectLocalCurrency, COMMON_CURRENCIES } from '../utils/currency';
 import { getRenamingRules, saveRenamingRules, addRenamingRule, batchAddRenamingRules, extractPayeePattern } from '../utils/payeeRules';
 import { getBudgets, saveBudgets, addBudget, deleteBudget } from '../utils/budgetManager';
 import { load, dump } from 'js-yaml';
+import { getDuplicateDetectionMode, getDuplicateDateWindow } from '../utils/duplicateDetection';
+import { BackupRestore } from './BackupRestore';
+import { EncryptionSettings } from './EncryptionSettings';
+import { AccountSettings } from './AccountSettings';
+import { StorageMigration } from './StorageMigration';
+import { CategoryRulesManager } from './CategoryRulesManager';
+import { CategoryEditor } from './CategoryEditor';
+import { MigrationResult, STORAGE_LABELS } from '../utils/storageMigration';
+import { RestoredWorkspace } from '../utils/backup';
 
 interface SettingsProps {
   onStorageChange: () => void;
+  /** A backup was restored; the ledger and categories it left behind */
+  onRestore?: (restored: RestoredWorkspace) => void;
+  onLock?: () => void;
+  onEncryptionChange?: (status: EncryptionStatus) => void;
   categories?: Category[];
   transactions?: Transaction[];
+  /** Categories were edited; renames and deletions are already applied to `transactions` */
+  onCategoriesChange?: (categories: Category[], transactions: Transaction[]) => void;
 }
 
 const ITEMS_PER_PAGE = 10;
 
-export function Settings({ onStorageChange, categories = [], transactions = [] }: SettingsProps) {
+const DEFAULT_SAVINGS_GOAL: SavingsGoal = { amount: 0, period: 'year' };
+
+export function Settings({ onStorageChange, onRestore, onLock, onEncryptionChange, categories = [], transactions = [], onCategoriesChange }: SettingsProps) {
   const showToast = useToast();
   const { theme, setTheme, style, setStyle } = useTheme();
   const [storage, setStorage] = useState<StorageType>(getStorageType());
   const [url, setUrl] = useState('http://localhost:3001');
-  const [connectionStatus, setConnectionStatus] = useState<'untested' | 'testing' | 'connected' | 'failed'>('untested');
+  const [connectionStatus, setConnectionStatus] = useState<'untested' | 'testing' | ConnectionStatus>('untested');
+  const [sessionUser, setSessionUser] = useState<string | null>(getSessionUser);
+  // The storage the user picked, while they choose whether to copy their data over
+  const [migrationTarget, setMigrationTarget] = useState<StorageType | null>(null);
+  const [mirror, setMirror] = useState(isMirroring);
   const [showClearConfirm, setShowClearConfirm] = useState(false);
-  const [defaultCurrency, setDefaultCurrency] = useState<string>(() => {
-    const saved = localStorage.getItem('default-currency');
-    return saved || detectLocalCurrency();
-  });
-  const [savingsGoal, setSavingsGoal] = useState<SavingsGoal>(() => {
-    const saved = localStorage.getItem('savings-goal');
-    return saved ? JSON.parse(saved) : { amount: 0, period: 'year' };
-  });
+  const [defaultCurrency, setDefaultCurrency] = useState<string>(() => getSetting('default-currency', '') || detectLocalCurrency());
+  const [savingsGoal, setSavingsGoal] = useState<SavingsGoal>(() => getSetting('savings-goal', DEFAULT_SAVINGS_GOAL));
   const [renamingRules, setRenamingRules] = useState<PayeeRenamingRule[]>([]);
+  // Bumped to remount the category rules, which read the settings store themselves
+  const [rulesVersion, setRulesVersion] = useState(0);
   const [currentPage, setCurrentPage] = useState(1);
   const [showAddRule, setShowAddRule] = useState(false);
   const renamingFileInputRef = useRef<HTMLInputElement>(null);
   const [newRule, setNewRule] = useState({ pattern: '', replacement: '', isRegex: false });
-  const [duplicateDetection, setDuplicateDetection] = useState<'strict' | 'off'>(() => {
-    const saved = localStorage.getItem('duplicate-detection');
-    return (saved as 'strict' | 'off') || 'strict';
-  });
+  const [duplicateDetection, setDuplicateDetection] = useState<DuplicateDetectionMode>(getDuplicateDetectionMode);
+  const [duplicateDateWindow, setDuplicateDateWindow] = useState<number>(getDuplicateDateWindow);
   const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [importBatches, setImportBatches] = useState<ImportBatch[]>([]);
+  const [batchToDelete, setBatchToDelete] = useState<string | null>(null);
   const [ruleSearch, setRuleSearch] = useState('');
   const [showAddBudget, setShowAddBudget] = useState(false);
   const [newBudget, setNewBudget] = useState<Omit<Budget, 'id' | 'enabled'>>({
@@ -117,24 +134,110 @@ export function Settings({ onStorageChange, categories = [], transactions = [] }
     reader.readAsText(file);
   };
 
-  const handleStorageChange = (type: StorageType) => {
+  const saveStorageSettings = (type: StorageType, backendUrl: string, mirrorOn: boolean) => {
+    localStorage.setItem('storage-settings', JSON.stringify({ type, backendUrl, mirror: mirrorOn }));
+  };
+
+  const handleStorageSelect = (type: StorageType) => {
+    setMigrationTarget(type === storage ? null : type);
+  };
+
+  // Switch without copying; the stores are no longer kept in sync
+  const handleStorageChange = async (type: StorageType) => {
+    setMigrationTarget(null);
     setStorage(type);
     setStorageType(type);
-    localStorage.setItem('storage-settings', JSON.stringify({ type, backendUrl: url }));
+    setMirroring(false);
+    setMirror(false);
+    saveStorageSettings(type, url, false);
+    await reloadFromStorage();
+  };
+
+  // migrateWorkspace has already made the destination the active storage and loaded its settings
+  const handleMigrated = (result: MigrationResult, mirrorOn: boolean) => {
+    const type = getStorageType();
+    setMigrationTarget(null);
+    setStorage(type);
+    setMirroring(mirrorOn);
+    setMirror(mirrorOn);
+    saveStorageSettings(type, url, mirrorOn);
+    refreshFromSettings();
+    onRestore?.(result);
     onStorageChange();
   };
 
+  const handleStopMirroring = () => {
+    setMirroring(false);
+    setMirror(false);
+    saveStorageSettings(storage, url, false);
+  };
+
+  // Rules, budgets and preferences belong to the storage (and on the backend, to the household),
+  // so switching either brings in that storage's set
+  const reloadFromStorage = async () => {
+    try {
+      await loadSettings();
+    } catch (error) {
+      console.error('Failed to load settings:', error);
+      // Signed out of the backend: the account form below says so already
+      if (!(error instanceof UnauthorizedError)) showToast('Failed to load settings from the selected storage.', 'error');
+    }
+    refreshFromSettings();
+    onStorageChange();
+  };
+
+  // Re-read everything this page shows from the settings store, after it changed underneath us
+  const refreshFromSettings = () => {
+    setDefaultCurrency(getSetting('default-currency', '') || detectLocalCurrency());
+    setSavingsGoal(getSetting('savings-goal', DEFAULT_SAVINGS_GOAL));
+    setDuplicateDetection(getDuplicateDetectionMode());
+    setDuplicateDateWindow(getDuplicateDateWindow());
+    setRenamingRules(getRenamingRules());
+    setBudgets(getBudgets());
+    setRulesVersion(v => v + 1);
+  };
+
+  const handleRestored = (restored: RestoredWorkspace) => {
+    refreshFromSettings();
+    onRestore?.(restored);
+  };
+
   const handleUrlChange = (newUrl: string) => {
     setUrl(newUrl);
     setBackendUrl(newUrl);
     setConnectionStatus('untested');
-    localStorage.setItem('storage-settings', JSON.stringify({ type: storage, backendUrl: newUrl }));
+    setSessionUser(getSessionUser());
+    saveStorageSettings(storage, newUrl, mirror);
   };
 
   const handleTestConnection = async () => {
     setConnectionStatus('testing');
-    const connected = await testConnection();
-    setConnectionStatus(connected ? 'connected' : 'failed');
+    setConnectionStatus(await testConnection());
+  };
+
+  const handleSessionChange = async () => {
+    setConnectionStatus('untested');
+    setSessionUser(getSessionUser());
+    await reloadFromStorage();
+  };
+
+  // Reload the history whenever the ledger changes, i.e. after an import or a rollback
+  useEffect(() => {
+    getImportBatches()
+      .then(batches => setImportBatches(batches.sort((a, b) => b.importedAt.getTime() - a.importedAt.getTime())))
+      .catch(error => console.error('Failed to load import history:', error));
+  }, [transactions]);
+
+  const handleDeleteBatch = async (batch: ImportBatch) => {
+    try {
+      await deleteImportBatch(batch.id);
+      setBatchToDelete(null);
+      showToast(`Removed ${batch.importedCount} transaction(s) imported from ${batch.fileName}.`, 'success');
+      onStorageChange();
+    } catch (error) {
+      console.error('Failed to delete import batch:', error);
+      showToast('Failed to delete import. Please try again.', 'error');
+    }
   };
 
   const handleClearData = async () => {
@@ -145,12 +248,12 @@ export function Settings({ onStorageChange, categories = [], transactions = [] }
 
   const handleCurrencyChange = (currency: string) => {
     setDefaultCurrency(currency);
-    localStorage.setItem('default-currency', currency);
+    setSetting('default-currency', currency);
   };
 
   const handleSavingsGoalChange = (goal: SavingsGoal) => {
     setSavingsGoal(goal);
-    localStorage.setItem('savings-goal', JSON.stringify(goal));
+    setSetting('savings-goal', goal);
   };
 
   const handleAddRule = () => {
@@ -190,9 +293,14 @@ export function Settings({ onStorageChange, categories = [], transactions = [] }
     showToast(`Date suffix rule added — ${suffixInfo.count} payees will be cleaned up.`, 'success');
   };
 
-  const handleDuplicateDetectionChange = (mode: 'strict' | 'off') => {
+  const handleDuplicateDetectionChange = (mode: DuplicateDetectionMode) => {
     setDuplicateDetection(mode);
-    localStorage.setItem('duplicate-detection', mode);
+    setSetting('duplicate-detection', mode);
+  };
+
+  const handleDuplicateDateWindowChange = (days: number) => {
+    setDuplicateDateWindow(days);
+    setSetting('duplicate-date-window', days);
   };
 
   const handleAddBudget = () => {
@@ -345,8 +453,8 @@ export function Settings({ onStorageChange, categories = [], transactions = [] }
             <input
               type="radio"
               name="storage"
-              checked={storage === 'local'}
-              onChange={() => handleStorageChange('local')}
+              checked={(migrationTarget ?? storage) === 'local'}
+              onChange={() => handleStorageSelect('local')}
               className="w-4 h-4"
             />
             <Database size={20} className="text-blue-600" />
@@ -360,8 +468,8 @@ export function Settings({ onStorageChange, categories = [], transactions = [] }
             <input
               type="radio"
               name="storage"
-              checked={storage === 'backend'}
-              onChange={() => handleStorageChange('backend')}
+              checked={(migrationTarget ?? storage) === 'backend'}
+              onChange={() => handleStorageSelect('backend')}
               className="w-4 h-4"
             />
             <Cloud size={20} className="text-green-600" />
@@ -372,7 +480,26 @@ export function Settings({ onStorageChange, categories = [], transactions = [] }
           </label>
         </div>
 
-        {storage === 'backend' && (
+        {mirror && !migrationTarget && (
+          <div className="mt-4 flex items-center justify-between text-sm text-gray-600">
+            <span>Changes are also copied to {STORAGE_LABELS[storage === 'backend' ? 'local' : 'backend']} to keep it in sync.</span>
+            <button onClick={handleStopMirroring} className="text-blue-600 hover:underline">Stop syncing</button>
+          </div>
+        )}
+
+        {migrationTarget && (
+          <StorageMigration
+            to={migrationTarget}
+            transactionCount={transactions.length}
+            categories={categories}
+            canCopy={migrationTarget === 'local' || !!sessionUser}
+            onMigrated={handleMigrated}
+            onSwitchOnly={() => handleStorageChange(migrationTarget)}
+            onCancel={() => setMigrationTarget(null)}
+          />
+        )}
+
+        {(storage === 'backend' || migrationTarget === 'backend') && (
           <div className="mt-4 p-4 bg-gray-50 rounded-lg">
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Backend URL
@@ -396,10 +523,16 @@ export function Settings({ onStorageChange, categories = [], transactions = [] }
             {connectionStatus === 'connected' && (
               <div className="mt-2 flex items-center gap-2 text-green-600 text-sm">
                 <CheckCircle size={16} />
-                Connected successfully
+                Connected as {getSessionUser()}
+              </div>
+            )}
+            {connectionStatus === 'unauthorized' && (
+              <div className="mt-2 flex items-center gap-2 text-amber-600 text-sm">
+                <XCircle size={16} />
+                The server is running, but you are not signed in.
               </div>
             )}
-            {connectionStatus === 'failed' && (
+            {connectionStatus === 'unreachable' && (
               <div className="mt-2 flex items-center gap-2 text-red-600 text-sm">
                 <XCircle size={16} />
                 Connection failed. Make sure the server is running.
@@ -408,10 +541,16 @@ export function Settings({ onStorageChange, categories = [], transactions = [] }
             <p className="mt-2 text-xs text-gray-500">
               Run <code className="bg-gray-200 px-1 rounded">cd server && npm install && npm start</code> to start the backend.
             </p>
+            {/* Remounted per URL, since each server has its own session */}
+            <AccountSettings key={url} onSessionChange={handleSessionChange} />
           </div>
         )}
       </div>
 
+      {storage === 'local' && onLock && onEncryptionChange && (
+        <EncryptionSettings onLock={onLock} onChange={onEncryptionChange} />
+      )}
+
       <div className="bg-white rounded-lg shadow p-6 mb-6">
         <h3 className="font-medium mb-4 flex items-center gap-2">
           <DollarSign size={20} />
@@ -862,6 +1001,20 @@ export function Settings({ onStorageChange, categories = [], transactions = [] }
         </p>
       </div>
 
+      <CategoryEditor
+        categories={categories}
+        transactions={transactions}
+        onChange={(updatedCategories, updatedTransactions) => {
+          // Budgets and rules may have followed a rename or deletion
+          refreshFromSettings();
+          onCategoriesChange?.(updatedCategories, updatedTransactions);
+        }}
+      />
+
+      <div className="mb-6">
+        <CategoryRulesManager key={rulesVersion} categories={categories} transactions={transactions} />
+      </div>
+
       <div className="bg-white rounded-lg shadow p-6 mb-6">
         <h3 className="font-medium mb-4">Import Settings</h3>
         
@@ -870,6 +1023,36 @@ export function Settings({ onStorageChange, categories = [], transactions = [] }
             Duplicate Detection
           </label>
           <div className="space-y-2">
+            <label className="flex items-center gap-3 p-3 border rounded-lg cursor-pointer hover:bg-gray-50">
+              <input
+                type="radio"
+                name="duplicate-detection"
+                checked={duplicateDetection === 'fuzzy'}
+                onChange={() => handleDuplicateDetectionChange('fuzzy')}
+                className="w-4 h-4"
+              />
+              <div className="flex-1">
+                <div className="font-medium text-sm">Fuzzy (Recommended)</div>
+                <div className="text-xs text-gray-500">
+                  Skip exact matches, and queue same-amount transactions with a similar payee for review
+                </div>
+                {duplicateDetection === 'fuzzy' && (
+                  <div className="mt-2 flex items-center gap-2 text-xs text-gray-600">
+                    Match up to
+                    <select
+                      value={duplicateDateWindow}
+                      onChange={(e) => handleDuplicateDateWindowChange(Number(e.target.value))}
+                      className="px-2 py-1 border border-gray-300 rounded-md"
+                    >
+                      {[1, 2, 3, 5, 7].map(days => (
+                        <option key={days} value={days}>{days}</option>
+                      ))}
+                    </select>
+                    day(s) apart
+                  </div>
+                )}
+              </div>
+            </label>
             <label className="flex items-center gap-3 p-3 border rounded-lg cursor-pointer hover:bg-gray-50">
               <input
                 type="radio"
@@ -879,9 +1062,9 @@ export function Settings({ onStorageChange, categories = [], transactions = [] }
                 className="w-4 h-4"
               />
               <div>
-                <div className="font-medium text-sm">Strict (Recommended)</div>
+                <div className="font-medium text-sm">Strict</div>
                 <div className="text-xs text-gray-500">
-                  Skip transactions with matching date, payee, and amount
+                  Skip transactions with the same bank transaction ID, or matching date, payee, and amount
                 </div>
               </div>
             </label>
@@ -904,6 +1087,79 @@ export function Settings({ onStorageChange, categories = [], transactions = [] }
         </div>
       </div>
 
+      <div className="bg-white rounded-lg shadow p-6 mb-6">
+        <h3 className="font-medium mb-4 flex items-center gap-2">
+          <History size={20} />
+          Import History
+        </h3>
+
+        {importBatches.length === 0 ? (
+          <p className="text-sm text-gray-500">No imports recorded yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {importBatches.map(batch => (
+              <div key={batch.id} className="p-3 border rounded-lg">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="font-medium text-sm truncate">{batch.fileName || 'Untitled import'}</div>
+                    <div className="text-xs text-gray-500">
+                      {batch.importedAt.toLocaleString()} • {batch.files ? `${batch.files.length} files` : batch.format.toUpperCase()}
+                      {batch.mappingName && <> • mapping {batch.mappingName}</>}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {batch.importedCount} imported of {batch.totalRows} rows
+                      {batch.duplicateCount > 0 && <> • {batch.duplicateCount} duplicates skipped</>}
+                      {batch.invalidCount > 0 && <> • {batch.invalidCount} invalid</>}
+                    </div>
+                    {batch.files && (
+                      <ul className="mt-1 text-xs text-gray-500 list-disc list-inside">
+                        {batch.files.map((file, i) => (
+                          <li key={i} className="truncate">
+                            {file.fileName} ({file.format.toUpperCase()}{file.mappingName && `, ${file.mappingName}`}) — {file.totalRows} rows
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                  {batchToDelete !== batch.id && (
+                    <button
+                      onClick={() => setBatchToDelete(batch.id)}
+                      className="p-2 text-gray-400 hover:text-red-600"
+                      title="Delete this import"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  )}
+                </div>
+                {batchToDelete === batch.id && (
+                  <div className="mt-3 p-3 bg-red-50 rounded-lg">
+                    <p className="text-sm text-red-700 mb-3">
+                      Delete the {batch.importedCount} transaction(s) imported from this file? Other transactions are not affected.
+                    </p>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleDeleteBatch(batch)}
+                        className="px-3 py-1.5 text-sm bg-red-600 text-white rounded-md hover:bg-red-700"
+                      >
+                        Delete import
+                      </button>
+                      <button
+                        onClick={() => setBatchToDelete(null)}
+                        className="px-3 py-1.5 text-sm bg-gray-200 rounded-md hover:bg-gray-300"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <BackupRestore categories={categories} onRestored={handleRestored} />
+
       <div className="bg-white rounded-lg shadow p-6">
         <h3 className="font-medium mb-4">Data Management</h3>
 
@@ -0,0 +1,105 @@
+import { FileSpreadsheet, X } from 'lucide-react';
+import { SheetSelection } from '../utils/spreadsheet';
+
+interface SheetPickerProps {
+  fileName: string;
+  sheet: SheetSelection;
+  rowCount: number; // Data rows below the chosen header row
+  step?: { index: number; total: number }; // Position among the spreadsheets of a multi-file drop
+  busy: boolean; // The worker is re-reading the sheet
+  /** Pick another sheet (header row detected again) or another header row in the current sheet */
+  onChange: (sheetName: string, headerRow?: number) => void;
+  onContinue: () => void;
+  onCancel: () => void;
+}
+
+export function SheetPicker({ fileName, sheet, rowCount, step, busy, onChange, onContinue, onCancel }: SheetPickerProps) {
+  const width = Math.max(1, ...sheet.preview.map(row => row.length));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full mx-4 max-h-[85vh] overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center gap-3">
+            <FileSpreadsheet size={24} className="text-blue-600" />
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Choose Sheet</h2>
+              <p className="text-sm text-gray-500">
+                {fileName}
+                {step && step.total > 1 && <> • spreadsheet {step.index + 1} of {step.total}</>}
+              </p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-2 text-gray-400 hover:text-gray-600 rounded-md">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-4 px-6 pt-4">
+          <label className="text-sm font-medium text-gray-700">Sheet</label>
+          <select
+            value={sheet.name}
+            onChange={(e) => onChange(e.target.value)}
+            disabled={busy || sheet.names.length < 2}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            {sheet.names.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+          <p className="text-sm text-gray-500">
+            Click the row that holds the column names; rows above it are skipped.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-auto px-6 py-4">
+          <table className={`w-full text-sm ${busy ? 'opacity-50' : ''}`}>
+            <tbody>
+              {sheet.preview.map((row, r) => {
+                const isHeader = r === sheet.headerRow;
+                const skipped = r < sheet.headerRow;
+                return (
+                  <tr
+                    key={r}
+                    onClick={() => !busy && !isHeader && onChange(sheet.name, r)}
+                    className={`border-b last:border-0 cursor-pointer
+                      ${isHeader ? 'bg-blue-50 font-medium text-blue-900' : skipped ? 'text-gray-400 hover:bg-gray-50' : 'hover:bg-gray-50'}`}
+                  >
+                    <td className="py-1.5 pr-3 text-xs text-gray-400 whitespace-nowrap">
+                      {isHeader ? 'Header' : skipped ? 'Skipped' : r + 1}
+                    </td>
+                    {Array.from({ length: width }, (_, c) => (
+                      <td key={c} className={`py-1.5 pr-4 whitespace-nowrap truncate max-w-xs ${skipped ? 'line-through' : ''}`}>
+                        {row[c]}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center justify-between p-6 border-t">
+          <div className="text-sm text-gray-500">
+            {rowCount > 0
+              ? `${rowCount.toLocaleString()} data rows below the header`
+              : 'No data rows below this header row — pick another sheet or row.'}
+          </div>
+          <div className="flex gap-2">
+            <button onClick={onCancel} className="px-4 py-2 bg-gray-200 rounded-md hover:bg-gray-300">
+              Cancel
+            </button>
+            <button
+              onClick={onContinue}
+              disabled={busy || rowCount === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Continue
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -14,6 +14,7 @@ import {
   batchSmartCategorize,
   getPayeeSpendingStats
 } from '../utils/smartCategorization';
+import { getSetting } from '../storage';
 
 interface SmartCategorizationProps {
   transactions: Transaction[];
@@ -30,7 +31,7 @@ export function SmartCategorization({ transactions, categories: _categories, onB
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [selectedSuggestions, setSelectedSuggestions] = useState<Set<string>>(new Set());
   
-  const userCurrency = localStorage.getItem('default-currency') || 'USD';
+  const userCurrency = getSetting('default-currency', 'USD');
   
   // Smart categorization analysis
   const smartAnalysis = useMemo(() => {
@@ -0,0 +1,172 @@
+import { useState } from 'react';
+import { Plus, Scissors, Trash2 } from 'lucide-react';
+import { Category, Transaction, TransactionSplit } from '../types';
+import { formatCurrency } from '../utils/currency';
+import { isSplit, validateSplits } from '../utils/splits';
+import { CategorySelect } from './CategorySelect';
+
+interface SplitTransactionDialogProps {
+  transaction: Transaction;
+  categories: Category[];
+  currency: string;
+  /** The new parts, or an empty list to undo the split */
+  onSave: (splits: TransactionSplit[]) => void;
+  onClose: () => void;
+}
+
+// Amounts are entered without a sign; every part takes the transaction's
+interface PartDraft {
+  amount: string;
+  category: string;
+  tags: string;
+  note: string;
+}
+
+const parseAmount = (value: string) => Math.abs(parseFloat(value.replace(',', '.')));
+
+function toDrafts(t: Transaction): PartDraft[] {
+  if (isSplit(t)) {
+    return t.splits!.map(s => ({
+      amount: Math.abs(s.amount).toFixed(2),
+      category: s.category ?? '',
+      tags: s.tags?.join(', ') ?? '',
+      note: s.note ?? '',
+    }));
+  }
+  return [
+    { amount: Math.abs(t.amount).toFixed(2), category: t.category ?? '', tags: '', note: '' },
+    { amount: '', category: '', tags: '', note: '' },
+  ];
+}
+
+export function SplitTransactionDialog({ transaction, categories, currency, onSave, onClose }: SplitTransactionDialogProps) {
+  const [parts, setParts] = useState<PartDraft[]>(() => toDrafts(transaction));
+  const sign = transaction.amount < 0 ? -1 : 1;
+
+  const splits: TransactionSplit[] = parts.map(p => {
+    const tags = p.tags.split(',').map(tag => tag.trim()).filter(Boolean);
+    return {
+      amount: sign * parseAmount(p.amount),
+      ...(p.category && { category: p.category }),
+      ...(tags.length > 0 && { tags }),
+      ...(p.note.trim() && { note: p.note.trim() }),
+    };
+  });
+  const error = validateSplits(transaction.amount, splits);
+  const assigned = splits.reduce((sum, s) => sum + (Number.isFinite(s.amount) ? s.amount : 0), 0);
+  const left = Math.round((transaction.amount - assigned) * 100) / 100;
+
+  const updatePart = (index: number, updates: Partial<PartDraft>) => {
+    setParts(prev => prev.map((p, i) => i === index ? { ...p, ...updates } : p));
+  };
+
+  // Give one part whatever isn't assigned yet
+  const assignRest = (index: number) => {
+    const current = Number.isFinite(splits[index].amount) ? splits[index].amount : 0;
+    updatePart(index, { amount: Math.abs(current + left).toFixed(2) });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-3xl w-full mx-4 max-h-[90vh] overflow-auto">
+        <h3 className="text-lg font-bold mb-1 flex items-center gap-2">
+          <Scissors size={20} />
+          Split Transaction
+        </h3>
+        <p className="text-sm text-gray-600 mb-4">
+          {transaction.payee} · {formatCurrency(transaction.amount, currency)}. Each part is counted in analytics and
+          budgets under its own category.
+        </p>
+
+        <div className="space-y-2 mb-3">
+          {parts.map((part, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2 p-2 border rounded-md">
+              <input
+                type="text"
+                inputMode="decimal"
+                value={part.amount}
+                onChange={(e) => updatePart(index, { amount: e.target.value })}
+                placeholder="Amount"
+                className="w-24 border rounded-md px-2 py-1 text-sm text-right"
+              />
+              <div className="w-48">
+                <CategorySelect
+                  value={part.category}
+                  categories={categories}
+                  onChange={(category) => updatePart(index, { category })}
+                />
+              </div>
+              <input
+                type="text"
+                value={part.tags}
+                onChange={(e) => updatePart(index, { tags: e.target.value })}
+                placeholder="Tags, comma separated"
+                className="w-40 border rounded-md px-2 py-1 text-sm"
+              />
+              <input
+                type="text"
+                value={part.note}
+                onChange={(e) => updatePart(index, { note: e.target.value })}
+                placeholder="Note"
+                className="flex-1 min-w-[8rem] border rounded-md px-2 py-1 text-sm"
+              />
+              <button
+                onClick={() => assignRest(index)}
+                disabled={left === 0}
+                className="text-xs text-blue-600 hover:underline disabled:text-gray-300 disabled:no-underline"
+                title="Add the unassigned amount to this part"
+              >
+                Rest
+              </button>
+              <button
+                onClick={() => setParts(prev => prev.filter((_, i) => i !== index))}
+                disabled={parts.length <= 2}
+                className="text-gray-400 hover:text-red-600 disabled:opacity-30 disabled:hover:text-gray-400"
+                title="Remove part"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between mb-4 text-sm">
+          <button
+            onClick={() => setParts(prev => [...prev, { amount: '', category: '', tags: '', note: '' }])}
+            className="flex items-center gap-1 text-blue-600 hover:text-blue-700"
+          >
+            <Plus size={16} />
+            Add part
+          </button>
+          <span className={left === 0 ? 'text-green-600' : 'text-amber-600'}>
+            {left === 0 ? 'Fully assigned' : `${formatCurrency(left, currency)} unassigned`}
+          </span>
+        </div>
+
+        {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+        <div className="flex justify-between gap-2">
+          <div>
+            {isSplit(transaction) && (
+              <button onClick={() => onSave([])} className="px-4 py-2 border border-red-300 text-red-700 rounded-md hover:bg-red-50">
+                Remove Split
+              </button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 border rounded-md hover:bg-gray-50">
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave(splits)}
+              disabled={!!error}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Save Split
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
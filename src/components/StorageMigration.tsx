@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { ArrowRightLeft } from 'lucide-react';
+import { useToast } from '../context/ToastContext';
+import { Category, StorageType } from '../types';
+import { MigrationProgress, MigrationResult, STORAGE_LABELS, migrateWorkspace } from '../utils/storageMigration';
+
+interface StorageMigrationProps {
+  to: StorageType;
+  transactionCount: number; // In the active storage
+  categories: Category[];
+  /** The backend needs a signed-in account before anything can be copied to it */
+  canCopy: boolean;
+  /** Copied and switched; `mirror` keeps both storages in sync from now on */
+  onMigrated: (result: MigrationResult, mirror: boolean) => void;
+  onSwitchOnly: () => void;
+  onCancel: () => void;
+}
+
+type Choice = 'copy' | 'switch';
+
+export function StorageMigration({ to, transactionCount, categories, canCopy, onMigrated, onSwitchOnly, onCancel }: StorageMigrationProps) {
+  const showToast = useToast();
+  const [choice, setChoice] = useState<Choice>('copy');
+  const [mirror, setMirror] = useState(false);
+  const [progress, setProgress] = useState<MigrationProgress | null>(null);
+  const from: StorageType = to === 'backend' ? 'local' : 'backend';
+
+  const handleStart = async () => {
+    if (choice === 'switch') {
+      onSwitchOnly();
+      return;
+    }
+    setProgress({ step: 'Starting', progress: 0 });
+    try {
+      const result = await migrateWorkspace(to, categories, setProgress);
+      onMigrated(result, mirror);
+      showToast(
+        `Copied ${result.copied.toLocaleString()} transactions to ${STORAGE_LABELS[to]}`
+          + (result.alreadyThere ? ` (${result.alreadyThere.toLocaleString()} were already there)` : '')
+          + (result.queued ? `; ${result.queued.toLocaleString()} changes will upload when the server is reachable` : '')
+          + '.',
+        'success',
+      );
+    } catch (error) {
+      console.error('Storage migration failed:', error);
+      showToast(`Copying failed, so you are still using ${STORAGE_LABELS[from]}: ${error instanceof Error ? error.message : String(error)}`, 'error');
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="mt-4 p-4 border border-blue-200 bg-blue-50 rounded-lg">
+      <h4 className="font-medium text-sm mb-1 flex items-center gap-2">
+        <ArrowRightLeft size={16} />
+        Switch to {STORAGE_LABELS[to]}
+      </h4>
+      <p className="text-xs text-gray-600 mb-3">
+        Each storage keeps its own data. {transactionCount.toLocaleString()} transactions are in {STORAGE_LABELS[from]} now.
+      </p>
+
+      {progress ? (
+        <div>
+          <div className="text-sm text-gray-700 mb-2">{progress.step}…</div>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div className="bg-blue-600 h-2 rounded-full transition-all" style={{ width: `${progress.progress}%` }} />
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="space-y-2 mb-4">
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input type="radio" name="migration" checked={choice === 'copy'} onChange={() => setChoice('copy')} className="mt-1" />
+              <div>
+                <div className="font-medium text-sm">Copy my data, then switch</div>
+                <div className="text-xs text-gray-500">
+                  Transactions, categories, import history, rules, budgets and other settings. Anything {STORAGE_LABELS[to]} already
+                  has is kept, and transactions it already has are not duplicated.
+                </div>
+                {choice === 'copy' && (
+                  <label className="flex items-center gap-2 mt-2 text-sm cursor-pointer">
+                    <input type="checkbox" checked={mirror} onChange={(e) => setMirror(e.target.checked)} />
+                    Keep both storages in sync from now on
+                  </label>
+                )}
+              </div>
+            </label>
+            <label className="flex items-start gap-3 cursor-pointer">
+              <input type="radio" name="migration" checked={choice === 'switch'} onChange={() => setChoice('switch')} className="mt-1" />
+              <div>
+                <div className="font-medium text-sm">Switch without copying</div>
+                <div className="text-xs text-gray-500">
+                  Use what {STORAGE_LABELS[to]} already has. Your current data stays in {STORAGE_LABELS[from]} for when you switch back.
+                </div>
+              </div>
+            </label>
+          </div>
+
+          {choice === 'copy' && !canCopy && (
+            <p className="text-sm text-amber-700 mb-3">Sign in to the backend below before copying.</p>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={handleStart}
+              disabled={choice === 'copy' && !canCopy}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {choice === 'copy' ? 'Copy and switch' : 'Switch'}
+            </button>
+            <button onClick={onCancel} className="px-4 py-2 bg-gray-200 rounded-md hover:bg-gray-300">
+              Cancel
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { Transaction, Category } from '../types';
 import { formatCurrency, formatDateEuropean } from '../utils/currency';
 import { getCategoryHierarchy } from '../utils/categoryLoader';
 import { Calendar, DollarSign, TrendingUp, CreditCard } from 'lucide-react';
+import { getSetting } from '../storage';
 
 interface SubscriptionDashboardProps {
   transactions: Transaction[];
@@ -64,7 +65,7 @@ function estimateMonthlyRecurring(transactions: Transaction[]): { amount: number
 }
 
 export function SubscriptionDashboard({ transactions, categories }: SubscriptionDashboardProps) {
-  const userCurrency = localStorage.getItem('default-currency') || 'USD';
+  const userCurrency = getSetting('default-currency', 'USD');
   const formatAmount = (value: number) => formatCurrency(value, userCurrency);
 
   // Group transactions by payee within subscription categories
@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react';
+import { GitMerge, X } from 'lucide-react';
+import { useToast } from '../context/ToastContext';
+import { SyncConflict, getSyncConflicts, resolveSyncConflict } from '../storage';
+
+interface SyncConflictDialogProps {
+  onClose: () => void;
+  /** At least one conflict was settled, so the ledger on the server changed */
+  onResolved: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  date: 'Date',
+  payee: 'Payee',
+  amount: 'Amount',
+  category: 'Category',
+  tags: 'Tags',
+  description: 'Description',
+  account: 'Account',
+  isHidden: 'Hidden',
+  isSaving: 'Saving',
+};
+
+function formatValue(field: string, value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (field === 'date') return new Date(value as string).toLocaleDateString();
+  if (Array.isArray(value)) return value.length ? value.join(', ') : '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function SyncConflictDialog({ onClose, onResolved }: SyncConflictDialogProps) {
+  const showToast = useToast();
+  const [conflicts, setConflicts] = useState<SyncConflict[] | null>(null);
+  // Per clashing field of the conflict on screen: true keeps this device's edit
+  const [keepMine, setKeepMine] = useState<Record<string, boolean>>({});
+  const [resolvedAny, setResolvedAny] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    getSyncConflicts()
+      .then(loaded => loaded.length > 0 ? setConflicts(loaded) : onClose())
+      .catch(error => {
+        console.error('Failed to read sync conflicts:', error);
+        onClose();
+      });
+  }, [onClose]);
+
+  const conflict = conflicts?.[0];
+
+  useEffect(() => {
+    if (conflict) setKeepMine(Object.fromEntries(conflict.fields.map(f => [f.field, true])));
+  }, [conflict]);
+
+  const close = () => {
+    if (resolvedAny) onResolved();
+    onClose();
+  };
+
+  const handleApply = async () => {
+    if (!conflict) return;
+    setBusy(true);
+    try {
+      await resolveSyncConflict(conflict.seq, conflict.fields.filter(f => keepMine[f.field]).map(f => f.field));
+      const remaining = conflicts!.slice(1);
+      if (remaining.length === 0) {
+        onResolved();
+        onClose();
+        return;
+      }
+      setResolvedAny(true);
+      setConflicts(remaining);
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error);
+      showToast('Failed to save your choice. Try again.', 'error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!conflict) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[85vh] overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center gap-3">
+            <GitMerge size={24} className="text-amber-600" />
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Edit Conflict</h2>
+              <p className="text-sm text-gray-500">
+                {conflict.transaction.payee} • {conflict.transaction.date.toLocaleDateString()}
+                {conflicts!.length > 1 && <> • {conflicts!.length - 1} more after this</>}
+              </p>
+            </div>
+          </div>
+          <button onClick={close} className="p-2 text-gray-400 hover:text-gray-600 rounded-md">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto px-6 py-4">
+          <p className="text-sm text-gray-600 mb-4">
+            This transaction was changed on the server after you edited it here. Choose which value to keep for each field.
+          </p>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-gray-500">
+                <th className="py-2 pr-4 font-medium">Field</th>
+                <th className="py-2 pr-4 font-medium">Your edit</th>
+                <th className="py-2 font-medium">On the server</th>
+              </tr>
+            </thead>
+            <tbody>
+              {conflict.fields.map(({ field, mine, theirs }) => (
+                <tr key={field} className="border-b last:border-0">
+                  <td className="py-2 pr-4 font-medium text-gray-700">{FIELD_LABELS[field] ?? field}</td>
+                  <td className="py-2 pr-4">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="radio"
+                        name={`conflict-${field}`}
+                        checked={keepMine[field] ?? true}
+                        onChange={() => setKeepMine(prev => ({ ...prev, [field]: true }))}
+                      />
+                      {formatValue(field, mine)}
+                    </label>
+                  </td>
+                  <td className="py-2">
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="radio"
+                        name={`conflict-${field}`}
+                        checked={keepMine[field] === false}
+                        onChange={() => setKeepMine(prev => ({ ...prev, [field]: false }))}
+                      />
+                      {formatValue(field, theirs)}
+                    </label>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-end gap-2 p-6 border-t">
+          <button onClick={close} disabled={busy} className="px-4 py-2 bg-gray-200 rounded-md hover:bg-gray-300">
+            Decide later
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={busy}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {busy ? 'Saving…' : 'Keep selected values'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
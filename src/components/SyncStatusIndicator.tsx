@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, Cloud, CloudOff, RefreshCw, UserX } from 'lucide-react';
+import { SyncStatus, subscribeSyncStatus, flushOutbox } from '../storage';
+import { SyncConflictDialog } from './SyncConflictDialog';
+
+interface SyncStatusIndicatorProps {
+  /** Conflicts were settled; reload the ledger to show the outcome */
+  onResolved: () => void;
+}
+
+/** Backend mode's outbox in the nav bar: pending writes, offline retries and conflicts to settle. */
+export function SyncStatusIndicator({ onResolved }: SyncStatusIndicatorProps) {
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+  const [showConflicts, setShowConflicts] = useState(false);
+
+  useEffect(() => subscribeSyncStatus(setStatus), []);
+
+  const closeConflicts = useCallback(() => setShowConflicts(false), []);
+
+  if (!status) return null;
+
+  const waiting = `${status.pending.toLocaleString()} change${status.pending === 1 ? '' : 's'}`;
+  const { icon: Icon, label, title, className, onClick } =
+    status.conflicts > 0 ? {
+      icon: AlertTriangle,
+      label: `${status.conflicts} conflict${status.conflicts === 1 ? '' : 's'}`,
+      title: 'Edits that clash with newer changes on the server. Click to choose what to keep.',
+      className: 'text-amber-700 bg-amber-50 hover:bg-amber-100',
+      onClick: () => setShowConflicts(true),
+    } : status.state === 'signed-out' ? {
+      icon: UserX,
+      label: 'Signed out',
+      title: 'Sign in to the backend in Settings to sync.',
+      className: 'text-gray-500',
+      onClick: undefined,
+    } : status.state === 'offline' ? {
+      icon: CloudOff,
+      label: `Offline • ${waiting}`,
+      title: 'The server is unreachable. Changes are kept and retried; click to retry now.',
+      className: 'text-red-600 hover:bg-red-50',
+      onClick: () => void flushOutbox(),
+    } : status.state === 'syncing' || status.pending > 0 ? {
+      icon: RefreshCw,
+      label: `Syncing ${waiting}`,
+      title: 'Sending changes to the server',
+      className: 'text-blue-600',
+      onClick: undefined,
+    } : {
+      icon: Cloud,
+      label: 'Synced',
+      title: 'All changes are saved on the server',
+      className: 'text-gray-500',
+      onClick: undefined,
+    };
+
+  return (
+    <>
+      <button
+        onClick={onClick}
+        disabled={!onClick}
+        title={title}
+        className={`px-3 py-2 rounded-md text-sm flex items-center gap-2 disabled:cursor-default ${className}`}
+      >
+        <Icon size={16} className={Icon === RefreshCw ? 'animate-spin' : undefined} />
+        {label}
+      </button>
+      {showConflicts && <SyncConflictDialog onClose={closeConflicts} onResolved={onResolved} />}
+    </>
+  );
+}
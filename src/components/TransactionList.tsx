@@ -1,12 +1,16 @@
 import { useState, useCallback, useMemo, useDeferredValue } from 'react';
 import { useToast } from '../context/ToastContext';
 import { Transaction, Category } from '../types';
-import { Tag, X, PiggyBank, CheckSquare, Square, Edit2, ChevronLeft, ChevronRight, ArrowUpDown, ArrowUp, ArrowDown, Brain, Zap, EyeOff, Eye } from 'lucide-react';
+import { Tag, X, PiggyBank, CheckSquare, Square, Edit2, ChevronLeft, ChevronRight, ArrowUpDown, ArrowUp, ArrowDown, Brain, Zap, EyeOff, Eye, Download, Scissors } from 'lucide-react';
 import { formatCurrency, COMMON_CURRENCIES, formatDateEuropean } from '../utils/currency';
 import { applyRenamingRules, getRenamingRules, addRenamingRule, batchAddRenamingRules, extractPayeePattern, escapeRegex } from '../utils/payeeRules';
 import { batchSmartCategorizeOptimized, batchAddCategoryRules, normalizePayeeName } from '../utils/smartCategorization';
+import { toQif } from '../utils/qif';
+import { isSplit, mainSplitCategory } from '../utils/splits';
 import { DateRangePicker } from './DateRangePicker';
 import { CategorySelect } from './CategorySelect';
+import { SplitTransactionDialog } from './SplitTransactionDialog';
+import { getSetting } from '../storage';
 
 interface TransactionListProps {
   transactions: Transaction[];
@@ -27,6 +31,7 @@ export function TransactionList({ transactions, categories, onUpdate, onBulkUpda
   const [currentPage, setCurrentPage] = useState(1);
   const [editingPayee, setEditingPayee] = useState<string | null>(null);
   const [editPayeeValue, setEditPayeeValue] = useState('');
+  const [splitting, setSplitting] = useState<Transaction | null>(null);
   const [showRuleDialog, setShowRuleDialog] = useState<{ payee: string; category?: string; hasRule?: boolean } | null>(null);
   const [sortField, setSortField] = useState<'date' | 'payee' | 'amount'>('date');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
@@ -91,6 +96,24 @@ export function TransactionList({ transactions, categories, onUpdate, onBulkUpda
       });
   }, [withDisplayNames, deferredFilter, sortField, sortDirection, showUncategorizedOnly, dateRange]);
 
+  // Exports exactly what the list shows, with renamed payees
+  const handleExportQif = () => {
+    try {
+      const qif = toQif(filtered.map(({ displayPayee, ...t }) => ({ ...t, payee: displayPayee })), categories);
+      const blob = new Blob([qif], { type: 'application/qif' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'transactions.qif';
+      a.click();
+      URL.revokeObjectURL(url);
+      showToast(`Exported ${filtered.length.toLocaleString()} transactions.`, 'success');
+    } catch (error) {
+      console.error('Error exporting QIF:', error);
+      showToast('Error exporting transactions to QIF.', 'error');
+    }
+  };
+
   const totalPages = Math.ceil(filtered.length / ITEMS_PER_PAGE);
   const paginatedTransactions = useMemo(() => {
     const start = (currentPage - 1) * ITEMS_PER_PAGE;
@@ -196,7 +219,7 @@ export function TransactionList({ transactions, categories, onUpdate, onBulkUpda
     }
   }, [selectedIds, onBulkUpdate]);
 
-  const defaultCurrency = localStorage.getItem('default-currency') || 'USD';
+  const defaultCurrency = getSetting('default-currency', 'USD');
 
   const handleSort = useCallback((field: 'date' | 'payee' | 'amount') => {
     if (sortField === field) {
@@ -446,14 +469,37 @@ export function TransactionList({ transactions, categories, onUpdate, onBulkUpda
           </select>
         </div>
         <div className="px-2 py-2 w-[180px]">
-          <CategorySelect
-            value={txn.category || ''}
-            categories={categories}
-            onChange={(val) => handleCategoryChange(txn.id, val)}
-          />
-          {category?.isSubscription && (
-            <div className="text-xs text-purple-600 mt-1">📅 Subscription</div>
+          {isSplit(txn) ? (
+            <button
+              onClick={() => setSplitting(txn)}
+              className="w-full flex items-center gap-1 border rounded px-2 py-1 text-sm text-left hover:bg-gray-100"
+              title={txn.splits!.map(s => `${s.category || 'Uncategorized'}: ${formatCurrency(s.amount, txn.currency || defaultCurrency)}`).join('\n')}
+            >
+              <Scissors size={14} className="text-gray-500 flex-shrink-0" />
+              <span className="truncate">Split ({txn.splits!.length})</span>
+            </button>
+          ) : (
+            <CategorySelect
+              value={txn.category || ''}
+              categories={categories}
+              onChange={(val) => handleCategoryChange(txn.id, val)}
+            />
           )}
+          <div className="flex items-center justify-between mt-1">
+            {category?.isSubscription && !isSplit(txn) ? (
+              <span className="text-xs text-purple-600">📅 Subscription</span>
+            ) : <span />}
+            {!isSplit(txn) && (
+              <button
+                onClick={() => setSplitting(txn)}
+                className="text-xs text-gray-400 hover:text-blue-600 flex items-center gap-0.5"
+                title="Split across categories"
+              >
+                <Scissors size={12} />
+                Split
+              </button>
+            )}
+          </div>
         </div>
         <div className="px-2 py-2 w-[180px]">
           <div className="flex flex-wrap gap-1 items-center">
@@ -563,6 +609,15 @@ export function TransactionList({ transactions, categories, onUpdate, onBulkUpda
             <Brain size={16} />
             {isProcessingSmartCategorization ? 'Processing...' : 'Smart Categorize'}
           </button>
+          <button
+            onClick={handleExportQif}
+            disabled={filtered.length === 0}
+            className="flex items-center gap-2 px-3 py-2 rounded-md text-sm border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            title="Download the transactions shown here as a QIF file for desktop finance apps"
+          >
+            <Download size={16} />
+            Export QIF
+          </button>
           <input
             type="text"
             placeholder="Filter transactions..."
@@ -826,6 +881,11 @@ export function TransactionList({ transactions, categories, onUpdate, onBulkUpda
                             </div>
                           </div>
                           <div className="flex items-center gap-2">
+                            {suggestion.method === 'learned' && (
+                              <span className="text-xs text-purple-600" title="Predicted from how you categorized similar transactions">
+                                Learned
+                              </span>
+                            )}
                             <span className="px-2 py-1 bg-blue-100 text-blue-700 rounded text-sm">
                               {suggestion.suggestedCategory}
                             </span>
@@ -852,6 +912,20 @@ export function TransactionList({ transactions, categories, onUpdate, onBulkUpda
         </div>
       )}
 
+      {splitting && (
+        <SplitTransactionDialog
+          transaction={splitting}
+          categories={categories}
+          currency={splitting.currency || defaultCurrency}
+          onSave={(splits) => {
+            // An empty list is stored as such: the backend merges updates, so an absent field wouldn't clear it
+            onUpdate(splitting.id, splits.length ? { splits, category: mainSplitCategory(splits) } : { splits: [] });
+            setSplitting(null);
+          }}
+          onClose={() => setSplitting(null)}
+        />
+      )}
+
       {/* Pattern Rule Dialog */}
       {showRuleDialog && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
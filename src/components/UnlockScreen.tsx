@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { WrongPassphraseError } from '../storage';
+
+interface UnlockScreenProps {
+  /** Resolves once unlocked; rejects with WrongPassphraseError on a bad passphrase */
+  onUnlock: (passphrase: string) => Promise<void>;
+}
+
+export function UnlockScreen({ onUnlock }: UnlockScreenProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || busy) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await onUnlock(passphrase);
+    } catch (err) {
+      console.error('Failed to unlock:', err);
+      setError(err instanceof WrongPassphraseError ? 'Wrong passphrase. Try again.' : 'Could not open the local database.');
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-8 w-full max-w-sm">
+        <div className="flex flex-col items-center text-center mb-6">
+          <div className="p-3 bg-blue-100 rounded-full mb-3">
+            <Lock size={24} className="text-blue-600" />
+          </div>
+          <h1 className="text-xl font-bold text-gray-900">Where Money Go?</h1>
+          <p className="text-sm text-gray-500 mt-1">Your local data is encrypted. Enter your passphrase to unlock it.</p>
+        </div>
+
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          autoFocus
+          autoComplete="current-password"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md mb-3"
+        />
+        {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+        <button
+          type="submit"
+          disabled={!passphrase || busy}
+          className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {busy ? 'Unlocking…' : 'Unlock'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -1,73 +1,513 @@
-import { Transaction, Category } from '../types';
+import { Transaction, Category, ImportBatch } from '../types';
+import { AnalyticsQuery, ProcessedData } from '../types/interactive-analytics';
+import * as indexedDB from './indexedDB';
 
 let backendUrl = 'http://localhost:3001';
 
 export function setBackendUrl(url: string) {
+  // Settings passes the URL in whenever it opens; the sync state only belongs to another server
+  if (url === backendUrl) return;
   backendUrl = url;
+  session = undefined;
+  resetSync();
 }
 
-export async function saveTransactions(transactions: Transaction[]): Promise<void> {
-  const response = await fetch(`${backendUrl}/api/transactions`, {
+export class UnauthorizedError extends Error {
+  constructor() {
+    super('Sign in to the backend');
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export type ConnectionStatus = 'connected' | 'unauthorized' | 'unreachable';
+
+export interface BackendAccount {
+  username: string;
+  household: {
+    id: number;
+    name: string;
+    inviteCode: string;
+    members: string[];
+  };
+}
+
+interface BackendSession {
+  token: string;
+  username: string;
+}
+
+// Tokens are kept per server URL, so switching servers doesn't send one server's token to another
+const SESSIONS_KEY = 'backend-sessions';
+
+// Session for the current URL; undefined until first read, since this module also loads in workers
+let session: BackendSession | null | undefined;
+
+function readSessions(): Record<string, BackendSession> {
+  try {
+    return JSON.parse(localStorage.getItem(SESSIONS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function currentSession(): BackendSession | null {
+  if (session === undefined) session = readSessions()[backendUrl] ?? null;
+  return session;
+}
+
+function storeSession(next: BackendSession | null) {
+  const sessions = readSessions();
+  if (next) sessions[backendUrl] = next;
+  else delete sessions[backendUrl];
+  localStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+  session = next;
+  resetSync();
+}
+
+/** fetch against the backend with the session token; a 401 forgets the token and throws UnauthorizedError. */
+async function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const token = currentSession()?.token;
+  const headers = new Headers(init.headers);
+  if (token) headers.set('Authorization', `Bearer ${token}`);
+  const response = await fetch(`${backendUrl}${path}`, { ...init, headers });
+  if (response.status === 401) {
+    if (token) storeSession(null);
+    throw new UnauthorizedError();
+  }
+  return response;
+}
+
+async function errorMessage(response: Response, fallback: string): Promise<string> {
+  try {
+    return (await response.json()).error ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/** The signed-in username for the current backend, if any. */
+export function getSessionUser(): string | null {
+  return currentSession()?.username ?? null;
+}
+
+export async function login(username: string, password: string): Promise<void> {
+  const response = await fetch(`${backendUrl}/api/auth/login`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(transactions.map(t => ({
-      ...t,
-      date: t.date instanceof Date ? t.date.toISOString() : t.date,
-    }))),
+    body: JSON.stringify({ username, password }),
   });
-  if (!response.ok) throw new Error('Failed to save transactions');
+  if (!response.ok) throw new Error(await errorMessage(response, 'Failed to sign in'));
+  storeSession(await response.json());
+}
+
+/** Create an account; without an invite code only the server's first account, or any when it allows open registration. */
+export async function register(username: string, password: string, inviteCode?: string, householdName?: string): Promise<void> {
+  const response = await fetch(`${backendUrl}/api/auth/register`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password, inviteCode: inviteCode || undefined, householdName: householdName || undefined }),
+  });
+  if (!response.ok) throw new Error(await errorMessage(response, 'Failed to create the account'));
+  storeSession(await response.json());
+}
+
+export async function logout(): Promise<void> {
+  try {
+    await apiFetch('/api/auth/logout', { method: 'POST' });
+  } catch (error) {
+    // The token is forgotten either way; an unreachable server just keeps it until it expires
+    console.warn('Failed to end the session on the server:', error);
+  }
+  storeSession(null);
+}
+
+export async function getAccount(): Promise<BackendAccount> {
+  const response = await apiFetch('/api/auth/me');
+  if (!response.ok) throw new Error('Failed to fetch the account');
+  return response.json();
+}
+
+/** Replace the household's invite code; the old one stops working. */
+export async function rotateInviteCode(): Promise<string> {
+  const response = await apiFetch('/api/household/invite', { method: 'POST' });
+  if (!response.ok) throw new Error('Failed to create an invite code');
+  return (await response.json()).inviteCode;
+}
+
+// Last known server state of the ledger, kept in step with the change feed. Saves are diffed against it,
+// so only changed rows are pushed, and loads only fetch what changed since `revision`. Writes still in the
+// outbox are already applied here. `rowRevisions` is the revision each row was last written at, which edits
+// are checked against.
+let synced = new Map<string, Transaction>();
+let rowRevisions = new Map<string, number>();
+let revision = 0;
+
+// Rows per upsert/delete request, to keep bodies well below the server's size limit
+const CHUNK_SIZE = 1000;
+
+function resetSync() {
+  synced = new Map();
+  rowRevisions = new Map();
+  revision = 0;
+}
+
+function serialize(t: Transaction) {
+  return { ...t, date: t.date instanceof Date ? t.date.toISOString() : t.date };
+}
+
+// Key order differs between rows built here and rows from the server, so compare with sorted keys
+function fingerprint(t: Transaction): string {
+  const json = serialize(t);
+  return JSON.stringify(json, Object.keys(json).sort());
+}
+
+function deserialize(t: Transaction & { date: string }): Transaction {
+  return { ...t, date: new Date(t.date) };
+}
+
+// Writes go to a durable outbox first and are sent from there in order, so an edit made while the server
+// is unreachable is kept and retried instead of lost. Entries belong to the server and user they were made
+// with and wait while someone else is signed in.
+
+/** A backend write waiting to be sent. */
+export interface OutboxEntry {
+  seq?: number; // assigned by IndexedDB, in queue order
+  server: string;
+  username: string;
+  method: 'POST' | 'PATCH' | 'DELETE';
+  path: string;
+  body?: unknown;
+  // Transactions the write stamps with a new revision
+  transactionIds?: string[];
+  // Edits of one transaction: the row's revision and the edited fields' values when the edit was made
+  baseRevision?: number;
+  base?: Record<string, unknown>;
+  // The server's row after someone else changed the same fields; the entry waits for the user to choose
+  conflict?: { revision: number; transaction: Record<string, unknown> };
+  attempts: number;
+}
+
+type NewOutboxEntry = Pick<OutboxEntry, 'method' | 'path' | 'body' | 'transactionIds' | 'baseRevision' | 'base'>;
+
+export interface SyncStatus {
+  state: 'synced' | 'syncing' | 'offline' | 'signed-out';
+  pending: number;
+  conflicts: number;
+}
+
+/** An edit that clashed with a newer server version, field by field. */
+export interface SyncConflict {
+  seq: number;
+  transaction: Transaction; // as it is on the server
+  fields: Array<{ field: string; mine: unknown; theirs: unknown }>;
+}
+
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+let syncState: SyncStatus['state'] = 'synced';
+let flushing: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | undefined;
+let watchingOnline = false;
+const syncListeners = new Set<(status: SyncStatus) => void>();
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Dates become ISO strings and undefined fields disappear, as they do on the way to the server
+const toJson = <T>(value: T): Record<string, unknown> => JSON.parse(JSON.stringify(value));
+
+// Edited fields that someone else changed on the server in the meantime, to something other than our value
+function clashingFields(entry: OutboxEntry, theirs: Record<string, unknown>): string[] {
+  const updates = entry.body as Record<string, unknown>;
+  return Object.keys(updates).filter(field =>
+    !sameValue(theirs[field], entry.base?.[field]) && !sameValue(theirs[field], updates[field]));
+}
+
+function isMine(entry: OutboxEntry): boolean {
+  return entry.server === backendUrl && entry.username === currentSession()?.username;
+}
+
+async function myOutbox(): Promise<OutboxEntry[]> {
+  return (await indexedDB.getOutbox()).filter(isMine);
+}
+
+async function publishSyncStatus() {
+  if (syncListeners.size === 0) return;
+  const entries = currentSession() ? await myOutbox() : [];
+  const conflicts = entries.filter(e => e.conflict).length;
+  const status: SyncStatus = {
+    state: currentSession() ? syncState : 'signed-out',
+    pending: entries.length - conflicts,
+    conflicts,
+  };
+  for (const listener of syncListeners) listener(status);
+}
+
+/** Call `listener` with the outbox's state now and whenever it changes; returns the unsubscribe function. */
+export function subscribeSyncStatus(listener: (status: SyncStatus) => void): () => void {
+  syncListeners.add(listener);
+  void publishSyncStatus();
+  return () => {
+    syncListeners.delete(listener);
+  };
+}
+
+async function enqueue(entries: NewOutboxEntry[]): Promise<void> {
+  const username = currentSession()?.username;
+  if (!username) throw new UnauthorizedError();
+  if (entries.length === 0) return;
+  await indexedDB.putOutboxEntries(entries.map(e => ({ ...e, server: backendUrl, username, attempts: 0 })));
+  void flushOutbox();
+}
+
+function scheduleRetry(attempts: number) {
+  clearTimeout(retryTimer);
+  retryTimer = setTimeout(() => void flushOutbox(), Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS));
+  if (!watchingOnline && typeof window !== 'undefined') {
+    // No point waiting out the backoff once the browser is back online
+    window.addEventListener('online', () => void flushOutbox());
+    watchingOnline = true;
+  }
+}
+
+// Someone else wrote the row since `entry` was made. If none of the edited fields clash, the edit is simply
+// re-sent against the new revision; otherwise it waits for the user.
+async function handleConflict(entry: OutboxEntry, response: Response): Promise<void> {
+  const current: { revision: number; transaction: Record<string, unknown> } = await response.json();
+  await indexedDB.putOutboxEntries([clashingFields(entry, current.transaction).length > 0
+    ? { ...entry, conflict: current }
+    : { ...entry, baseRevision: current.revision, base: current.transaction }]);
+}
+
+// Send entries oldest first until the outbox is empty, the server is unreachable, or the session is gone.
+// A rejected write (4xx) is dropped, since sending it again would fail the same way.
+async function drainOutbox(): Promise<void> {
+  clearTimeout(retryTimer);
+  for (;;) {
+    const entry = currentSession() ? (await myOutbox()).find(e => !e.conflict) : undefined;
+    if (!entry) {
+      syncState = 'synced';
+      return;
+    }
+    syncState = 'syncing';
+    void publishSyncStatus();
+
+    // null: the server couldn't be reached
+    let response: Response | null = null;
+    try {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (entry.baseRevision !== undefined) headers['If-Match'] = String(entry.baseRevision);
+      response = await apiFetch(entry.path, {
+        method: entry.method,
+        headers,
+        body: entry.body === undefined ? undefined : JSON.stringify(entry.body),
+      });
+    } catch (error) {
+      if (error instanceof UnauthorizedError) return;
+    }
+
+    if (response?.ok) {
+      const { revision: written } = await response.json();
+      for (const id of entry.transactionIds ?? []) rowRevisions.set(id, written);
+      await indexedDB.deleteOutboxEntry(entry.seq!);
+    } else if (response?.status === 409 && entry.baseRevision !== undefined) {
+      await handleConflict(entry, response);
+    } else if (response && response.status < 500) {
+      console.error(`Dropping rejected write ${entry.method} ${entry.path}: HTTP ${response.status}`);
+      await indexedDB.deleteOutboxEntry(entry.seq!);
+    } else {
+      await indexedDB.putOutboxEntries([{ ...entry, attempts: entry.attempts + 1 }]);
+      syncState = 'offline';
+      scheduleRetry(entry.attempts + 1);
+      return;
+    }
+  }
+}
+
+/** Try to send everything queued now; resolves when done or stuck, never rejects. */
+export function flushOutbox(): Promise<void> {
+  flushing ??= drainOutbox()
+    .catch(error => console.error('Failed to flush the outbox:', error))
+    .finally(() => {
+      flushing = null;
+      void publishSyncStatus();
+    });
+  return flushing;
+}
+
+/** Writes of the signed-in user still waiting to be sent, including conflicts. */
+export async function countPendingWrites(): Promise<number> {
+  return (await myOutbox()).length;
+}
+
+export async function getSyncConflicts(): Promise<SyncConflict[]> {
+  return (await myOutbox()).filter(e => e.conflict).map(e => {
+    const theirs = e.conflict!.transaction;
+    return {
+      seq: e.seq!,
+      transaction: deserialize(theirs as unknown as Transaction & { date: string }),
+      fields: clashingFields(e, theirs).map(field => ({ field, mine: (e.body as Record<string, unknown>)[field], theirs: theirs[field] })),
+    };
+  });
+}
+
+/**
+ * Settle a conflict: the edit is re-sent against the server's current version with the clashing fields in
+ * `keepMine` and its other fields; the rest of the clashing fields keep the server's values.
+ */
+export async function resolveSyncConflict(seq: number, keepMine: string[]): Promise<void> {
+  const entry = (await myOutbox()).find(e => e.seq === seq);
+  if (!entry?.conflict) return;
+  const dropped = new Set(clashingFields(entry, entry.conflict.transaction).filter(field => !keepMine.includes(field)));
+  const updates = Object.fromEntries(Object.entries(entry.body as Record<string, unknown>).filter(([field]) => !dropped.has(field)));
+
+  if (Object.keys(updates).length === 0) {
+    await indexedDB.deleteOutboxEntry(seq);
+  } else {
+    await indexedDB.putOutboxEntries([{
+      ...entry,
+      body: updates,
+      baseRevision: entry.conflict.revision,
+      base: entry.conflict.transaction,
+      conflict: undefined,
+    }]);
+  }
+  await flushOutbox();
+}
+
+/**
+ * Make the server's ledger match `transactions` by pushing only the difference from the last synced state:
+ * new and changed rows are upserted, missing ones deleted. Rows another tab added since our last load are
+ * not in `synced`, so they are left alone rather than deleted.
+ */
+export async function saveTransactions(transactions: Transaction[]): Promise<void> {
+  const incomingIds = new Set(transactions.map(t => t.id));
+  await pushTransactions(transactions, Array.from(synced.keys()).filter(id => !incomingIds.has(id)));
+}
+
+/**
+ * Upsert the rows of `transactions` that are new or changed since the last synced state, and nothing else:
+ * rows missing from it stay on the server. For writes that aren't the whole ledger, like a mirror of local saves.
+ */
+export async function upsertTransactions(transactions: Transaction[]): Promise<void> {
+  await pushTransactions(transactions, []);
+}
+
+async function pushTransactions(transactions: Transaction[], deletes: string[]): Promise<void> {
+  const changed = transactions.filter(t => {
+    const previous = synced.get(t.id);
+    return !previous || fingerprint(previous) !== fingerprint(t);
+  });
+  const upserts = changed.map(serialize);
+
+  const entries: NewOutboxEntry[] = [];
+  for (let i = 0; i < upserts.length; i += CHUNK_SIZE) {
+    const chunk = upserts.slice(i, i + CHUNK_SIZE);
+    entries.push({ method: 'POST', path: '/api/transactions/upsert', body: chunk, transactionIds: chunk.map(t => t.id) });
+  }
+  for (let i = 0; i < deletes.length; i += CHUNK_SIZE) {
+    entries.push({ method: 'POST', path: '/api/transactions/delete', body: deletes.slice(i, i + CHUNK_SIZE) });
+  }
+  await enqueue(entries);
+  // `revision` stays put: the next load fetches these rows back along with anything other clients wrote
+  for (const t of changed) synced.set(t.id, t);
+  for (const id of deletes) synced.delete(id);
 }
 
 export async function getTransactions(): Promise<Transaction[]> {
-  const response = await fetch(`${backendUrl}/api/transactions`);
-  if (!response.ok) throw new Error('Failed to fetch transactions');
-  const data = await response.json();
-  return data.map((t: Transaction & { date: string }) => ({
-    ...t,
-    date: new Date(t.date),
-  }));
+  await flushOutbox();
+  let changes: {
+    revision: number;
+    upserted: Array<Transaction & { date: string }>;
+    revisions: Record<string, number>;
+    deleted: string[];
+  };
+  try {
+    const response = await apiFetch(`/api/transactions/changes?since=${revision}`);
+    if (!response.ok) throw new Error('Failed to fetch transactions');
+    changes = await response.json();
+  } catch (error) {
+    // Offline after a load: keep working from the last known state plus the queued edits
+    if (revision > 0 && !(error instanceof UnauthorizedError)) {
+      console.warn('Using the cached ledger:', error);
+      return Array.from(synced.values());
+    }
+    throw error;
+  }
+  // A full load replaces the cache, which also drops rows deleted before the server kept tombstones
+  if (revision === 0) synced = new Map();
+  for (const t of changes.upserted) synced.set(t.id, deserialize(t));
+  for (const [id, written] of Object.entries(changes.revisions)) rowRevisions.set(id, written);
+  for (const id of changes.deleted) synced.delete(id);
+  revision = changes.revision;
+  // Edits still queued, e.g. waiting on a conflict, keep showing
+  for (const entry of await myOutbox()) {
+    const previous = entry.method === 'PATCH' ? synced.get(entry.transactionIds![0]) : undefined;
+    if (previous) synced.set(previous.id, deserialize({ ...serialize(previous), ...(entry.body as object) } as Transaction & { date: string }));
+  }
+  return Array.from(synced.values());
 }
 
 export async function deleteTransaction(id: string): Promise<void> {
-  const response = await fetch(`${backendUrl}/api/transactions/${id}`, {
-    method: 'DELETE',
-  });
-  if (!response.ok) throw new Error('Failed to delete transaction');
+  await enqueue([{ method: 'DELETE', path: `/api/transactions/${encodeURIComponent(id)}` }]);
+  synced.delete(id);
 }
 
 export async function clearTransactions(): Promise<void> {
-  const response = await fetch(`${backendUrl}/api/transactions`, {
-    method: 'DELETE',
-  });
-  if (!response.ok) throw new Error('Failed to clear transactions');
+  await enqueue([{ method: 'DELETE', path: '/api/transactions' }]);
+  synced.clear();
 }
 
 export async function saveCategories(categories: Category[]): Promise<void> {
-  const response = await fetch(`${backendUrl}/api/categories`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(categories),
-  });
-  if (!response.ok) throw new Error('Failed to save categories');
+  await enqueue([{ method: 'POST', path: '/api/categories', body: categories }]);
 }
 
 export async function getCategories(): Promise<Category[]> {
-  const response = await fetch(`${backendUrl}/api/categories`);
+  await flushOutbox();
+  const response = await apiFetch('/api/categories');
   if (!response.ok) throw new Error('Failed to fetch categories');
   return response.json();
 }
 
+export async function getSettings(): Promise<Record<string, unknown>> {
+  await flushOutbox();
+  const response = await apiFetch('/api/settings');
+  if (!response.ok) throw new Error('Failed to fetch settings');
+  return response.json();
+}
+
+export async function saveSettings(settings: Record<string, unknown>): Promise<void> {
+  await enqueue([{ method: 'POST', path: '/api/settings', body: settings }]);
+}
+
+/** Queue edits of several transactions; each is checked against the revision it was made on. */
+export async function updateTransactions(patches: Array<{ id: string; updates: Partial<Transaction> }>): Promise<void> {
+  await enqueue(patches.map(({ id, updates }): NewOutboxEntry => {
+    // The server merges a patch into the row, so a cleared field has to be sent as null to clear it there
+    const body = toJson(Object.fromEntries(Object.entries(updates).map(([field, value]) => [field, value ?? null])));
+    const current = toJson(synced.get(id) ?? {});
+    return {
+      method: 'PATCH',
+      path: `/api/transactions/${encodeURIComponent(id)}`,
+      body,
+      transactionIds: [id],
+      baseRevision: rowRevisions.get(id),
+      base: Object.fromEntries(Object.keys(body).map(field => [field, current[field]])),
+    };
+  }));
+  for (const { id, updates } of patches) {
+    const previous = synced.get(id);
+    if (previous) synced.set(id, { ...previous, ...updates });
+  }
+}
+
 export async function updateTransaction(id: string, updates: Partial<Transaction>): Promise<void> {
-  const response = await fetch(`${backendUrl}/api/transactions/${id}`, {
-    method: 'PATCH',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(updates),
-  });
-  if (!response.ok) throw new Error('Failed to update transaction');
+  return updateTransactions([{ id, updates }]);
 }
 
 export async function checkDuplicates(transactionIds: string[]): Promise<Set<string>> {
-  const response = await fetch(`${backendUrl}/api/transactions/check-duplicates`, {
+  await flushOutbox();
+  const response = await apiFetch('/api/transactions/check-duplicates', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(transactionIds),
@@ -77,11 +517,67 @@ export async function checkDuplicates(transactionIds: string[]): Promise<Set<str
   return new Set(data);
 }
 
-export async function testConnection(): Promise<boolean> {
+export async function saveImportBatch(batch: ImportBatch): Promise<void> {
+  await enqueue([{
+    method: 'POST',
+    path: '/api/import-batches',
+    body: { ...batch, importedAt: batch.importedAt instanceof Date ? batch.importedAt.toISOString() : batch.importedAt },
+  }]);
+}
+
+export async function getImportBatches(): Promise<ImportBatch[]> {
+  await flushOutbox();
+  const response = await apiFetch('/api/import-batches');
+  if (!response.ok) throw new Error('Failed to fetch import batches');
+  const data = await response.json();
+  return data.map((b: ImportBatch & { importedAt: string }) => ({
+    ...b,
+    importedAt: new Date(b.importedAt),
+  }));
+}
+
+export async function deleteImportBatch(id: string): Promise<void> {
+  await enqueue([{ method: 'DELETE', path: `/api/import-batches/${encodeURIComponent(id)}` }]);
+  for (const [txnId, t] of synced) {
+    if (t.importBatchId === id) synced.delete(txnId);
+  }
+}
+
+/** Run an interactive analytics query on the server; `raw` holds at most `query.limit` rows (1000 by default). */
+export async function queryAnalytics(query: AnalyticsQuery): Promise<ProcessedData> {
+  await flushOutbox();
+  const response = await apiFetch('/api/query', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    // Month groupings follow the browser's time zone, as they do when processed locally
+    body: JSON.stringify({ query, utcOffsetMinutes: -new Date().getTimezoneOffset() }),
+  });
+  if (!response.ok) throw new Error('Failed to run analytics query');
+  const data = await response.json();
+  return {
+    ...data,
+    raw: data.raw.map(deserialize),
+    metadata: {
+      ...data.metadata,
+      dateRange: { ...data.metadata.dateRange, start: new Date(data.metadata.dateRange.start), end: new Date(data.metadata.dateRange.end) },
+    },
+  };
+}
+
+/** Whether the server answers, and if so whether the stored session is accepted. */
+export async function testConnection(): Promise<ConnectionStatus> {
   try {
     const response = await fetch(`${backendUrl}/api/health`);
-    return response.ok;
+    if (!response.ok) return 'unreachable';
   } catch {
-    return false;
+    return 'unreachable';
+  }
+  if (!currentSession()) return 'unauthorized';
+  try {
+    await getAccount();
+    return 'connected';
+  } catch (error) {
+    if (error instanceof UnauthorizedError) return 'unauthorized';
+    return 'unreachable';
   }
 }
@@ -0,0 +1,80 @@
+// Passphrase-based encryption for the local database: PBKDF2 turns the passphrase into an AES-GCM key,
+// and every encrypted record carries its own random IV.
+
+// OWASP's 2023 recommendation for PBKDF2-HMAC-SHA256; stored with the key so it can be raised later
+export const PBKDF2_ITERATIONS = 600_000;
+
+// Encrypted under the key when it is created, so a wrong passphrase is caught before any record is read
+const VERIFIER_TEXT = 'where-money-go';
+
+export interface EncryptedValue {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+/** How the key is derived, and proof of the passphrase; stored next to the data it protects. */
+export interface KeyInfo {
+  salt: Uint8Array;
+  iterations: number;
+  verifier: EncryptedValue;
+  autoLockMinutes: number; // 0 never locks; kept here because it is needed before unlocking
+}
+
+export class StorageLockedError extends Error {
+  constructor() {
+    super('The local database is locked');
+    this.name = 'StorageLockedError';
+  }
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('Wrong passphrase');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: salt as BufferSource, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+export async function encryptJson(key: CryptoKey, value: unknown): Promise<EncryptedValue> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(JSON.stringify(value)));
+  return { iv, data };
+}
+
+export async function decryptJson<T>(key: CryptoKey, value: EncryptedValue): Promise<T> {
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: value.iv as BufferSource }, key, value.data);
+  return JSON.parse(decoder.decode(data));
+}
+
+/** A new key for `passphrase`, with a fresh salt, and the info needed to derive it again. */
+export async function createKey(passphrase: string, autoLockMinutes: number): Promise<{ key: CryptoKey; info: KeyInfo }> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const verifier = await encryptJson(key, VERIFIER_TEXT);
+  return { key, info: { salt, iterations: PBKDF2_ITERATIONS, verifier, autoLockMinutes } };
+}
+
+/** Derive the key from `passphrase`, or throw WrongPassphraseError. */
+export async function openKey(passphrase: string, info: KeyInfo): Promise<CryptoKey> {
+  const key = await deriveKey(passphrase, info.salt, info.iterations);
+  try {
+    // AES-GCM authenticates, so decrypting with the wrong key fails outright
+    if (await decryptJson<string>(key, info.verifier) === VERIFIER_TEXT) return key;
+  } catch {
+    // Fall through
+  }
+  throw new WrongPassphraseError();
+}
@@ -1,4 +1,5 @@
-import { Transaction, Category, StorageType } from '../types';
+import { Transaction, Category, StorageType, ImportBatch } from '../types';
+import { AnalyticsQuery, ProcessedData } from '../types/interactive-analytics';
 import * as indexedDB from './indexedDB';
 import * as backend from './backend';
 
@@ -16,7 +17,33 @@ export function setBackendUrl(url: string) {
   backend.setBackendUrl(url);
 }
 
+// With mirroring on, every write to the active storage is repeated in the other one, so it stays a full copy.
+// Mirror writes run one after another in the background and never fail the original write; a failure is
+// logged, and copying the data over again catches the other storage up.
+let mirroring = false;
+let mirrorQueue: Promise<void> = Promise.resolve();
+
+export function setMirroring(enabled: boolean) {
+  mirroring = enabled;
+}
+
+export function isMirroring(): boolean {
+  return mirroring;
+}
+
+function mirror(what: string, toLocal: () => Promise<void>, toBackend: () => Promise<void>) {
+  if (!mirroring) return;
+  const write = storageType === 'backend' ? toLocal : toBackend;
+  mirrorQueue = mirrorQueue.then(write).catch(error => console.error(`Failed to mirror ${what} to the other storage:`, error));
+}
+
 export async function saveTransactions(transactions: Transaction[]): Promise<void> {
+  // Local saves never delete, so neither does their backend copy: rows other clients added stay, and deletions
+  // reach it through the mirrored deletes. It catches up with the server first so only changed rows are sent.
+  mirror('transactions', () => indexedDB.saveTransactions(transactions), async () => {
+    await backend.getTransactions();
+    await backend.upsertTransactions(transactions);
+  });
   if (storageType === 'backend') {
     return backend.saveTransactions(transactions);
   }
@@ -24,6 +51,7 @@ export async function saveTransactions(transactions: Transaction[]): Promise<voi
 }
 
 export async function patchTransaction(id: string, updates: Partial<Transaction>): Promise<void> {
+  mirror('an edit', () => indexedDB.patchTransaction(id, updates), () => backend.updateTransaction(id, updates));
   if (storageType === 'backend') {
     return backend.updateTransaction(id, updates);
   }
@@ -31,9 +59,9 @@ export async function patchTransaction(id: string, updates: Partial<Transaction>
 }
 
 export async function patchTransactions(patches: Array<{ id: string; updates: Partial<Transaction> }>): Promise<void> {
+  mirror('edits', () => indexedDB.patchTransactions(patches), () => backend.updateTransactions(patches));
   if (storageType === 'backend') {
-    await Promise.all(patches.map(({ id, updates }) => backend.updateTransaction(id, updates)));
-    return;
+    return backend.updateTransactions(patches);
   }
   return indexedDB.patchTransactions(patches);
 }
@@ -46,6 +74,7 @@ export async function getTransactions(): Promise<Transaction[]> {
 }
 
 export async function deleteTransaction(id: string): Promise<void> {
+  mirror('a deletion', () => indexedDB.deleteTransaction(id), () => backend.deleteTransaction(id));
   if (storageType === 'backend') {
     return backend.deleteTransaction(id);
   }
@@ -53,6 +82,7 @@ export async function deleteTransaction(id: string): Promise<void> {
 }
 
 export async function clearTransactions(): Promise<void> {
+  mirror('clearing the ledger', () => indexedDB.clearTransactions(), () => backend.clearTransactions());
   if (storageType === 'backend') {
     return backend.clearTransactions();
   }
@@ -60,6 +90,7 @@ export async function clearTransactions(): Promise<void> {
 }
 
 export async function saveCategories(categories: Category[]): Promise<void> {
+  mirror('categories', () => indexedDB.saveCategories(categories), () => backend.saveCategories(categories));
   if (storageType === 'backend') {
     return backend.saveCategories(categories);
   }
@@ -80,5 +111,159 @@ export async function checkDuplicates(transactionIds: string[]): Promise<Set<str
   return indexedDB.checkDuplicates(transactionIds);
 }
 
-export { testConnection } from './backend';
+export async function saveImportBatch(batch: ImportBatch): Promise<void> {
+  mirror('an import batch', () => indexedDB.saveImportBatch(batch), () => backend.saveImportBatch(batch));
+  if (storageType === 'backend') {
+    return backend.saveImportBatch(batch);
+  }
+  return indexedDB.saveImportBatch(batch);
+}
+
+export async function getImportBatches(): Promise<ImportBatch[]> {
+  if (storageType === 'backend') {
+    return backend.getImportBatches();
+  }
+  return indexedDB.getImportBatches();
+}
+
+/** Roll back an import: deletes the batch and only the transactions it created. */
+export async function deleteImportBatch(id: string): Promise<void> {
+  mirror('an import rollback', () => indexedDB.deleteImportBatch(id), () => backend.deleteImportBatch(id));
+  if (storageType === 'backend') {
+    return backend.deleteImportBatch(id);
+  }
+  return indexedDB.deleteImportBatch(id);
+}
+
+// Settings are read synchronously all over the UI, so the active storage's settings are cached here:
+// `loadSettings` fills the cache at startup and after a storage switch, and `setSetting` writes through.
+// Values are kept as JSON text so every read returns a fresh copy, as it did when they lived in localStorage.
+let settingsCache = new Map<string, string>();
+
+// The backend keeps learned models with its settings, under this prefix. They aren't settings, so they stay out of
+// the cache and with it out of backups and migrations; `loadSettings` sets them aside here.
+const MODEL_SETTING_PREFIX = 'model:';
+let backendModels = new Map<string, unknown>();
+
+// Settings that used to live in localStorage; the first load moves them into the active storage
+const LEGACY_SETTING_KEYS = [
+  'category-rules',
+  'payee-renaming-rules',
+  'budgets',
+  'saved-column-mappings',
+  'savings-goal',
+  'default-currency',
+  'duplicate-detection',
+  'duplicate-date-window',
+  'interactive-analytics-dashboards',
+  'interactive-analytics-metadata',
+];
+
+// Most legacy values are JSON; the currency and duplicate settings were stored as plain strings
+function parseLegacySetting(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+async function saveSettings(settings: Record<string, unknown>): Promise<void> {
+  mirror('settings', () => indexedDB.saveSettings(settings), () => backend.saveSettings(settings));
+  if (storageType === 'backend') {
+    return backend.saveSettings(settings);
+  }
+  return indexedDB.saveSettings(settings);
+}
+
+/** Load the active storage's settings into the cache, migrating any left in localStorage. */
+export async function loadSettings(): Promise<void> {
+  const loaded = storageType === 'backend' ? await backend.getSettings() : await indexedDB.getSettings();
+  const stored: Record<string, unknown> = {};
+  backendModels = new Map();
+  for (const [key, value] of Object.entries(loaded)) {
+    if (key.startsWith(MODEL_SETTING_PREFIX)) backendModels.set(key.slice(MODEL_SETTING_PREFIX.length), value);
+    else stored[key] = value;
+  }
+
+  // A value already in storage wins over a stale copy in this browser
+  const migrated: Record<string, unknown> = {};
+  for (const key of LEGACY_SETTING_KEYS) {
+    const legacy = localStorage.getItem(key);
+    if (legacy !== null && !(key in stored)) migrated[key] = parseLegacySetting(legacy);
+  }
+  if (Object.keys(migrated).length > 0) await saveSettings(migrated);
+  for (const key of LEGACY_SETTING_KEYS) localStorage.removeItem(key);
+
+  settingsCache = new Map(Object.entries({ ...stored, ...migrated }).map(([key, value]) => [key, JSON.stringify(value)]));
+}
+
+export function getSetting<T>(key: string, fallback: T): T {
+  const value = settingsCache.get(key);
+  return value === undefined ? fallback : JSON.parse(value);
+}
+
+/** Update the cache right away and persist in the background; a failed write is logged, not thrown. */
+export async function setSetting(key: string, value: unknown): Promise<void> {
+  settingsCache.set(key, JSON.stringify(value));
+  try {
+    await saveSettings({ [key]: JSON.parse(settingsCache.get(key)!) });
+  } catch (error) {
+    console.error(`Failed to save setting "${key}":`, error);
+  }
+}
+
+/** Every cached setting, keyed by name. */
+export function getAllSettings(): Record<string, unknown> {
+  return Object.fromEntries(Array.from(settingsCache, ([key, value]) => [key, JSON.parse(value)]));
+}
+
+/** Write several settings at once; unlike `setSetting`, a failed write is thrown and leaves the cache as it was. */
+export async function setSettings(settings: Record<string, unknown>): Promise<void> {
+  await saveSettings(settings);
+  for (const [key, value] of Object.entries(settings)) settingsCache.set(key, JSON.stringify(value));
+}
+
+// Models learned from the ledger. Locally they are stored next to it, encrypted when it is; the backend's ledger is
+// plaintext, and so are its models. They are derived data, so they are never mirrored.
+
+/** A model saved with `saveModel` to the active storage, or null when there is none. */
+export async function getModel<T>(name: string): Promise<T | null> {
+  if (storageType === 'backend') {
+    // Read along with the settings by the last `loadSettings`
+    return (backendModels.get(name) as T | undefined) ?? null;
+  }
+  return indexedDB.getModel<T>(name);
+}
+
+export async function saveModel(name: string, value: unknown): Promise<void> {
+  if (storageType === 'backend') {
+    return backend.saveSettings({ [MODEL_SETTING_PREFIX + name]: value });
+  }
+  return indexedDB.saveModel(name, value);
+}
+
+/** Backend only: local mode runs queries in the browser with `dataProcessor`. */
+export async function queryAnalytics(query: AnalyticsQuery): Promise<ProcessedData> {
+  if (storageType !== 'backend') {
+    throw new Error('Analytics queries need the backend');
+  }
+  return backend.queryAnalytics(query);
+}
+
+// Accounts exist on the backend only
+export {
+  testConnection, login, register, logout, getSessionUser, getAccount, rotateInviteCode, UnauthorizedError,
+} from './backend';
+export type { ConnectionStatus, BackendAccount } from './backend';
+// Backend writes are queued and sent in the background; these report on and settle the queue
+export { subscribeSyncStatus, flushOutbox, countPendingWrites, getSyncConflicts, resolveSyncConflict } from './backend';
+export type { SyncStatus, SyncConflict } from './backend';
 export { initDB } from './indexedDB';
+// Encryption at rest covers the local database only
+export {
+  getEncryptionStatus, unlock as unlockStorage, lock as lockStorage,
+  enableEncryption, changePassphrase, disableEncryption, setAutoLockMinutes,
+} from './indexedDB';
+export type { EncryptionStatus } from './indexedDB';
+export { StorageLockedError, WrongPassphraseError } from './encryption';
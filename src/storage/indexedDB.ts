@@ -1,10 +1,31 @@
-import { Transaction, Category } from '../types';
+import { Transaction, Category, ImportBatch } from '../types';
+import {
+  KeyInfo, StorageLockedError, createKey, openKey, encryptJson, decryptJson, EncryptedValue,
+} from './encryption';
+import type { OutboxEntry } from './backend';
 
 const DB_NAME = 'where-money-go';
-const DB_VERSION = 1;
+const DB_VERSION = 5;
 
 let db: IDBDatabase | null = null;
 
+// Encryption of the transactions, categories and models stores. `keyInfo` mirrors the `keys` store (null: the
+// ledger is plaintext, undefined: not read yet); `ledgerKey` is only set while unlocked.
+let keyInfo: KeyInfo | null | undefined;
+let ledgerKey: CryptoKey | null = null;
+
+const KEY_ID = 'ledger';
+// Encrypted, the category list is a single record under this name, so category names aren't visible either
+const ENCRYPTED_CATEGORIES = '__encrypted__';
+
+type StoredTransaction = Omit<Transaction, 'date'> & { date: string };
+
+// Models learned from the ledger, by name; encrypted like the ledger, since they are made of its payees and descriptions
+type StoredModel = { name: string; value: unknown } | (EncryptedValue & { name: string });
+
+// Encrypted transactions keep only the id and the (random) import batch id in the clear, so rollbacks still use the index
+type EncryptedTransaction = EncryptedValue & { id: string; importBatchId?: string };
+
 export async function initDB(): Promise<IDBDatabase> {
   if (db) return db;
 
@@ -19,6 +40,7 @@ export async function initDB(): Promise<IDBDatabase> {
 
     request.onupgradeneeded = (event) => {
       const database = (event.target as IDBOpenDBRequest).result;
+      const upgradeTx = (event.target as IDBOpenDBRequest).transaction!;
 
       // Transactions store
       if (!database.objectStoreNames.contains('transactions')) {
@@ -29,6 +51,15 @@ export async function initDB(): Promise<IDBDatabase> {
         txnStore.createIndex('category', 'category');
       }
 
+      // v2: link transactions to the import batch they came from
+      const txnStore = upgradeTx.objectStore('transactions');
+      if (!txnStore.indexNames.contains('importBatchId')) {
+        txnStore.createIndex('importBatchId', 'importBatchId');
+      }
+      if (!database.objectStoreNames.contains('importBatches')) {
+        database.createObjectStore('importBatches', { keyPath: 'id' });
+      }
+
       // Categories store
       if (!database.objectStoreNames.contains('categories')) {
         database.createObjectStore('categories', { keyPath: 'name' });
@@ -38,21 +69,105 @@ export async function initDB(): Promise<IDBDatabase> {
       if (!database.objectStoreNames.contains('settings')) {
         database.createObjectStore('settings', { keyPath: 'key' });
       }
+
+      // v3: key derivation info when the ledger is encrypted
+      if (!database.objectStoreNames.contains('keys')) {
+        database.createObjectStore('keys', { keyPath: 'id' });
+      }
+
+      // v4: backend writes waiting to be sent
+      if (!database.objectStoreNames.contains('outbox')) {
+        database.createObjectStore('outbox', { keyPath: 'seq', autoIncrement: true });
+      }
+
+      // v5: models learned from the ledger
+      if (!database.objectStoreNames.contains('models')) {
+        database.createObjectStore('models', { keyPath: 'name' });
+      }
     };
   });
 }
 
+async function getKeyInfo(): Promise<KeyInfo | null> {
+  if (keyInfo !== undefined) return keyInfo;
+  const database = await initDB();
+  const tx = database.transaction('keys', 'readonly');
+
+  return new Promise((resolve, reject) => {
+    const request = tx.objectStore('keys').get(KEY_ID);
+    request.onsuccess = () => {
+      keyInfo = request.result ?? null;
+      resolve(keyInfo!);
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// The key to read and write the ledger with: null when it is plaintext; throws while locked
+async function currentKey(): Promise<CryptoKey | null> {
+  if (!(await getKeyInfo())) return null;
+  if (!ledgerKey) throw new StorageLockedError();
+  return ledgerKey;
+}
+
+async function encodeTransaction(txn: Transaction, key: CryptoKey | null): Promise<StoredTransaction | EncryptedTransaction> {
+  const stored = {
+    ...txn,
+    date: txn.date instanceof Date ? txn.date.toISOString() : txn.date,
+  };
+  if (!key) return stored;
+  const encrypted = await encryptJson(key, stored);
+  return txn.importBatchId ? { id: txn.id, importBatchId: txn.importBatchId, ...encrypted } : { id: txn.id, ...encrypted };
+}
+
+async function decodeTransaction(record: StoredTransaction | EncryptedTransaction, key: CryptoKey | null): Promise<Transaction> {
+  const stored = key ? await decryptJson<StoredTransaction>(key, record as EncryptedTransaction) : record as StoredTransaction;
+  return { ...stored, date: new Date(stored.date) };
+}
+
+async function readTransactions(key: CryptoKey | null): Promise<Transaction[]> {
+  const database = await initDB();
+  const tx = database.transaction('transactions', 'readonly');
+  const store = tx.objectStore('transactions');
+
+  const records = await new Promise<Array<StoredTransaction | EncryptedTransaction>>((resolve, reject) => {
+    const request = store.getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return Promise.all(records.map(record => decodeTransaction(record, key)));
+}
+
+async function readCategories(key: CryptoKey | null): Promise<Category[]> {
+  const database = await initDB();
+  const tx = database.transaction('categories', 'readonly');
+  const store = tx.objectStore('categories');
+
+  const records = await new Promise<Array<Category | (EncryptedValue & { name: string })>>((resolve, reject) => {
+    const request = store.getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  if (!key) return records as Category[];
+  const encrypted = records.find(r => r.name === ENCRYPTED_CATEGORIES) as (EncryptedValue & { name: string }) | undefined;
+  return encrypted ? decryptJson<Category[]>(key, encrypted) : [];
+}
+
+async function encodeCategories(categories: Category[], key: CryptoKey | null): Promise<Array<Category | (EncryptedValue & { name: string })>> {
+  if (!key) return categories;
+  return [{ name: ENCRYPTED_CATEGORIES, ...await encryptJson(key, categories) }];
+}
+
 export async function saveTransactions(transactions: Transaction[]): Promise<void> {
+  const key = await currentKey();
+  // Encrypt first: an IndexedDB transaction commits as soon as it is left idle across an await
+  const records = await Promise.all(transactions.map(txn => encodeTransaction(txn, key)));
   const database = await initDB();
   const tx = database.transaction('transactions', 'readwrite');
   const store = tx.objectStore('transactions');
 
-  for (const txn of transactions) {
-    const toStore = {
-      ...txn,
-      date: txn.date instanceof Date ? txn.date.toISOString() : txn.date,
-    };
-    store.put(toStore);
+  for (const record of records) {
+    store.put(record);
   }
 
   return new Promise((resolve, reject) => {
@@ -63,6 +178,7 @@ export async function saveTransactions(transactions: Transaction[]): Promise<voi
 
 /** Update a single transaction without touching the rest. */
 export async function patchTransaction(id: string, updates: Partial<Transaction>): Promise<void> {
+  if (await currentKey()) return patchTransactions([{ id, updates }]);
   const database = await initDB();
   const tx = database.transaction('transactions', 'readwrite');
   const store = tx.objectStore('transactions');
@@ -82,9 +198,42 @@ export async function patchTransaction(id: string, updates: Partial<Transaction>
   });
 }
 
+// Encrypted records can't be patched inside one IndexedDB transaction, since decrypting awaits:
+// read them, patch in memory, then write them back
+async function patchEncryptedTransactions(patches: Array<{ id: string; updates: Partial<Transaction> }>, key: CryptoKey): Promise<void> {
+  const database = await initDB();
+  const readTx = database.transaction('transactions', 'readonly');
+  const readStore = readTx.objectStore('transactions');
+  const records = await Promise.all(patches.map(({ id }) => new Promise<EncryptedTransaction | undefined>((resolve, reject) => {
+    const req = readStore.get(id);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  })));
+
+  const patched = await Promise.all(patches.map(async ({ updates }, i) => {
+    const record = records[i];
+    if (!record) return undefined;
+    const existing = await decodeTransaction(record, key);
+    return encodeTransaction({ ...existing, ...updates }, key);
+  }));
+
+  const tx = database.transaction('transactions', 'readwrite');
+  const store = tx.objectStore('transactions');
+  for (const record of patched) {
+    if (record) store.put(record);
+  }
+
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
 /** Update multiple transactions in a single IndexedDB transaction. */
 export async function patchTransactions(patches: Array<{ id: string; updates: Partial<Transaction> }>): Promise<void> {
   if (patches.length === 0) return;
+  const key = await currentKey();
+  if (key) return patchEncryptedTransactions(patches, key);
   const database = await initDB();
   const tx = database.transaction('transactions', 'readwrite');
   const store = tx.objectStore('transactions');
@@ -107,21 +256,7 @@ export async function patchTransactions(patches: Array<{ id: string; updates: Pa
 }
 
 export async function getTransactions(): Promise<Transaction[]> {
-  const database = await initDB();
-  const tx = database.transaction('transactions', 'readonly');
-  const store = tx.objectStore('transactions');
-
-  return new Promise((resolve, reject) => {
-    const request = store.getAll();
-    request.onsuccess = () => {
-      const results = request.result.map((txn: Transaction & { date: string }) => ({
-        ...txn,
-        date: new Date(txn.date),
-      }));
-      resolve(results);
-    };
-    request.onerror = () => reject(request.error);
-  });
+  return readTransactions(await currentKey());
 }
 
 export async function deleteTransaction(id: string): Promise<void> {
@@ -138,9 +273,10 @@ export async function deleteTransaction(id: string): Promise<void> {
 
 export async function clearTransactions(): Promise<void> {
   const database = await initDB();
-  const tx = database.transaction('transactions', 'readwrite');
-  const store = tx.objectStore('transactions');
-  store.clear();
+  const tx = database.transaction(['transactions', 'importBatches'], 'readwrite');
+  tx.objectStore('transactions').clear();
+  // With no transactions left there is nothing for the import history to roll back
+  tx.objectStore('importBatches').clear();
 
   return new Promise((resolve, reject) => {
     tx.oncomplete = () => resolve();
@@ -149,13 +285,14 @@ export async function clearTransactions(): Promise<void> {
 }
 
 export async function saveCategories(categories: Category[]): Promise<void> {
+  const records = await encodeCategories(categories, await currentKey());
   const database = await initDB();
   const tx = database.transaction('categories', 'readwrite');
   const store = tx.objectStore('categories');
 
   store.clear();
-  for (const cat of categories) {
-    store.put(cat);
+  for (const record of records) {
+    store.put(record);
   }
 
   return new Promise((resolve, reject) => {
@@ -165,18 +302,13 @@ export async function saveCategories(categories: Category[]): Promise<void> {
 }
 
 export async function getCategories(): Promise<Category[]> {
-  const database = await initDB();
-  const tx = database.transaction('categories', 'readonly');
-  const store = tx.objectStore('categories');
-
-  return new Promise((resolve, reject) => {
-    const request = store.getAll();
-    request.onsuccess = () => resolve(request.result);
-    request.onerror = () => reject(request.error);
-  });
+  return readCategories(await currentKey());
 }
 
 export async function getTransactionsByAccount(account: string): Promise<Transaction[]> {
+  const key = await currentKey();
+  // Encrypted records have no readable account to index
+  if (key) return (await readTransactions(key)).filter(t => t.account === account);
   const database = await initDB();
   const tx = database.transaction('transactions', 'readonly');
   const store = tx.objectStore('transactions');
@@ -196,6 +328,11 @@ export async function getTransactionsByAccount(account: string): Promise<Transac
 }
 
 export async function checkDuplicates(transactionIds: string[]): Promise<Set<string>> {
+  const key = await currentKey();
+  if (key) {
+    const wanted = new Set(transactionIds);
+    return new Set((await readTransactions(key)).flatMap(t => (t.transactionId && wanted.has(t.transactionId) ? [t.transactionId] : [])));
+  }
   const database = await initDB();
   const tx = database.transaction('transactions', 'readonly');
   const store = tx.objectStore('transactions');
@@ -220,3 +357,245 @@ export async function checkDuplicates(transactionIds: string[]): Promise<Set<str
     if (transactionIds.length === 0) resolve(existing);
   });
 }
+
+export async function saveImportBatch(batch: ImportBatch): Promise<void> {
+  const database = await initDB();
+  const tx = database.transaction('importBatches', 'readwrite');
+  tx.objectStore('importBatches').put({
+    ...batch,
+    importedAt: batch.importedAt instanceof Date ? batch.importedAt.toISOString() : batch.importedAt,
+  });
+
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function getImportBatches(): Promise<ImportBatch[]> {
+  const database = await initDB();
+  const tx = database.transaction('importBatches', 'readonly');
+  const store = tx.objectStore('importBatches');
+
+  return new Promise((resolve, reject) => {
+    const request = store.getAll();
+    request.onsuccess = () => {
+      const results = request.result.map((batch: ImportBatch & { importedAt: string }) => ({
+        ...batch,
+        importedAt: new Date(batch.importedAt),
+      }));
+      resolve(results);
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Remove a batch record and every transaction it imported, leaving everything else untouched. */
+export async function deleteImportBatch(id: string): Promise<void> {
+  const database = await initDB();
+  const tx = database.transaction(['transactions', 'importBatches'], 'readwrite');
+  const index = tx.objectStore('transactions').index('importBatchId');
+
+  return new Promise((resolve, reject) => {
+    const request = index.openKeyCursor(IDBKeyRange.only(id));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        tx.objectStore('transactions').delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+    tx.objectStore('importBatches').delete(id);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/** A model saved with `saveModel`, or null when there is none. */
+export async function getModel<T>(name: string): Promise<T | null> {
+  const key = await currentKey();
+  const database = await initDB();
+  const tx = database.transaction('models', 'readonly');
+
+  const record = await new Promise<StoredModel | undefined>((resolve, reject) => {
+    const request = tx.objectStore('models').get(name);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  if (!record) return null;
+  return key ? decryptJson<T>(key, record as EncryptedValue & { name: string }) : (record as { value: T }).value;
+}
+
+export async function saveModel(name: string, value: unknown): Promise<void> {
+  const key = await currentKey();
+  const record: StoredModel = key ? { name, ...await encryptJson(key, value) } : { name, value };
+  const database = await initDB();
+  const tx = database.transaction('models', 'readwrite');
+  tx.objectStore('models').put(record);
+
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+/** Every stored setting, keyed by name. */
+export async function getSettings(): Promise<Record<string, unknown>> {
+  const database = await initDB();
+  const tx = database.transaction('settings', 'readonly');
+  const store = tx.objectStore('settings');
+
+  return new Promise((resolve, reject) => {
+    const request = store.getAll();
+    request.onsuccess = () => {
+      resolve(Object.fromEntries(request.result.map((s: { key: string; value: unknown }) => [s.key, s.value])));
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Store several settings in one IndexedDB transaction. */
+export async function saveSettings(settings: Record<string, unknown>): Promise<void> {
+  const database = await initDB();
+  const tx = database.transaction('settings', 'readwrite');
+  const store = tx.objectStore('settings');
+
+  for (const [key, value] of Object.entries(settings)) {
+    store.put({ key, value });
+  }
+
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+// The backend outbox. It lives here because IndexedDB is the only storage that survives a reload; it holds
+// backend data, so it is never encrypted with the local ledger.
+
+/** Queued backend writes, oldest first. */
+export async function getOutbox(): Promise<OutboxEntry[]> {
+  const database = await initDB();
+  const tx = database.transaction('outbox', 'readonly');
+
+  return new Promise((resolve, reject) => {
+    const request = tx.objectStore('outbox').getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Append entries to the outbox, or update existing ones (those with a `seq`). */
+export async function putOutboxEntries(entries: OutboxEntry[]): Promise<void> {
+  const database = await initDB();
+  const tx = database.transaction('outbox', 'readwrite');
+  const store = tx.objectStore('outbox');
+  for (const entry of entries) store.put(entry);
+
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function deleteOutboxEntry(seq: number): Promise<void> {
+  const database = await initDB();
+  const tx = database.transaction('outbox', 'readwrite');
+  tx.objectStore('outbox').delete(seq);
+
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export interface EncryptionStatus {
+  enabled: boolean;
+  locked: boolean;
+  autoLockMinutes: number;
+}
+
+export async function getEncryptionStatus(): Promise<EncryptionStatus> {
+  const info = await getKeyInfo();
+  return { enabled: !!info, locked: !!info && !ledgerKey, autoLockMinutes: info?.autoLockMinutes ?? 0 };
+}
+
+/** Unlock the ledger; throws WrongPassphraseError. */
+export async function unlock(passphrase: string): Promise<void> {
+  const info = await getKeyInfo();
+  if (!info) return;
+  ledgerKey = await openKey(passphrase, info);
+}
+
+/** Forget the key; reads and writes of the ledger throw StorageLockedError until the next unlock. */
+export function lock(): void {
+  ledgerKey = null;
+}
+
+// Rewrite every transaction and the category list under another key (null: plaintext), with the new
+// key info in the same IndexedDB transaction, so the database never mixes records of two keys.
+// Models are dropped rather than rewritten: they are learned again from the ledger.
+async function rekey(from: CryptoKey | null, to: CryptoKey | null, info: KeyInfo | null): Promise<void> {
+  const [transactions, categories] = await Promise.all([readTransactions(from), readCategories(from)]);
+  const [transactionRecords, categoryRecords] = await Promise.all([
+    Promise.all(transactions.map(txn => encodeTransaction(txn, to))),
+    encodeCategories(categories, to),
+  ]);
+
+  const database = await initDB();
+  const tx = database.transaction(['transactions', 'categories', 'models', 'keys'], 'readwrite');
+  const transactionStore = tx.objectStore('transactions');
+  const categoryStore = tx.objectStore('categories');
+  transactionStore.clear();
+  for (const record of transactionRecords) transactionStore.put(record);
+  categoryStore.clear();
+  for (const record of categoryRecords) categoryStore.put(record);
+  tx.objectStore('models').clear();
+  if (info) tx.objectStore('keys').put({ id: KEY_ID, ...info });
+  else tx.objectStore('keys').delete(KEY_ID);
+
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+  keyInfo = info;
+  ledgerKey = to;
+}
+
+/** Encrypt the ledger under a new passphrase; it stays unlocked. */
+export async function enableEncryption(passphrase: string, autoLockMinutes: number): Promise<void> {
+  if (await getKeyInfo()) throw new Error('The local database is already encrypted');
+  const { key, info } = await createKey(passphrase, autoLockMinutes);
+  await rekey(null, key, info);
+}
+
+/** Re-encrypt every record under a new passphrase (and a new salt). */
+export async function changePassphrase(currentPassphrase: string, newPassphrase: string): Promise<void> {
+  const info = await getKeyInfo();
+  if (!info) throw new Error('The local database is not encrypted');
+  const oldKey = await openKey(currentPassphrase, info);
+  const { key, info: newInfo } = await createKey(newPassphrase, info.autoLockMinutes);
+  await rekey(oldKey, key, newInfo);
+}
+
+/** Decrypt the ledger back to plaintext. */
+export async function disableEncryption(passphrase: string): Promise<void> {
+  const info = await getKeyInfo();
+  if (!info) return;
+  await rekey(await openKey(passphrase, info), null, null);
+}
+
+export async function setAutoLockMinutes(minutes: number): Promise<void> {
+  const info = await getKeyInfo();
+  if (!info) return;
+  const updated = { ...info, autoLockMinutes: minutes };
+  const database = await initDB();
+  const tx = database.transaction('keys', 'readwrite');
+  tx.objectStore('keys').put({ id: KEY_ID, ...updated });
+
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+  keyInfo = updated;
+}
@@ -14,12 +14,26 @@ export interface Transaction {
   currency?: string; // Individual transaction currency override
   isSaving?: boolean; // Mark as savings transaction
   isHidden?: boolean; // Exclude from all analytics
+  importBatchId?: string; // Import batch this transaction came from
+  splits?: TransactionSplit[]; // Parts counted in place of the transaction by analytics and budgets
+}
+
+// One part of a split transaction; the parts' amounts add up to the transaction's
+export interface TransactionSplit {
+  amount: number;
+  category?: string;
+  tags?: string[];
+  note?: string;
 }
 
 export interface ColumnMapping {
   date: string;
   payee: string;
-  amount: string;
+  amount?: string; // Signed amount, or unsigned when paired with `direction`
+  debit?: string; // Money-out column, used instead of `amount`
+  credit?: string; // Money-in column, used instead of `amount`
+  direction?: string; // Column telling whether `amount` is money in or out
+  directionValues?: DirectionValues;
   transactionId?: string;
   type?: string;
   description?: string;
@@ -28,6 +42,55 @@ export interface ColumnMapping {
   reference?: string;
 }
 
+// Cell values of the direction column that mark a row as money out (debit) or money in (credit), matched case-insensitively
+export interface DirectionValues {
+  debit: string[];
+  credit: string[];
+}
+
+// Order of day, month and year in the date column; separators and two-digit years are handled by the parser
+export type DateFormat = 'YMD' | 'DMY' | 'MDY';
+
+// How a bank writes dates and numbers, stored per saved column mapping
+export interface ParseProfile {
+  dateFormat: DateFormat;
+  decimalSeparator: '.' | ',';
+  thousandsSeparator: '' | ',' | '.' | ' ' | "'";
+  negativeStyle: 'minus' | 'parentheses' | 'trailing-minus';
+}
+
+export type DuplicateDetectionMode = 'fuzzy' | 'strict' | 'off';
+
+// What to do with an incoming row that probably duplicates an existing transaction
+export type DuplicateDecision = 'keep' | 'skip' | 'merge';
+
+export type ImportFormat = 'csv' | 'xlsx' | 'xls' | 'ods' | 'ofx' | 'qif' | 'camt053' | 'mt940';
+
+// One file within a multi-file import
+export interface ImportBatchFile {
+  fileName: string;
+  format: ImportFormat;
+  mappingName?: string;
+  totalRows: number;
+  invalidCount: number;
+}
+
+// One import (a single file or a multi-file drop), kept so it can be reviewed and rolled back later
+export interface ImportBatch {
+  id: string;
+  fileName: string; // The file name, or a summary like "a.csv + 5 more" for multi-file imports
+  files?: ImportBatchFile[]; // Per-file details when more than one file was imported
+  format: ImportFormat;
+  importedAt: Date;
+  mappingName?: string; // Saved mapping used, if any
+  mapping?: ColumnMapping; // Column mapping used for CSV imports
+  totalRows: number; // Rows in the file
+  importedCount: number;
+  duplicateCount: number; // Skipped as duplicates of existing transactions
+  mergedCount?: number; // Probable duplicates merged into the existing transaction
+  invalidCount: number; // Skipped because the date or amount couldn't be parsed
+}
+
 export interface Category {
   name: string;
   color: string;
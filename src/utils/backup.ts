@@ -0,0 +1,255 @@
+// Workspace backups: one versioned JSON file holding the ledger, categories, import history and every
+// setting (rules, budgets, mappings, goals, dashboards), restorable into either storage mode.
+
+import { Transaction, Category, ImportBatch } from '../types';
+import * as storage from '../storage';
+
+const BACKUP_FORMAT = 'where-money-go-backup';
+export const BACKUP_VERSION = 2;
+
+export interface WorkspaceBackup {
+  format: typeof BACKUP_FORMAT;
+  version: typeof BACKUP_VERSION;
+  exportedAt: Date;
+  transactions: Transaction[];
+  categories: Category[];
+  importBatches: ImportBatch[];
+  settings: Record<string, unknown>; // Keyed like the settings store
+}
+
+/** Merge adds what the workspace doesn't have yet; replace makes the workspace match the backup. */
+export type RestoreMode = 'merge' | 'replace';
+
+/** The ledger and categories after a restore, for the app to show. */
+export interface RestoredWorkspace {
+  transactions: Transaction[];
+  categories: Category[];
+}
+
+export class BackupValidationError extends Error {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid backup: ${problems.slice(0, 3).join('; ')}${problems.length > 3 ? ` (and ${problems.length - 3} more)` : ''}`);
+    this.name = 'BackupValidationError';
+    this.problems = problems;
+  }
+}
+
+// List settings and the field that identifies an entry, for merging
+const COLLECTION_SETTINGS: Record<string, string> = {
+  'category-rules': 'id',
+  'payee-renaming-rules': 'id',
+  'budgets': 'id',
+  'saved-column-mappings': 'name',
+  'interactive-analytics-dashboards': 'id',
+};
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isDateString = (value: unknown) => typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+/** Build a backup of the active storage. Categories are passed in, since they may come from categories.yaml. */
+export async function createBackup(categories: Category[]): Promise<WorkspaceBackup> {
+  const [transactions, importBatches] = await Promise.all([storage.getTransactions(), storage.getImportBatches()]);
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date(),
+    transactions,
+    categories,
+    importBatches,
+    settings: storage.getAllSettings(),
+  };
+}
+
+/** Backup file contents; dates become ISO strings through their toJSON. */
+export function serializeBackup(backup: WorkspaceBackup): string {
+  return JSON.stringify(backup, null, 2);
+}
+
+// Each upgrade takes a backup of version N to version N + 1
+const UPGRADES: Record<number, (backup: Json) => Json> = {
+  // Version 1 is the dashboard-only export of DashboardStorageManager.exportConfiguration
+  1: (backup) => ({
+    format: BACKUP_FORMAT,
+    version: 2,
+    exportedAt: backup.timestamp,
+    transactions: [],
+    categories: [],
+    importBatches: [],
+    settings: {
+      'interactive-analytics-dashboards': backup.dashboards,
+      ...(isObject(backup.settings) ? { 'interactive-analytics-metadata': backup.settings } : {}),
+    },
+  }),
+};
+
+function backupVersion(backup: Json): number | undefined {
+  if (backup.format === BACKUP_FORMAT) return typeof backup.version === 'number' ? backup.version : undefined;
+  // Dashboard exports carry a semver string and no format marker
+  if (typeof backup.version === 'string' && Array.isArray(backup.dashboards)) return 1;
+  return undefined;
+}
+
+function validateSetting(key: string, value: unknown, problems: string[]) {
+  const identity = COLLECTION_SETTINGS[key];
+  if (identity) {
+    if (!Array.isArray(value)) {
+      problems.push(`settings.${key} must be a list`);
+    } else {
+      value.forEach((entry, i) => {
+        if (!isObject(entry) || typeof entry[identity] !== 'string') problems.push(`settings.${key}[${i}] needs a ${identity}`);
+      });
+    }
+    return;
+  }
+  switch (key) {
+    case 'savings-goal':
+      if (!isObject(value) || typeof value.amount !== 'number' || !['week', 'month', 'year'].includes(value.period as string)) {
+        problems.push('settings.savings-goal must have an amount and a week, month or year period');
+      }
+      break;
+    case 'default-currency':
+      if (typeof value !== 'string') problems.push('settings.default-currency must be a currency code');
+      break;
+    case 'duplicate-detection':
+      if (!['strict', 'fuzzy', 'off'].includes(value as string)) problems.push('settings.duplicate-detection must be strict, fuzzy or off');
+      break;
+    case 'duplicate-date-window':
+      if (!Number.isInteger(value) || (value as number) <= 0) problems.push('settings.duplicate-date-window must be a positive whole number');
+      break;
+  }
+}
+
+function validate(backup: Json): string[] {
+  const problems: string[] = [];
+  const list = (field: string, check: (entry: Json) => string | undefined) => {
+    const entries = backup[field];
+    if (!Array.isArray(entries)) {
+      problems.push(`${field} must be a list`);
+      return;
+    }
+    entries.forEach((entry, i) => {
+      const problem = isObject(entry) ? check(entry) : 'is not an object';
+      if (problem) problems.push(`${field}[${i}] ${problem}`);
+    });
+  };
+
+  list('transactions', (t) => {
+    if (typeof t.id !== 'string') return 'needs an id';
+    if (!isDateString(t.date)) return 'has an invalid date';
+    if (typeof t.payee !== 'string') return 'needs a payee';
+    if (typeof t.amount !== 'number' || !isFinite(t.amount)) return 'has an invalid amount';
+    if (t.tags !== undefined && (!Array.isArray(t.tags) || t.tags.some(tag => typeof tag !== 'string'))) return 'has invalid tags';
+    return undefined;
+  });
+  list('categories', (c) => (typeof c.name !== 'string' || typeof c.color !== 'string' ? 'needs a name and a color' : undefined));
+  list('importBatches', (b) => (typeof b.id !== 'string' || !isDateString(b.importedAt) ? 'needs an id and an import date' : undefined));
+
+  if (!isObject(backup.settings)) {
+    problems.push('settings must be an object');
+  } else {
+    for (const [key, value] of Object.entries(backup.settings)) validateSetting(key, value, problems);
+  }
+  return problems;
+}
+
+/** Read a backup file, upgrading older versions. Throws BackupValidationError if it doesn't match the schema. */
+export function parseBackup(content: string): WorkspaceBackup {
+  let backup: unknown;
+  try {
+    backup = JSON.parse(content);
+  } catch {
+    throw new BackupValidationError(['the file is not valid JSON']);
+  }
+  if (!isObject(backup)) throw new BackupValidationError(['the file is not a backup']);
+
+  let version = backupVersion(backup);
+  if (version !== undefined && version > BACKUP_VERSION) {
+    throw new BackupValidationError([`the backup is from a newer version of the app (format ${version})`]);
+  }
+  if (version === undefined || (version !== BACKUP_VERSION && !UPGRADES[version])) {
+    throw new BackupValidationError(['the file is not a backup']);
+  }
+  while (version < BACKUP_VERSION) {
+    backup = UPGRADES[version](backup as Json);
+    version++;
+  }
+
+  const upgraded = backup as Json;
+  const problems = validate(upgraded);
+  if (problems.length > 0) throw new BackupValidationError(problems);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date(isDateString(upgraded.exportedAt) ? upgraded.exportedAt as string : 0),
+    transactions: (upgraded.transactions as Array<Transaction & { date: string }>).map(t => ({
+      ...t,
+      tags: t.tags ?? [],
+      date: new Date(t.date),
+    })),
+    categories: upgraded.categories as Category[],
+    importBatches: (upgraded.importBatches as Array<ImportBatch & { importedAt: string }>).map(b => ({
+      ...b,
+      importedAt: new Date(b.importedAt),
+    })),
+    settings: upgraded.settings as Record<string, unknown>,
+  };
+}
+
+// Union of two lists by a key; entries already in `current` win
+function mergeBy<T>(current: T[], incoming: T[], key: (entry: T) => unknown): T[] {
+  const seen = new Set(current.map(key));
+  return [...current, ...incoming.filter(entry => !seen.has(key(entry)))];
+}
+
+function mergeSettings(current: Record<string, unknown>, incoming: Record<string, unknown>): Record<string, unknown> {
+  const merged: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(incoming)) {
+    const identity = COLLECTION_SETTINGS[key];
+    if (identity && Array.isArray(current[key])) {
+      merged[key] = mergeBy(current[key] as Json[], value as Json[], entry => entry[identity]);
+    } else if (!(key in current)) {
+      // Preferences already set here are kept
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
+
+/** Restore a backup into the active storage. `categories` is the list in use now, which isn't necessarily stored. */
+export async function restoreBackup(
+  backup: WorkspaceBackup,
+  mode: RestoreMode,
+  categories: Category[],
+): Promise<RestoredWorkspace> {
+  if (mode === 'replace') {
+    // Lists the backup doesn't have are emptied rather than left over from the old workspace
+    const emptied = Object.fromEntries(Object.keys(COLLECTION_SETTINGS).map(key => [key, []]));
+    await storage.clearTransactions();
+    await storage.saveTransactions(backup.transactions);
+    for (const batch of backup.importBatches) await storage.saveImportBatch(batch);
+    await storage.saveCategories(backup.categories);
+    await storage.setSettings({ ...emptied, ...backup.settings });
+    return { transactions: backup.transactions, categories: backup.categories };
+  }
+
+  const [currentTransactions, currentBatches] = await Promise.all([storage.getTransactions(), storage.getImportBatches()]);
+  const transactions = mergeBy(currentTransactions, backup.transactions, t => t.id);
+  const batchIds = new Set(currentBatches.map(b => b.id));
+  const mergedCategories = mergeBy(categories, backup.categories, c => c.name);
+
+  // The whole ledger is passed on, since the backend treats rows missing from a save as deleted
+  await storage.saveTransactions(transactions);
+  for (const batch of backup.importBatches) {
+    if (!batchIds.has(batch.id)) await storage.saveImportBatch(batch);
+  }
+  await storage.saveCategories(mergedCategories);
+  await storage.setSettings(mergeSettings(storage.getAllSettings(), backup.settings));
+  return { transactions, categories: mergedCategories };
+}
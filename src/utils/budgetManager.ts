@@ -1,13 +1,14 @@
 import { Budget, Transaction, Category } from '../types';
 import { getCategoryChildren } from './categoryLoader';
+import { getSetting, setSetting } from '../storage';
+import { expandSplits } from './splits';
 
 export function getBudgets(): Budget[] {
-  const saved = localStorage.getItem('budgets');
-  return saved ? JSON.parse(saved) : [];
+  return getSetting<Budget[]>('budgets', []);
 }
 
 export function saveBudgets(budgets: Budget[]): void {
-  localStorage.setItem('budgets', JSON.stringify(budgets));
+  setSetting('budgets', budgets);
 }
 
 export function addBudget(budget: Omit<Budget, 'id'>): Budget {
@@ -50,11 +51,12 @@ export function calculateBudgetProgress(
   startDate?: Date,
   endDate?: Date
 ): BudgetProgress {
-  // Filter transactions by date range based on period
-  let relevantTransactions = transactions;
+  // Filter transactions by date range based on period; split transactions count as their parts
+  const parts = expandSplits(transactions);
+  let relevantTransactions = parts;
 
   if (startDate && endDate) {
-    relevantTransactions = transactions.filter(t =>
+    relevantTransactions = parts.filter(t =>
       t.date >= startDate && t.date <= endDate
     );
   } else {
@@ -74,7 +76,7 @@ export function calculateBudgetProgress(
         break;
     }
 
-    relevantTransactions = transactions.filter(t => t.date >= start && t.date <= now);
+    relevantTransactions = parts.filter(t => t.date >= start && t.date <= now);
   }
 
   // Filter by category
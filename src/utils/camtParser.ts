@@ -0,0 +1,134 @@
+// ISO 20022 camt.053 (bank-to-customer statement) parser
+
+import { Transaction } from '../types';
+
+// Direct children by local name, so both default-namespaced and prefixed documents work
+function childElements(parent: Element, name: string): Element[] {
+  return Array.from(parent.children).filter(c => c.localName === name);
+}
+
+// Walk a path of child names, e.g. child(ntry, 'BookgDt', 'Dt')
+function child(parent: Element | undefined, ...path: string[]): Element | undefined {
+  let current = parent;
+  for (const name of path) {
+    if (!current) return undefined;
+    current = childElements(current, name)[0];
+  }
+  return current;
+}
+
+function text(parent: Element | undefined, ...path: string[]): string | undefined {
+  const value = child(parent, ...path)?.textContent?.trim();
+  return value || undefined;
+}
+
+// camt dates are either <Dt>2024-01-15</Dt> or <DtTm>2024-01-15T10:00:00</DtTm>
+function parseCamtDate(dateElement: Element | undefined): Date | undefined {
+  const value = text(dateElement, 'Dt') ?? text(dateElement, 'DtTm');
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return undefined;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+function signedAmount(amount: string | undefined, indicator: string | undefined): number {
+  const value = parseFloat(amount ?? '');
+  return indicator === 'DBIT' ? -value : value;
+}
+
+// Party names moved from <Dbtr><Nm> (camt.053.001.02) to <Dbtr><Pty><Nm> (.001.08 and later)
+function partyName(relatedParties: Element | undefined, role: 'Dbtr' | 'Cdtr'): string | undefined {
+  return text(relatedParties, role, 'Nm') ?? text(relatedParties, role, 'Pty', 'Nm');
+}
+
+function accountId(acct: Element | undefined): string | undefined {
+  return text(acct, 'Id', 'IBAN') ?? text(acct, 'Id', 'Othr', 'Id');
+}
+
+// Opening balance: OPBD, or PRCD (previous closing) when the bank doesn't send an opening one
+function openingBalance(stmt: Element): number | undefined {
+  const balances = childElements(stmt, 'Bal');
+  for (const code of ['OPBD', 'PRCD']) {
+    const bal = balances.find(b => text(b, 'Tp', 'CdOrPrtry', 'Cd') === code);
+    if (bal) return signedAmount(text(bal, 'Amt'), text(bal, 'CdtDbtInd'));
+  }
+  return undefined;
+}
+
+export function isCamtContent(content: string): boolean {
+  return /urn:iso:std:iso:20022:tech:xsd:camt\.05[234]/.test(content) || /<(\w+:)?BkToCstmrStmt\b/.test(content);
+}
+
+export function parseCamt053(content: string): Transaction[] {
+  if (!isCamtContent(content)) {
+    throw new Error('Not a camt.053 statement');
+  }
+
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid camt.053 XML');
+  }
+
+  const statements = Array.from(doc.getElementsByTagNameNS('*', 'Stmt'));
+  const now = Date.now();
+  const result: Transaction[] = [];
+
+  for (const stmt of statements) {
+    const acct = child(stmt, 'Acct');
+    const account = accountId(acct);
+    const statementCurrency = text(acct, 'Ccy');
+    let balance = openingBalance(stmt);
+
+    for (const ntry of childElements(stmt, 'Ntry')) {
+      const indicator = text(ntry, 'CdtDbtInd');
+      const bookingDate = parseCamtDate(child(ntry, 'BookgDt'));
+      const valueDate = parseCamtDate(child(ntry, 'ValDt'));
+      const date = bookingDate ?? valueDate;
+      if (!date) continue;
+
+      const entryAmount = signedAmount(text(ntry, 'Amt'), indicator);
+      const entryCurrency = child(ntry, 'Amt')?.getAttribute('Ccy') ?? statementCurrency;
+      const entryRef = text(ntry, 'AcctSvcrRef');
+      const additionalInfo = text(ntry, 'AddtlNtryInf');
+
+      // A batch entry carries one <TxDtls> per underlying payment; each becomes its own transaction
+      const details = child(ntry, 'NtryDtls') ? childElements(child(ntry, 'NtryDtls')!, 'TxDtls') : [];
+      const parts = details.length > 0 ? details : [undefined];
+
+      for (const txDtls of parts) {
+        const amount = parts.length > 1
+          ? signedAmount(text(txDtls, 'AmtDtls', 'TxAmt', 'Amt') ?? text(txDtls, 'Amt'), text(txDtls, 'CdtDbtInd') ?? indicator)
+          : entryAmount;
+        if (isNaN(amount)) continue;
+
+        // The counterparty is whoever is on the other side of the movement
+        const parties = child(txDtls, 'RltdPties');
+        const payee = amount < 0 ? partyName(parties, 'Cdtr') : partyName(parties, 'Dbtr');
+        const counterpartyAccount = accountId(child(parties, amount < 0 ? 'CdtrAcct' : 'DbtrAcct'));
+        const remittance = child(txDtls, 'RmtInf')
+          ? childElements(child(txDtls, 'RmtInf')!, 'Ustrd').map(e => e.textContent?.trim()).filter(Boolean).join(' ')
+          : undefined;
+        const endToEndId = text(txDtls, 'Refs', 'EndToEndId');
+
+        if (balance !== undefined) balance = Math.round((balance + amount) * 100) / 100;
+
+        result.push({
+          id: `txn-${now}-${result.length}`,
+          transactionId: text(txDtls, 'Refs', 'AcctSvcrRef') ?? entryRef,
+          date,
+          payee: payee || additionalInfo || remittance || counterpartyAccount || 'Unknown',
+          amount,
+          type: amount < 0 ? 'debit' : 'credit',
+          description: remittance || additionalInfo,
+          category: undefined,
+          tags: [],
+          account,
+          balance,
+          reference: endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : undefined,
+          currency: entryCurrency,
+        });
+      }
+    }
+  }
+
+  return result;
+}
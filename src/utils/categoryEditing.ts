@@ -0,0 +1,171 @@
+// Editing the category hierarchy in the app. The list operations are pure; `saveCategoryChange` persists the new
+// list and carries renames and deletions over to transactions, category rules and budgets.
+
+import { Category, Transaction } from '../types';
+import * as storage from '../storage';
+import { MAX_CATEGORY_LEVELS, getCategoryChildren, getCategoryLevel } from './categoryLoader';
+import { getCategoryRules, saveCategoryRules } from './smartCategorization';
+import { getBudgets, saveBudgets } from './budgetManager';
+
+export type CategoryChange =
+  | { type: 'rename'; from: string; to: string }
+  // `replacement` takes over the transactions, rules and budgets; without one they become uncategorized
+  | { type: 'delete'; name: string; replacement?: string };
+
+export interface CategoryUsage {
+  transactions: number;
+  rules: number;
+  budgets: number;
+}
+
+export class CategoryEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CategoryEditError';
+  }
+}
+
+// Levels below `name`: 0 for a category without children
+function subtreeDepth(name: string, categories: Category[]): number {
+  const children = categories.filter(c => c.parent === name);
+  return children.length === 0 ? 0 : 1 + Math.max(...children.map(c => subtreeDepth(c.name, categories)));
+}
+
+function checkName(name: string, categories: Category[]): string {
+  const trimmed = name.trim();
+  if (!trimmed) throw new CategoryEditError('Enter a category name');
+  if (categories.some(c => c.name.toLowerCase() === trimmed.toLowerCase())) {
+    throw new CategoryEditError(`A category named "${trimmed}" already exists`);
+  }
+  return trimmed;
+}
+
+export function canHaveChildren(name: string, categories: Category[]): boolean {
+  return getCategoryLevel(name, categories) < MAX_CATEGORY_LEVELS - 1;
+}
+
+/** Add a category; it takes its parent's color and subscription flag unless given its own. */
+export function addCategory(categories: Category[], name: string, parent?: string, color?: string): Category[] {
+  const trimmed = checkName(name, categories);
+  const parentCategory = parent ? categories.find(c => c.name === parent) : undefined;
+  if (parent && !parentCategory) throw new CategoryEditError(`There is no category "${parent}"`);
+  if (parent && !canHaveChildren(parent, categories)) {
+    throw new CategoryEditError(`Categories can be nested at most ${MAX_CATEGORY_LEVELS} levels deep`);
+  }
+  return [...categories, {
+    name: trimmed,
+    color: color ?? parentCategory?.color ?? '#6b7280',
+    parent,
+    isSubscription: parentCategory?.isSubscription ?? false,
+  }];
+}
+
+export function renameCategory(categories: Category[], from: string, to: string): Category[] {
+  const trimmed = to.trim();
+  if (trimmed === from) return categories;
+  // Changing only the case keeps the category itself out of the uniqueness check
+  checkName(trimmed, categories.filter(c => c.name !== from));
+  return categories.map(c => ({
+    ...c,
+    name: c.name === from ? trimmed : c.name,
+    parent: c.parent === from ? trimmed : c.parent,
+  }));
+}
+
+/** Move a category with its subcategories under `parent`, or to the top level without one. */
+export function moveCategory(categories: Category[], name: string, parent?: string): Category[] {
+  if (parent === name || (parent && getCategoryChildren(name, categories).some(c => c.name === parent))) {
+    throw new CategoryEditError(`"${name}" can't be moved into itself`);
+  }
+  const level = parent ? getCategoryLevel(parent, categories) + 1 : 0;
+  if (level + subtreeDepth(name, categories) >= MAX_CATEGORY_LEVELS) {
+    throw new CategoryEditError(`Categories can be nested at most ${MAX_CATEGORY_LEVELS} levels deep`);
+  }
+  return categories.map(c => c.name === name ? { ...c, parent } : c);
+}
+
+/**
+ * Change a category's own properties. A new color or subscription flag also goes to subcategories that had
+ * the old one, since categories.yaml gives subcategories their parent's unless they set their own.
+ */
+export function updateCategory(categories: Category[], name: string, updates: Pick<Partial<Category>, 'color' | 'isSubscription'>): Category[] {
+  const category = categories.find(c => c.name === name);
+  if (!category) return categories;
+  const descendants = new Set(getCategoryChildren(name, categories).map(c => c.name));
+  return categories.map(c => {
+    if (c.name === name) return { ...c, ...updates };
+    if (!descendants.has(c.name)) return c;
+    return {
+      ...c,
+      color: updates.color !== undefined && c.color === category.color ? updates.color : c.color,
+      isSubscription: updates.isSubscription !== undefined && !!c.isSubscription === !!category.isSubscription
+        ? updates.isSubscription
+        : c.isSubscription,
+    };
+  });
+}
+
+/** Remove a category; its subcategories move up to its parent. */
+export function deleteCategory(categories: Category[], name: string): Category[] {
+  const category = categories.find(c => c.name === name);
+  return categories
+    .filter(c => c.name !== name)
+    .map(c => c.parent === name ? { ...c, parent: category?.parent } : c);
+}
+
+// Whether the transaction or one of its split parts has the category
+const usesCategory = (t: Transaction, name: string) => t.category === name || !!t.splits?.some(s => s.category === name);
+
+export function getCategoryUsage(name: string, transactions: Transaction[]): CategoryUsage {
+  return {
+    transactions: transactions.filter(t => usesCategory(t, name)).length,
+    rules: getCategoryRules().filter(r => r.category === name).length,
+    budgets: getBudgets().filter(b => b.category === name).length,
+  };
+}
+
+/**
+ * Save the edited category list and, for a rename or deletion, update everything that refers to the category
+ * by name. Returns the ledger with the changes applied.
+ */
+export async function saveCategoryChange(
+  categories: Category[],
+  transactions: Transaction[],
+  change?: CategoryChange,
+): Promise<Transaction[]> {
+  await storage.saveCategories(categories);
+  if (!change) return transactions;
+
+  const from = change.type === 'rename' ? change.from : change.name;
+  const to = change.type === 'rename' ? change.to : change.replacement;
+
+  const rules = getCategoryRules();
+  if (rules.some(r => r.category === from)) {
+    saveCategoryRules(rules.map(r => {
+      if (r.category !== from) return r;
+      // A rule that did nothing but set the deleted category would now do nothing at all
+      const idle = !to && !r.tags?.length && !r.actions;
+      return { ...r, category: to ?? '', enabled: idle ? false : r.enabled };
+    }));
+  }
+
+  const budgets = getBudgets();
+  if (budgets.some(b => b.category === from)) {
+    saveBudgets(to
+      ? budgets.map(b => b.category === from ? { ...b, category: to } : b)
+      : budgets.filter(b => b.category !== from));
+  }
+
+  const patches = transactions.filter(t => usesCategory(t, from)).map(t => {
+    const updates: Partial<Transaction> = {};
+    if (t.category === from) updates.category = to;
+    if (t.splits?.some(s => s.category === from)) {
+      updates.splits = t.splits.map(s => s.category === from ? { ...s, category: to } : s);
+    }
+    return { id: t.id, updates };
+  });
+  if (patches.length === 0) return transactions;
+  await storage.patchTransactions(patches);
+  const byId = new Map(patches.map(p => [p.id, p.updates]));
+  return transactions.map(t => byId.has(t.id) ? { ...t, ...byId.get(t.id) } : t);
+}
@@ -12,6 +12,9 @@ interface YamlStructure {
   categories: YamlCategory[];
 }
 
+// Category > Subcategory > Sub-subcategory > Sub-sub-subcategory
+export const MAX_CATEGORY_LEVELS = 4;
+
 // Flatten the hierarchical YAML structure into our flat category list with parent references
 function flattenCategories(
   yamlCategories: YamlCategory[],
@@ -35,7 +38,7 @@ function flattenCategories(
     });
 
     // Recursively add children (up to 4 levels)
-    if (cat.children && level < 3) {
+    if (cat.children && level < MAX_CATEGORY_LEVELS - 1) {
       const childCategories = flattenCategories(
         cat.children,
         cat.name,
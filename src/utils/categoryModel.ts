@@ -0,0 +1,247 @@
+// A naive Bayes classifier learned from the user's own categorized transactions. Features are the words of the
+// normalized payee and the description plus an amount bucket; each counts once per transaction (binarized
+// multinomial naive Bayes, which does better than raw counts on text this short).
+// The counts are saved to storage, which encrypts them along with the ledger. What each transaction contributed
+// stays in memory: it is rebuilt from the ledger, and a checksum of it tells whether the saved counts still match.
+
+import { Transaction } from '../types';
+import { getModel, saveModel } from '../storage';
+import { normalizePayeeName } from './smartCategorization';
+
+interface ModelClass {
+  docs: number;
+  tokens: number; // Sum of `counts`
+  counts: Record<string, number>;
+}
+
+export interface CategoryModel {
+  docs: number;
+  classes: Record<string, ModelClass>;
+  vocabulary: Record<string, number>; // Feature → transactions it occurs in, across classes
+  vocabularySize: number; // Keys of `vocabulary`, kept up to date so predictions don't count them
+}
+
+export interface ModelPrediction {
+  category: string;
+  confidence: number; // 0-1
+  evidence: string[]; // The features that pointed most to `category`, for display
+}
+
+// Below this the model has too little history to say anything
+const MIN_DOCS = 20;
+// Suggestions from rules can reach 1; the model never claims to be certain
+const MAX_CONFIDENCE = 0.95;
+
+interface StoredCategoryModel {
+  model: CategoryModel;
+  checksum: number; // Of the trained entries it was learned from
+}
+
+const MODEL_NAME = 'category';
+// Training runs after every change to the ledger; the model, which can run to megabytes, is saved at most this often
+const SAVE_INTERVAL = 30_000;
+
+const model: CategoryModel = { docs: 0, classes: {}, vocabulary: {}, vocabularySize: 0 };
+// What each trained transaction contributed, `${category}\t${features}`, so edits and deletions can be undone
+const trained = new Map<string, string>();
+// Sum of the hashes of the trained entries, so it can be kept up to date one entry at a time
+let checksum = 0;
+// The checksum of a loaded model until the first training run has checked it against the ledger
+let loadedChecksum: number | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | undefined;
+
+export function getCategoryModel(): CategoryModel {
+  return model;
+}
+
+/** Forget the model, e.g. when the ledger is locked; nothing is saved until it is trained again. */
+export function resetCategoryModel(): void {
+  Object.assign(model, { docs: 0, classes: {}, vocabulary: {}, vocabularySize: 0 });
+  trained.clear();
+  checksum = 0;
+  loadedChecksum = null;
+  clearTimeout(saveTimer);
+  saveTimer = undefined;
+}
+
+/**
+ * Replace the model with the one saved to the active storage, so predictions work before the first training run.
+ * Without a saved model, or when it can't be read, the next training run learns the ledger from scratch.
+ */
+export async function loadCategoryModel(): Promise<void> {
+  resetCategoryModel();
+  try {
+    const stored = await getModel<StoredCategoryModel>(MODEL_NAME);
+    if (!stored) return;
+    Object.assign(model, stored.model);
+    loadedChecksum = stored.checksum;
+  } catch (error) {
+    console.error('Failed to load the category model:', error);
+  }
+}
+
+function scheduleSave() {
+  if (saveTimer !== undefined) return;
+  saveTimer = setTimeout(() => {
+    saveTimer = undefined;
+    // A copy, so training while the save is under way can't tear it from the checksum
+    const stored: StoredCategoryModel = { model: structuredClone(model), checksum };
+    saveModel(MODEL_NAME, stored).catch(error => console.error('Failed to save the category model:', error));
+  }, SAVE_INTERVAL);
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(w => w.length > 1 && !/^\d+$/.test(w));
+}
+
+// Half-decades of the absolute amount, by sign: 1-3, 3-10, 10-31, …
+function amountBucket(amount: number): string {
+  return `${amount < 0 ? '-' : '+'}${Math.floor(Math.log10(Math.abs(amount) + 1) * 2)}`;
+}
+
+export function featuresOf(t: Pick<Partial<Transaction>, 'payee' | 'description' | 'amount'>): string[] {
+  const features = new Set<string>();
+  if (t.payee) words(normalizePayeeName(t.payee)).forEach(w => features.add(`p:${w}`));
+  if (t.description) words(t.description).forEach(w => features.add(`d:${w}`));
+  if (t.amount !== undefined) features.add(`a:${amountBucket(t.amount)}`);
+  return [...features];
+}
+
+function learn(category: string, features: string[], weight: 1 | -1) {
+  const cls = model.classes[category] ??= { docs: 0, tokens: 0, counts: {} };
+  model.docs += weight;
+  cls.docs += weight;
+  cls.tokens += weight * features.length;
+  for (const f of features) {
+    cls.counts[f] = (cls.counts[f] ?? 0) + weight;
+    if (cls.counts[f] <= 0) delete cls.counts[f];
+    if (!model.vocabulary[f]) model.vocabularySize++;
+    model.vocabulary[f] = (model.vocabulary[f] ?? 0) + weight;
+    if (model.vocabulary[f] <= 0) {
+      delete model.vocabulary[f];
+      model.vocabularySize--;
+    }
+  }
+  if (cls.docs <= 0) delete model.classes[category];
+}
+
+// Transactions are replaced, never mutated, so an unchanged one keeps its features
+const entryCache = new WeakMap<Transaction, string>();
+
+function entryOf(t: Transaction): string {
+  let entry = entryCache.get(t);
+  if (entry === undefined) {
+    entry = `${t.category}\t${featuresOf(t).join(' ')}`;
+    entryCache.set(t, entry);
+  }
+  return entry;
+}
+
+// 32-bit FNV-1a of a trained entry and its transaction id
+function hashEntry(id: string, entry: string): number {
+  let hash = 0x811c9dc5;
+  for (const text of [id, entry]) {
+    for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+    hash = Math.imul(hash ^ 0x09, 0x01000193); // Tab between the parts
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Bring the model in step with the categorized transactions of the ledger: new ones are learned, and
+ * recategorized, edited or deleted ones are unlearned first. The first call after loading keeps the loaded model
+ * when it was learned from this very ledger and otherwise learns the ledger from scratch; later calls only apply
+ * the differences. Changes are saved in the background.
+ */
+export function trainCategoryModel(transactions: Transaction[]): void {
+  const seen = new Set<string>();
+  let changed = false;
+
+  if (loadedChecksum !== null) {
+    const entries = new Map(transactions.filter(t => t.category).map(t => [t.id, entryOf(t)]));
+    let ledgerChecksum = 0;
+    for (const [id, entry] of entries) ledgerChecksum = (ledgerChecksum + hashEntry(id, entry)) >>> 0;
+    if (ledgerChecksum === loadedChecksum && entries.size === model.docs) {
+      for (const [id, entry] of entries) trained.set(id, entry);
+      checksum = ledgerChecksum;
+    } else {
+      resetCategoryModel();
+      changed = true; // Even an empty ledger replaces the saved model
+    }
+    loadedChecksum = null;
+  }
+
+  const apply = (id: string, entry: string, weight: 1 | -1) => {
+    const [category, features] = entry.split('\t');
+    learn(category, features ? features.split(' ') : [], weight);
+    checksum = (checksum + weight * hashEntry(id, entry)) >>> 0;
+    changed = true;
+  };
+
+  for (const t of transactions) {
+    if (!t.category) continue;
+    seen.add(t.id);
+    const entry = entryOf(t);
+    const previous = trained.get(t.id);
+    if (previous === entry) continue;
+    if (previous !== undefined) apply(t.id, previous, -1);
+    apply(t.id, entry, 1);
+    trained.set(t.id, entry);
+  }
+  for (const [id, entry] of trained) {
+    if (seen.has(id)) continue;
+    apply(id, entry, -1);
+    trained.delete(id);
+  }
+
+  if (changed) scheduleSave();
+}
+
+/**
+ * The most likely category for a transaction, or null without enough history or any known feature.
+ * Naive Bayes posteriors are overconfident because the features aren't independent, so the log-likelihoods
+ * are averaged per feature before the softmax, and the result is scaled by the share of features the model
+ * has seen before.
+ */
+export function predictCategory(
+  t: Pick<Partial<Transaction>, 'payee' | 'description' | 'amount'>,
+  model: CategoryModel = getCategoryModel(),
+): ModelPrediction | null {
+  const categories = Object.keys(model.classes);
+  if (model.docs < MIN_DOCS || categories.length < 2) return null;
+
+  const features = featuresOf(t);
+  const known = features.filter(f => model.vocabulary[f]);
+  if (known.length === 0) return null;
+
+  const { vocabularySize } = model;
+  const featureLog = (cls: ModelClass, f: string) => Math.log(((cls.counts[f] ?? 0) + 1) / (cls.tokens + vocabularySize));
+  const scores = categories.map(category => {
+    const cls = model.classes[category];
+    const likelihood = known.reduce((sum, f) => sum + featureLog(cls, f), 0) / known.length;
+    return likelihood + Math.log((cls.docs + 1) / (model.docs + categories.length)) / known.length;
+  });
+
+  const best = scores.indexOf(Math.max(...scores));
+  const total = scores.reduce((sum, s) => sum + Math.exp(s - scores[best]), 0);
+  const posterior = 1 / total;
+  const category = categories[best];
+  const cls = model.classes[category];
+
+  // How much more likely each feature is under `category` than under the other classes together
+  const rest = categories.filter(c => c !== category).map(c => model.classes[c]);
+  const restTokens = rest.reduce((sum, c) => sum + c.tokens, 0);
+  const lift = (f: string) => featureLog(cls, f)
+    - Math.log((rest.reduce((sum, c) => sum + (c.counts[f] ?? 0), 0) + 1) / (restTokens + vocabularySize));
+  const evidence = known
+    .filter(f => lift(f) > 0)
+    .sort((a, b) => lift(b) - lift(a))
+    .slice(0, 3)
+    .map(f => f.startsWith('a:') ? 'amount' : f.slice(2));
+
+  return {
+    category,
+    confidence: Math.min(MAX_CONFIDENCE, posterior * (known.length / features.length)),
+    evidence,
+  };
+}
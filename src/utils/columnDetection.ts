@@ -0,0 +1,205 @@
+// Automatic column-mapping detection from CSV headers and sample values
+
+import { ColumnMapping } from '../types';
+
+export type DetectableField = 'date' | 'payee' | 'amount' | 'balance' | 'account';
+
+export interface ColumnDetection {
+  mapping: Partial<ColumnMapping>;
+  confidence: Partial<Record<DetectableField, number>>; // 0-1 per detected field
+}
+
+// Header keywords per field, lowercase. Covers English, Swedish, Norwegian, Danish, German,
+// Dutch, French, Spanish, Italian and Portuguese bank exports.
+const HEADER_KEYWORDS: Record<DetectableField, string[]> = {
+  date: [
+    'date', 'transaction date', 'booking date', 'posted date', 'posting date', 'value date',
+    'datum', 'bokföringsdag', 'bokforingsdag', 'transaktionsdag', 'transaktionsdatum', 'reskontradatum', 'valutadag',
+    'dato', 'bokføringsdato', 'rentedato', 'buchungstag', 'buchungsdatum', 'valuta', 'wertstellung',
+    'boekdatum', 'transactiedatum', 'date opération', 'date operation', 'date de valeur',
+    'fecha', 'fecha operación', 'fecha valor', 'data', 'data operazione', 'data valuta', 'data movimento',
+  ],
+  payee: [
+    'payee', 'merchant', 'name', 'description', 'counterparty', 'beneficiary', 'recipient', 'vendor', 'details',
+    'mottagare', 'beskrivning', 'text', 'rubrik', 'meddelande', 'motpart', 'transaktion',
+    'beskrivelse', 'tekst', 'modtager', 'mottaker',
+    'empfänger', 'empfaenger', 'auftraggeber', 'begünstigter', 'zahlungsempfänger',
+    'naam', 'omschrijving', 'tegenpartij', 'naam / omschrijving',
+    'libellé', 'libelle', 'bénéficiaire', 'beneficiaire', 'tiers',
+    'concepto', 'beneficiario', 'descripción', 'descripcion',
+    'descrizione', 'causale', 'descrição', 'descricao',
+  ],
+  amount: [
+    'amount', 'transaction amount', 'value', 'sum',
+    'belopp', 'summa', 'beløp', 'beløb', 'belob',
+    'betrag', 'umsatz', 'bedrag', 'montant', 'importe', 'importo', 'valor', 'quantia',
+  ],
+  balance: [
+    'balance', 'running balance', 'running bal', 'available balance', 'saldo', 'bokfört saldo', 'disponibelt',
+    'kontostand', 'solde', 'saldo disponible', 'saldo contabile', 'saldo disponível',
+  ],
+  account: [
+    'account', 'account number', 'account name', 'iban', 'konto', 'kontonummer', 'kontonr',
+    'rekening', 'rekeningnummer', 'compte', 'numéro de compte', 'cuenta', 'conto', 'conta',
+  ],
+};
+
+// Fields whose generic keywords also appear inside more specific headers (e.g. "amount" in "balance amount")
+const EXCLUDE_KEYWORDS: Partial<Record<DetectableField, string[]>> = {
+  amount: ['balance', 'saldo', 'kontostand', 'solde', 'currency', 'valuta'],
+  payee: ['date', 'datum', 'account', 'konto', 'id', 'reference'],
+  date: ['update'],
+};
+
+const DATE_PATTERNS = [
+  /^\d{4}[-/.]\d{1,2}[-/.]\d{1,2}([ T]\d{1,2}:\d{2}(:\d{2})?)?$/, // 2024-01-15, 2024/01/15
+  /^\d{1,2}[-/.]\d{1,2}[-/.]\d{2,4}([ T]\d{1,2}:\d{2}(:\d{2})?)?$/, // 15/01/2024, 01-15-24, 15.01.2024
+  /^\d{8}$/, // 20240115
+  /^\d{1,2}[ -][A-Za-zé]{3,9}\.?[ -]\d{2,4}$/, // 15 Jan 2024, 15-janv-2024
+];
+
+export function looksLikeDate(value: string): boolean {
+  const v = value.trim();
+  if (/^\d{8}$/.test(v)) {
+    const month = Number(v.slice(4, 6));
+    const day = Number(v.slice(6, 8));
+    return v.startsWith('19') || v.startsWith('20') ? month >= 1 && month <= 12 && day >= 1 && day <= 31 : false;
+  }
+  return DATE_PATTERNS.some(p => p.test(v));
+}
+
+// Signed decimal with optional currency symbol/code, thousands separators, parentheses or trailing minus
+const NUMBER_PATTERN = /^[(+-]?\s*[^\d\s()+-]{0,3}\s*-?\d[\d\s.,'\u00a0]*\s*[^\d\s()]{0,3}\s*\)?-?$/;
+
+export function looksLikeNumber(value: string): boolean {
+  const v = value.trim();
+  return v.length > 0 && NUMBER_PATTERN.test(v) && !looksLikeDate(v);
+}
+
+// Best-effort numeric value used only for sniffing; the last '.' or ',' followed by 1-2 digits is the decimal point
+function parseLooseNumber(value: string): number {
+  const v = value.trim();
+  const negative = /^\(.*\)$/.test(v) || /^-/.test(v) || /-$/.test(v) || /^[^\d]*-/.test(v);
+  const digits = v.replace(/[^\d.,]/g, '');
+  const decimalMatch = digits.match(/[.,](\d{1,2})$/);
+  const intPart = decimalMatch ? digits.slice(0, -decimalMatch[0].length) : digits;
+  const num = parseFloat(`${intPart.replace(/[.,]/g, '')}.${decimalMatch?.[1] ?? '0'}`);
+  return negative ? -num : num;
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[_\s]+/g, ' ').replace(/[:*.]+$/, '');
+}
+
+// 1 for an exact keyword hit, 0.7 when a keyword appears inside the header, 0 otherwise
+function headerScore(header: string, field: DetectableField): number {
+  const h = normalizeHeader(header);
+  if (!h) return 0;
+  if (EXCLUDE_KEYWORDS[field]?.some(ex => h.includes(ex)) && !HEADER_KEYWORDS[field].includes(h)) return 0;
+  if (HEADER_KEYWORDS[field].includes(h)) return 1;
+  return HEADER_KEYWORDS[field].some(kw => kw.length > 3 && h.includes(kw)) ? 0.7 : 0;
+}
+
+function columnValues(sampleData: string[][], index: number): string[] {
+  return sampleData.map(row => (row[index] ?? '').trim()).filter(Boolean);
+}
+
+function ratio(values: string[], predicate: (v: string) => boolean): number {
+  return values.length ? values.filter(predicate).length / values.length : 0;
+}
+
+// A balance column moves by exactly the row's amount from one row to the next (newest-first or oldest-first)
+function balanceFollowsAmounts(balances: number[], amounts: number[]): number {
+  if (balances.length < 3) return 0;
+  let ascending = 0;
+  let descending = 0;
+  for (let i = 1; i < balances.length; i++) {
+    const diff = Math.round((balances[i] - balances[i - 1]) * 100);
+    if (diff === Math.round(amounts[i] * 100)) ascending++;
+    if (diff === -Math.round(amounts[i - 1] * 100)) descending++;
+  }
+  return Math.max(ascending, descending) / (balances.length - 1);
+}
+
+function valueScores(headers: string[], sampleData: string[][]): Record<DetectableField, number[]> {
+  const columns = headers.map((_, i) => columnValues(sampleData, i));
+  const numericRatios = columns.map(values => ratio(values, looksLikeNumber));
+
+  const scores: Record<DetectableField, number[]> = {
+    date: columns.map(values => ratio(values, looksLikeDate)),
+    amount: columns.map((values, i) => {
+      if (numericRatios[i] < 0.9) return 0;
+      const nums = values.map(parseLooseNumber);
+      const hasBothSigns = nums.some(n => n < 0) && nums.some(n => n > 0);
+      const hasDecimals = values.some(v => /[.,]\d{1,2}\D*$/.test(v));
+      return 0.5 + (hasBothSigns ? 0.3 : 0) + (hasDecimals ? 0.2 : 0);
+    }),
+    balance: columns.map(() => 0),
+    payee: columns.map((values, i) => {
+      if (!values.length || numericRatios[i] > 0.5) return 0;
+      const textual = ratio(values, v => /[A-Za-zÀ-ÿ]{3,}/.test(v) && !looksLikeDate(v));
+      const distinct = new Set(values).size / values.length;
+      return textual * (0.6 + 0.4 * distinct);
+    }),
+    account: columns.map((values, i) => {
+      if (!values.length) return 0;
+      const distinct = new Set(values).size;
+      const accountLike = ratio(values, v => /^[A-Z]{2}\d{2}[A-Z0-9 ]{10,30}$/.test(v) || /^[\d\s-]{6,}$/.test(v));
+      // An account column repeats a handful of values across the whole file
+      return distinct <= 3 && values.length >= 3 ? Math.max(accountLike, numericRatios[i] < 0.5 ? 0.4 : 0) : 0;
+    }),
+  };
+
+  // Balance sniffing needs an amount candidate to compare against
+  const amountRank = scores.amount.map((score, i) => score > 0 ? score + headerScore(headers[i], 'amount') : 0);
+  const amountIdx = amountRank.indexOf(Math.max(...amountRank));
+  if (amountIdx >= 0 && scores.amount[amountIdx] > 0) {
+    const amounts = columns[amountIdx].map(parseLooseNumber);
+    scores.balance = columns.map((values, i) => {
+      if (i === amountIdx || numericRatios[i] < 0.9 || values.length !== amounts.length) return 0;
+      return balanceFollowsAmounts(values.map(parseLooseNumber), amounts);
+    });
+  }
+
+  return scores;
+}
+
+const MIN_CONFIDENCE = 0.35;
+
+export function detectColumnMapping(headers: string[], sampleData: string[][]): ColumnDetection {
+  const values = valueScores(headers, sampleData);
+  const fields = Object.keys(HEADER_KEYWORDS) as DetectableField[];
+
+  // Score every (field, column) pair, then assign greedily so each column is used at most once
+  const candidates: Array<{ field: DetectableField; index: number; score: number }> = [];
+  for (const field of fields) {
+    headers.forEach((header, index) => {
+      const hScore = headerScore(header, field);
+      const vScore = values[field][index];
+      // A header hit without supporting values (or vice versa) only counts for part of the score
+      const score = hScore > 0 && vScore > 0
+        ? Math.min(1, 0.55 * hScore + 0.45 * vScore + 0.1)
+        : Math.max(hScore * 0.5, vScore * 0.45);
+      if (score >= MIN_CONFIDENCE) candidates.push({ field, index, score });
+    });
+  }
+  candidates.sort((a, b) => b.score - a.score);
+
+  const mapping: Partial<ColumnMapping> = {};
+  const confidence: Partial<Record<DetectableField, number>> = {};
+  const usedColumns = new Set<number>();
+
+  for (const { field, index, score } of candidates) {
+    if (mapping[field] || usedColumns.has(index)) continue;
+    mapping[field] = headers[index];
+    confidence[field] = Math.round(score * 100) / 100;
+    usedColumns.add(index);
+  }
+
+  return { mapping, confidence };
+}
+
+// Order-insensitive header signature, used to recognise files from the same bank export
+export function headerSignature(headers: string[]): string {
+  return headers.map(normalizeHeader).filter(Boolean).sort().join('|');
+}
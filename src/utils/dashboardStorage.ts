@@ -6,6 +6,7 @@ import {
   ConfigurationBackup,
   StorageManagerInterface 
 } from '../types/interactive-analytics';
+import { getSetting, setSetting } from '../storage';
 
 export class DashboardStorageManager implements StorageManagerInterface {
   private readonly STORAGE_KEY = 'interactive-analytics-dashboards';
@@ -13,7 +14,7 @@ export class DashboardStorageManager implements StorageManagerInterface {
   private readonly MAX_STORAGE_SIZE = 5 * 1024 * 1024; // 5MB limit
 
   /**
-   * Save a dashboard to localStorage
+   * Save a dashboard to the settings store
    */
   async saveDashboard(dashboard: Dashboard): Promise<void> {
     try {
@@ -32,7 +33,7 @@ export class DashboardStorageManager implements StorageManagerInterface {
         throw new Error('Storage quota exceeded. Please delete some dashboards.');
       }
 
-      localStorage.setItem(this.STORAGE_KEY, serialized);
+      await setSetting(this.STORAGE_KEY, dashboards);
       await this.updateMetadata();
     } catch (error) {
       console.error('Failed to save dashboard:', error);
@@ -94,7 +95,7 @@ export class DashboardStorageManager implements StorageManagerInterface {
       const dashboards = await this.getAllDashboards();
       const filtered = dashboards.filter(d => d.id !== id);
       
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(filtered));
+      await setSetting(this.STORAGE_KEY, filtered);
       await this.updateMetadata();
     } catch (error) {
       console.error('Failed to delete dashboard:', error);
@@ -107,9 +108,8 @@ export class DashboardStorageManager implements StorageManagerInterface {
    */
   getStorageUsage(): StorageUsage {
     try {
-      const dashboardData = localStorage.getItem(this.STORAGE_KEY) || '[]';
-      const used = new Blob([dashboardData]).size;
-      const dashboards = JSON.parse(dashboardData);
+      const dashboards = getSetting<Dashboard[]>(this.STORAGE_KEY, []);
+      const used = new Blob([JSON.stringify(dashboards)]).size;
       
       return {
         used,
@@ -143,7 +143,7 @@ export class DashboardStorageManager implements StorageManagerInterface {
       });
 
       if (cleaned.length < dashboards.length) {
-        localStorage.setItem(this.STORAGE_KEY, JSON.stringify(cleaned));
+        await setSetting(this.STORAGE_KEY, cleaned);
         await this.updateMetadata();
         console.log(`Cleaned up ${dashboards.length - cleaned.length} old dashboards`);
       }
@@ -195,11 +195,11 @@ export class DashboardStorageManager implements StorageManagerInterface {
       }
 
       // Import dashboards
-      localStorage.setItem(this.STORAGE_KEY, serialized);
+      await setSetting(this.STORAGE_KEY, backup.dashboards);
       
       // Import settings if available
       if (backup.settings) {
-        localStorage.setItem(this.METADATA_KEY, JSON.stringify(backup.settings));
+        await setSetting(this.METADATA_KEY, backup.settings);
       }
 
       await this.updateMetadata();
@@ -263,8 +263,7 @@ export class DashboardStorageManager implements StorageManagerInterface {
 
   private async getAllDashboards(): Promise<Dashboard[]> {
     try {
-      const data = localStorage.getItem(this.STORAGE_KEY);
-      return data ? JSON.parse(data) : [];
+      return getSetting<Dashboard[]>(this.STORAGE_KEY, []);
     } catch (error) {
       console.error('Failed to parse dashboard data:', error);
       return [];
@@ -281,7 +280,7 @@ export class DashboardStorageManager implements StorageManagerInterface {
         storageUsage: this.getStorageUsage()
       };
       
-      localStorage.setItem(this.METADATA_KEY, JSON.stringify(metadata));
+      await setSetting(this.METADATA_KEY, metadata);
     } catch (error) {
       console.error('Failed to update metadata:', error);
     }
@@ -289,8 +288,7 @@ export class DashboardStorageManager implements StorageManagerInterface {
 
   private getMetadata(): any {
     try {
-      const data = localStorage.getItem(this.METADATA_KEY);
-      return data ? JSON.parse(data) : {};
+      return getSetting(this.METADATA_KEY, {});
     } catch (error) {
       console.error('Failed to get metadata:', error);
       return {};
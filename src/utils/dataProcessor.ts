@@ -12,14 +12,15 @@ import {
   Filter,
   FilterOperator
 } from '../types/interactive-analytics';
+import { expandSplits } from './splits';
 
 export class DataProcessor {
   /**
    * Process transactions according to the analytics query
    */
   processTransactions(transactions: Transaction[], query: AnalyticsQuery): ProcessedData {
-    // First, filter out transactions tagged with "Exclude"
-    const analyticsTransactions = transactions.filter(t => 
+    // First, split transactions become their parts and those tagged with "Exclude" are filtered out
+    const analyticsTransactions = expandSplits(transactions).filter(t => 
       !t.tags || !t.tags.some(tag => tag.toLowerCase() === 'exclude')
     );
 
@@ -0,0 +1,165 @@
+// Duplicate detection for imports: exact matches are skipped, probable ones go to the review queue
+
+import { Transaction, DuplicateDetectionMode, PayeeRenamingRule } from '../types';
+import { normalizePayeeName, calculateStringSimilarity } from './smartCategorization';
+import { getSetting } from '../storage';
+
+export interface DuplicateMatch {
+  incoming: Transaction;
+  existing: Transaction;
+  kind: 'exact' | 'probable';
+  confidence: number; // 0-1
+  reasons: string[];
+}
+
+export interface DuplicateOptions {
+  /** Also look for probable duplicates, not just exact ones */
+  fuzzy: boolean;
+  /** How many days apart the same charge may be booked in overlapping exports */
+  dateWindowDays: number;
+  /** Minimum similarity of the normalized payee names, 0-1 */
+  payeeThreshold: number;
+  /** Renaming rules for payee normalization; read from the settings store when omitted */
+  renamingRules?: PayeeRenamingRule[];
+}
+
+export const DEFAULT_DUPLICATE_OPTIONS: DuplicateOptions = {
+  fuzzy: true,
+  dateWindowDays: 3,
+  payeeThreshold: 0.7,
+};
+
+export function getDuplicateDetectionMode(): DuplicateDetectionMode {
+  const saved = getSetting<string>('duplicate-detection', 'fuzzy');
+  return saved === 'strict' || saved === 'off' || saved === 'fuzzy' ? saved : 'fuzzy';
+}
+
+export function getDuplicateDateWindow(): number {
+  const saved = Number(getSetting<number | string | null>('duplicate-date-window', null));
+  return Number.isInteger(saved) && saved > 0 ? saved : DEFAULT_DUPLICATE_OPTIONS.dateWindowDays;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+// Calendar-day distance, so a DST shift or time component doesn't push a match out of the window
+function dayDiff(a: Date, b: Date): number {
+  const utcA = Date.UTC(a.getFullYear(), a.getMonth(), a.getDate());
+  const utcB = Date.UTC(b.getFullYear(), b.getMonth(), b.getDate());
+  return Math.round(Math.abs(utcA - utcB) / DAY_MS);
+}
+
+function transactionIdKey(t: Transaction): string | undefined {
+  return t.transactionId?.trim() ? `${t.account ?? ''}|${t.transactionId.trim()}` : undefined;
+}
+
+/**
+ * Hash index over the existing ledger. Candidates are looked up by bank transaction id and by
+ * amount in cents, so each incoming row is only compared against the handful of transactions
+ * with the same amount instead of the whole ledger.
+ */
+export class DuplicateIndex {
+  private byTransactionId = new Map<string, Transaction>();
+  private byAmount = new Map<number, Transaction[]>();
+  private normalized = new Map<string, string>();
+  // An existing transaction can only be the duplicate of one incoming row, so two identical
+  // coffees on the same day still match two existing ones rather than both matching the first
+  private matched = new Set<string>();
+  // File each row added during an import came from; rows of one file are never duplicates of each other
+  private sources = new Map<string, string>();
+  private options: DuplicateOptions;
+
+  constructor(existing: Transaction[], options: DuplicateOptions = DEFAULT_DUPLICATE_OPTIONS) {
+    this.options = options;
+    existing.forEach(t => this.add(t));
+  }
+
+  /** Index another transaction, e.g. an incoming row that was accepted, so later rows are checked against it. */
+  add(t: Transaction, source?: string) {
+    const idKey = transactionIdKey(t);
+    if (idKey && !this.byTransactionId.has(idKey)) this.byTransactionId.set(idKey, t);
+    const cents = toCents(t.amount);
+    const bucket = this.byAmount.get(cents);
+    if (bucket) bucket.push(t);
+    else this.byAmount.set(cents, [t]);
+    if (source !== undefined) this.sources.set(t.id, source);
+  }
+
+  private available(t: Transaction, source: string | undefined): boolean {
+    return !this.matched.has(t.id) && (source === undefined || this.sources.get(t.id) !== source);
+  }
+
+  // normalizePayeeName applies the renaming rules each call, so cache it per payee string
+  private normalize(payee: string): string {
+    let value = this.normalized.get(payee);
+    if (value === undefined) {
+      value = normalizePayeeName(payee, this.options.renamingRules).toLowerCase();
+      this.normalized.set(payee, value);
+    }
+    return value;
+  }
+
+  private claim(match: DuplicateMatch): DuplicateMatch {
+    this.matched.add(match.existing.id);
+    return match;
+  }
+
+  find(incoming: Transaction, source?: string): DuplicateMatch | undefined {
+    const idKey = transactionIdKey(incoming);
+    const byId = idKey ? this.byTransactionId.get(idKey) : undefined;
+    if (byId && this.available(byId, source)) {
+      return this.claim({ incoming, existing: byId, kind: 'exact', confidence: 1, reasons: ['Same bank transaction ID'] });
+    }
+
+    const candidates = (this.byAmount.get(toCents(incoming.amount)) ?? []).filter(e => this.available(e, source));
+
+    const exact = candidates.find(e => e.date.getTime() === incoming.date.getTime() && e.payee === incoming.payee);
+    if (exact) {
+      return this.claim({ incoming, existing: exact, kind: 'exact', confidence: 1, reasons: ['Same date, payee and amount'] });
+    }
+    if (!this.options.fuzzy) return undefined;
+
+    let best: DuplicateMatch | undefined;
+    const incomingPayee = this.normalize(incoming.payee);
+    for (const existing of candidates) {
+      // Two different bank ids are two different transactions, however alike they look
+      if (idKey && transactionIdKey(existing) && transactionIdKey(existing) !== idKey) continue;
+      if (incoming.account && existing.account && incoming.account !== existing.account) continue;
+
+      const days = dayDiff(incoming.date, existing.date);
+      if (days > this.options.dateWindowDays) continue;
+      const similarity = calculateStringSimilarity(incomingPayee, this.normalize(existing.payee));
+      if (similarity < this.options.payeeThreshold) continue;
+
+      // Payee similarity carries most of the weight; each day apart costs a little
+      const confidence = Math.round((0.7 * similarity + 0.3 * (1 - days / (this.options.dateWindowDays + 1))) * 100) / 100;
+      if (best && best.confidence >= confidence) continue;
+      best = {
+        incoming,
+        existing,
+        kind: 'probable',
+        confidence,
+        reasons: [
+          'Same amount',
+          days === 0 ? 'Same date' : `${days} day${days === 1 ? '' : 's'} apart`,
+          similarity === 1 ? 'Same payee' : `Payee ${Math.round(similarity * 100)}% similar`,
+        ],
+      };
+    }
+    return best ? this.claim(best) : undefined;
+  }
+}
+
+/** Fill in what the existing transaction is missing from its duplicate; user edits on the existing one always win. */
+export function mergeDuplicate(existing: Transaction, incoming: Transaction): Partial<Transaction> {
+  const isBlank = (value: unknown) => value === undefined || value === '';
+  const fields = ['transactionId', 'description', 'account', 'balance', 'reference', 'currency', 'type'] as const;
+  let updates: Partial<Transaction> = {};
+  for (const field of fields) {
+    if (isBlank(existing[field]) && !isBlank(incoming[field])) {
+      updates = { ...updates, [field]: incoming[field] };
+    }
+  }
+  return updates;
+}
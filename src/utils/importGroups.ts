@@ -0,0 +1,82 @@
+// Groups the files of a multi-file drop by format, so each format is mapped once
+
+import { Transaction, ColumnMapping, ParseProfile, ImportFormat } from '../types';
+import { headerSignature } from './columnDetection';
+import { SavedMapping, findSavedMapping, detectProfileFor } from './savedMappings';
+import type { SheetSelection } from './spreadsheet';
+
+/** A CSV or spreadsheet file parsed by the import worker; the rows themselves stay in the worker. */
+export interface CsvFileInfo {
+  fileId: string;
+  fileName: string;
+  format: ImportFormat;
+  sheet?: SheetSelection; // Spreadsheets only
+  headers: string[];
+  sample: string[][];
+  rowCount: number;
+}
+
+/** A structured statement (OFX/QFX, camt.053, MT940), parsed on the main thread. */
+export interface ParsedStatement {
+  fileName: string;
+  format: ImportFormat;
+  transactions: Transaction[];
+}
+
+/** CSV and spreadsheet files with the same header row, imported with one mapping. */
+export interface FileGroup {
+  signature: string;
+  files: CsvFileInfo[];
+  mapping?: ColumnMapping; // Unset until a saved mapping matches or the user maps it
+  profile?: ParseProfile;
+  mappingName?: string;
+}
+
+export interface ImportSession {
+  groups: FileGroup[];
+  statements: ParsedStatement[];
+}
+
+// Spreadsheets go through the same mapping flow as CSV files
+export const SPREADSHEET_FORMATS: Record<string, ImportFormat> = {
+  '.xlsx': 'xlsx',
+  '.xls': 'xls',
+  '.ods': 'ods',
+};
+
+/** Format of a file handed to the import worker, by extension. */
+export function tableFormat(fileName: string): ImportFormat {
+  const dot = fileName.lastIndexOf('.');
+  return (dot >= 0 && SPREADSHEET_FORMATS[fileName.slice(dot).toLowerCase()]) || 'csv';
+}
+
+/** Headers and sample rows for a group: the first file's headers, samples pooled across its files. */
+export function groupSample(group: FileGroup, size: number): { headers: string[]; sample: string[][] } {
+  return {
+    headers: group.files[0].headers,
+    sample: group.files.flatMap(f => f.sample).slice(0, size),
+  };
+}
+
+/** Group files by header signature and apply the saved mapping that matches each group, if any. */
+export function groupFiles(files: CsvFileInfo[], savedMappings: SavedMapping[], sampleSize: number): FileGroup[] {
+  const groups = new Map<string, FileGroup>();
+  for (const file of files) {
+    const signature = headerSignature(file.headers);
+    const group = groups.get(signature);
+    if (group) group.files.push(file);
+    else groups.set(signature, { signature, files: [file] });
+  }
+
+  return Array.from(groups.values()).map(group => {
+    const saved = findSavedMapping(group.files[0].headers, savedMappings);
+    if (!saved) return group;
+    const { headers, sample } = groupSample(group, sampleSize);
+    return {
+      ...group,
+      mapping: saved.mapping,
+      profile: saved.profile ?? detectProfileFor(headers, sample, saved.mapping),
+      mappingName: saved.name,
+    };
+  });
+}
@@ -0,0 +1,171 @@
+// SWIFT MT940 (customer statement) parser
+
+import { Transaction } from '../types';
+
+interface Mt940Field {
+  tag: string;
+  value: string;
+}
+
+// :61: YYMMDD[MMDD](R)C|D[funds code]amount Nxxx customer-ref[//bank-ref][\nsupplementary]
+const STATEMENT_LINE = /^(\d{2})(\d{2})(\d{2})(\d{4})?(R?[CD])([A-Z])?(\d+(?:,\d*)?)([NFS][A-Z0-9]{3})([^\n]*?)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/;
+// :60F:/:62F: C|D YYMMDD CCY amount
+const BALANCE_LINE = /^([CD])(\d{6})([A-Z]{3})(\d+(?:,\d*)?)/;
+const IBAN = /[A-Z]{2}\d{2}[A-Z0-9]{10,30}/;
+
+// Split the message body into tag/value pairs; values may continue over several lines
+function splitFields(content: string): Mt940Field[] {
+  const fields: Mt940Field[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (match) {
+      fields.push({ tag: match[1], value: match[2] });
+    } else if (fields.length > 0 && line.trim() && !/^-\}?$/.test(line.trim())) {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  }
+  return fields;
+}
+
+function parseAmount(value: string): number {
+  return parseFloat(value.replace(',', '.'));
+}
+
+function parseYymmdd(yy: string, mm: string, dd: string): Date {
+  const year = Number(yy);
+  return new Date(year < 70 ? 2000 + year : 1900 + year, Number(mm) - 1, Number(dd));
+}
+
+// The optional MMDD booking date has no year — take it from the value date, allowing for year-end rollover
+function bookingDateFrom(valueDate: Date, mmdd: string): Date {
+  const month = Number(mmdd.slice(0, 2)) - 1;
+  const day = Number(mmdd.slice(2));
+  let year = valueDate.getFullYear();
+  if (month === 11 && valueDate.getMonth() === 0) year--;
+  if (month === 0 && valueDate.getMonth() === 11) year++;
+  return new Date(year, month, day);
+}
+
+// Width of the ?20-?29 and ?32-?33 subfields of a structured :86: field
+const SUBFIELD_WIDTH = 27;
+
+// :86: has no single standard — handle the German ?-subfield layout, the /CODE/value layout
+// used by Dutch and many SEPA banks, and plain free text
+function parseInformation(info: string): { payee?: string; description?: string } {
+  const flat = info.replace(/\n/g, '');
+
+  if (/^\d{3}\?/.test(flat)) {
+    const subfields = new Map<string, string>();
+    for (const m of flat.matchAll(/\?(\d{2})([^?]*)/g)) {
+      subfields.set(m[1], (subfields.get(m[1]) ?? '') + m[2]);
+    }
+    // Banks fill a subfield to its 27 characters and carry on in the next one, even mid-word; a shorter
+    // subfield ended where the text did, so the next one starts a new word
+    const join = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => subfields.get(String(from + i)))
+      .filter((value): value is string => !!value)
+      .reduce((text, value, i, values) => text + (i > 0 && values[i - 1].length !== SUBFIELD_WIDTH ? ' ' : '') + value, '')
+      .trim();
+    const purpose = `${join(20, 29)} ${join(60, 63)}`.trim();
+    return { payee: join(32, 33) || subfields.get('00')?.trim(), description: purpose || undefined };
+  }
+
+  if (/^\/[A-Z]{2,4}\//.test(flat)) {
+    // split() with a capture group yields [prefix, code, value, code, value, ...]
+    const parts = flat.split(/\/(NAME|REMI|EREF|IBAN|BIC|TRTP|CSID|MARF|ORDP|BENM|ADDR)\//);
+    const codes = new Map<string, string>();
+    for (let i = 1; i < parts.length; i += 2) {
+      codes.set(parts[i], parts[i + 1].replace(/^\/+|\/+$/g, '').trim());
+    }
+    return {
+      payee: codes.get('NAME') || codes.get('BENM') || codes.get('ORDP'),
+      description: codes.get('REMI')?.replace(/^(USTD|STRD)\/+/, '') || codes.get('TRTP'),
+    };
+  }
+
+  const lines = info.split('\n').map(l => l.trim()).filter(Boolean);
+  return { payee: lines[0], description: lines.slice(1).join(' ') || undefined };
+}
+
+export function isMt940Content(content: string): boolean {
+  return /^:20:/m.test(content) && /^:61:/m.test(content);
+}
+
+export function parseMt940(content: string): Transaction[] {
+  if (!isMt940Content(content)) {
+    throw new Error('Not a valid MT940 statement');
+  }
+
+  const now = Date.now();
+  const result: Transaction[] = [];
+  let account: string | undefined;
+  let currency: string | undefined;
+  let balance: number | undefined;
+  let previousTag: string | undefined;
+
+  for (const { tag, value } of splitFields(content)) {
+    switch (tag) {
+      case '20':
+        // Start of a new statement — multi-account files repeat the whole block
+        account = undefined;
+        currency = undefined;
+        balance = undefined;
+        break;
+      case '25': {
+        const raw = value.trim();
+        account = raw.replace(/\s/g, '').match(IBAN)?.[0] ?? raw;
+        break;
+      }
+      case '60F':
+      case '60M': {
+        const match = value.trim().match(BALANCE_LINE);
+        if (match) {
+          currency = match[3];
+          balance = parseAmount(match[4]) * (match[1] === 'D' ? -1 : 1);
+        }
+        break;
+      }
+      case '61': {
+        const match = value.trim().match(STATEMENT_LINE);
+        if (!match) break;
+        const [, yy, mm, dd, entryDate, mark, , rawAmount, , customerRef, bankRef] = match;
+        const valueDate = parseYymmdd(yy, mm, dd);
+        // RC (reversal of credit) is a debit and RD a credit
+        const sign = mark === 'D' || mark === 'RC' ? -1 : 1;
+        const amount = parseAmount(rawAmount) * sign;
+        if (isNaN(amount) || isNaN(valueDate.getTime())) break;
+
+        if (balance !== undefined) balance = Math.round((balance + amount) * 100) / 100;
+        const reference = customerRef.trim() && customerRef.trim() !== 'NONREF' ? customerRef.trim() : undefined;
+
+        result.push({
+          id: `txn-${now}-${result.length}`,
+          transactionId: bankRef?.trim() || reference,
+          date: entryDate ? bookingDateFrom(valueDate, entryDate) : valueDate,
+          payee: 'Unknown',
+          amount,
+          type: amount < 0 ? 'debit' : 'credit',
+          description: undefined,
+          category: undefined,
+          tags: [],
+          account,
+          balance,
+          reference,
+          currency,
+        });
+        break;
+      }
+      case '86': {
+        // :86: only describes a transaction when it directly follows its :61: line
+        const last = result[result.length - 1];
+        if (!last || previousTag !== '61') break;
+        const { payee, description } = parseInformation(value);
+        last.payee = payee || description || 'Unknown';
+        last.description = payee ? description : undefined;
+        break;
+      }
+    }
+    previousTag = tag;
+  }
+
+  return result;
+}
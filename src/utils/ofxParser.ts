@@ -0,0 +1,92 @@
+// OFX/QFX statement parser — handles both SGML (OFX 1.x) and XML (OFX 2.x) files
+
+import { Transaction } from '../types';
+
+// Read the value of a leaf tag. SGML leaves are unclosed (<NAME>Foo), XML ones are closed (<NAME>Foo</NAME>),
+// so in both cases the value runs up to the next '<'.
+function getTag(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1].trim();
+  return value ? decodeEntities(value) : undefined;
+}
+
+// Return the inner content of every <TAG>...</TAG> aggregate
+function getBlocks(source: string, tag: string): string[] {
+  const regex = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi');
+  return Array.from(source.matchAll(regex), m => m[1]);
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// OFX dates look like YYYYMMDD[HHMMSS[.XXX]][[-5:EST]] — we only keep the calendar day
+export function parseOfxDate(value: string | undefined): Date | undefined {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return undefined;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+// Some banks emit amounts with a decimal comma despite the spec
+function parseOfxAmount(value: string | undefined): number {
+  if (!value) return NaN;
+  return parseFloat(value.replace(',', '.').replace(/[^0-9.+-]/g, ''));
+}
+
+export function isOfxContent(content: string): boolean {
+  return /OFXHEADER\s*:/i.test(content) || /<\?OFX\b/i.test(content) || /<OFX>/i.test(content);
+}
+
+export function parseOfx(content: string): Transaction[] {
+  if (!isOfxContent(content)) {
+    throw new Error('Not a valid OFX/QFX file');
+  }
+
+  const body = content.slice(content.search(/<OFX>/i));
+  // Bank (STMTRS) and credit card (CCSTMTRS) statements share the same transaction layout
+  const statements = [...getBlocks(body, 'STMTRS'), ...getBlocks(body, 'CCSTMTRS')];
+  const now = Date.now();
+  const result: Transaction[] = [];
+
+  for (const statement of statements) {
+    const accountBlock = getBlocks(statement, 'BANKACCTFROM')[0] ?? getBlocks(statement, 'CCACCTFROM')[0];
+    const account = accountBlock ? getTag(accountBlock, 'ACCTID') : undefined;
+    const currency = getTag(statement, 'CURDEF');
+
+    for (const trn of getBlocks(statement, 'STMTTRN')) {
+      const date = parseOfxDate(getTag(trn, 'DTPOSTED') ?? getTag(trn, 'DTUSER'));
+      const amount = parseOfxAmount(getTag(trn, 'TRNAMT'));
+      if (!date || isNaN(amount)) continue;
+
+      // <PAYEE> is an aggregate with its own <NAME>; fall back to it when <NAME> is missing
+      const payeeBlock = getBlocks(trn, 'PAYEE')[0];
+      const name = getTag(trn.replace(/<PAYEE>[\s\S]*?<\/PAYEE>/gi, ''), 'NAME')
+        ?? (payeeBlock ? getTag(payeeBlock, 'NAME') : undefined);
+      const memo = getTag(trn, 'MEMO');
+      const trnType = getTag(trn, 'TRNTYPE')?.toUpperCase();
+
+      result.push({
+        id: `txn-${now}-${result.length}`,
+        transactionId: getTag(trn, 'FITID'),
+        date,
+        payee: name || memo || 'Unknown',
+        amount,
+        type: trnType === 'CREDIT' ? 'credit' : trnType === 'DEBIT' ? 'debit' : amount >= 0 ? 'credit' : 'debit',
+        description: name ? memo : undefined,
+        category: undefined,
+        tags: [],
+        account,
+        reference: getTag(trn, 'CHECKNUM') ?? getTag(trn, 'REFNUM'),
+        currency,
+      });
+    }
+  }
+
+  return result;
+}
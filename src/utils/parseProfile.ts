@@ -0,0 +1,189 @@
+// Locale-aware date and amount parsing for CSV import
+
+import { DateFormat, DirectionValues, ParseProfile } from '../types';
+
+export const DEFAULT_PARSE_PROFILE: ParseProfile = {
+  dateFormat: 'YMD',
+  decimalSeparator: '.',
+  thousandsSeparator: ',',
+  negativeStyle: 'minus',
+};
+
+export const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  YMD: 'yyyy-mm-dd',
+  DMY: 'dd/mm/yyyy',
+  MDY: 'mm/dd/yyyy',
+};
+
+// First three letters of month names in the languages our bank exports use
+const MONTH_NAMES: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+  maj: 5, okt: 10, mai: 5, dez: 12, mrt: 3, mär: 3, fév: 2, fev: 2, avr: 4, jui: 6, aoû: 8, aou: 8, déc: 12,
+  ene: 1, abr: 4, ago: 8, dic: 12, gen: 1, mag: 5, giu: 6, lug: 7, set: 9, ott: 10,
+};
+
+function toYear(value: number): number {
+  if (value >= 100) return value;
+  return value < 70 ? 2000 + value : 1900 + value;
+}
+
+function makeDate(year: number, month: number, day: number): Date {
+  const date = new Date(year, month - 1, day);
+  // Reject rollovers like 31/02 that the Date constructor would silently accept
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return new Date(NaN);
+  }
+  return date;
+}
+
+/** Parse a date string using the profile's day/month/year order. Returns an invalid Date on failure. */
+export function parseDate(value: string, profile: ParseProfile): Date {
+  const v = value?.trim() ?? '';
+  const numbers = (v.match(/\d+/g) ?? []).map(Number);
+  const rawNumbers: string[] = v.match(/\d+/g) ?? [];
+
+  // Month written as a word, e.g. "15 Jan 2024" or "Jan 15, 2024"
+  const word = v.match(/[A-Za-zÀ-ÿ]{3,}/)?.[0].toLowerCase().slice(0, 3);
+  if (word && MONTH_NAMES[word] && numbers.length >= 2) {
+    const yearIdx = rawNumbers.findIndex(n => n.length === 4);
+    const year = yearIdx >= 0 ? numbers[yearIdx] : toYear(numbers[numbers.length - 1]);
+    const day = numbers.find((_, i) => i !== (yearIdx >= 0 ? yearIdx : numbers.length - 1)) ?? NaN;
+    return makeDate(year, MONTH_NAMES[word], day);
+  }
+
+  // Compact 20240115 / 15012024
+  if (rawNumbers.length === 1 && rawNumbers[0].length === 8) {
+    const s = rawNumbers[0];
+    if (profile.dateFormat === 'YMD') return makeDate(Number(s.slice(0, 4)), Number(s.slice(4, 6)), Number(s.slice(6)));
+    const [a, b] = [Number(s.slice(0, 2)), Number(s.slice(2, 4))];
+    const year = Number(s.slice(4));
+    return profile.dateFormat === 'DMY' ? makeDate(year, b, a) : makeDate(year, a, b);
+  }
+
+  if (numbers.length < 3) return new Date(NaN);
+  const [a, b, c] = numbers;
+  // A leading four-digit year is unambiguous whatever the profile says
+  if (rawNumbers[0].length === 4 || profile.dateFormat === 'YMD') return makeDate(toYear(a), b, c);
+  if (profile.dateFormat === 'DMY') return makeDate(toYear(c), b, a);
+  return makeDate(toYear(c), a, b);
+}
+
+/** Parse an amount using the profile's separators and negative style. Returns NaN on failure. */
+export function parseAmount(value: string, profile: ParseProfile): number {
+  let v = value?.trim() ?? '';
+  if (!v) return NaN;
+
+  let negative = false;
+  if (profile.negativeStyle === 'parentheses' && /^\(.*\)$/.test(v)) {
+    negative = true;
+    v = v.slice(1, -1);
+  }
+  if (profile.negativeStyle === 'trailing-minus' && /-\s*$/.test(v)) {
+    negative = true;
+    v = v.replace(/-\s*$/, '');
+  }
+  // A leading minus (possibly after a currency symbol, e.g. "kr -12" or "-$12") is always negative
+  if (/^[^\d]*[-−]/.test(v)) negative = true;
+
+  if (profile.thousandsSeparator === ' ') {
+    v = v.replace(/[\s\u00a0\u202f]/g, '');
+  } else if (profile.thousandsSeparator) {
+    v = v.split(profile.thousandsSeparator).join('');
+  }
+  const digits = v.replace(new RegExp(`[^\\d${profile.decimalSeparator === ',' ? ',' : '.'}]`, 'g'), '');
+  const amount = parseFloat(profile.decimalSeparator === ',' ? digits.replace(',', '.') : digits);
+  return negative ? -amount : amount;
+}
+
+export const DEFAULT_DIRECTION_VALUES: DirectionValues = {
+  debit: ['debit', 'dr', 'd', 'out', 'withdrawal', 'uttag', 'soll', 'af'],
+  credit: ['credit', 'cr', 'c', 'in', 'deposit', 'insättning', 'haben', 'bij'],
+};
+
+/** Signed amount from separate money-out/money-in cells. Either side may be blank; both blank gives NaN. */
+export function parseDebitCredit(debit: string | undefined, credit: string | undefined, profile: ParseProfile): number {
+  const out = debit?.trim() ? Math.abs(parseAmount(debit, profile)) : undefined;
+  const inc = credit?.trim() ? Math.abs(parseAmount(credit, profile)) : undefined;
+  if (out === undefined && inc === undefined) return NaN;
+  return (inc ?? 0) - (out ?? 0);
+}
+
+/** Which way a direction cell points, or undefined when it matches neither list. */
+export function parseDirection(value: string | undefined, values: DirectionValues): 'debit' | 'credit' | undefined {
+  const v = value?.trim().toLowerCase();
+  if (!v) return undefined;
+  if (values.debit.some(d => d.trim().toLowerCase() === v)) return 'debit';
+  if (values.credit.some(c => c.trim().toLowerCase() === v)) return 'credit';
+  return undefined;
+}
+
+function detectDateFormat(values: string[]): DateFormat {
+  let dmy = 0;
+  let mdy = 0;
+  let separator = '';
+  for (const value of values) {
+    const raw: string[] = value.trim().match(/\d+/g) ?? [];
+    if (raw.length === 1 && raw[0].length === 8) {
+      if (/^(19|20)\d{2}(0[1-9]|1[0-2])/.test(raw[0])) return 'YMD';
+      continue;
+    }
+    if (raw.length < 3) continue;
+    if (raw[0].length === 4) return 'YMD';
+    separator ||= value.trim().match(/^\d+([^\d])/)?.[1] ?? '';
+    if (Number(raw[0]) > 12) dmy++;
+    if (Number(raw[1]) > 12) mdy++;
+  }
+  if (dmy > mdy) return 'DMY';
+  if (mdy > dmy) return 'MDY';
+  // Every sampled day was <= 12: go by the separator, then by the browser locale
+  if (separator === '.' || separator === '-') return 'DMY';
+  return (navigator.language || 'en-US') === 'en-US' ? 'MDY' : 'DMY';
+}
+
+function detectNumberFormat(values: string[]): Pick<ParseProfile, 'decimalSeparator' | 'thousandsSeparator' | 'negativeStyle'> {
+  let commaDecimal = 0;
+  let dotDecimal = 0;
+  const thousands = new Map<ParseProfile['thousandsSeparator'], number>();
+  let parentheses = false;
+  let trailingMinus = false;
+
+  for (const value of values) {
+    const v = value.trim();
+    if (/^\(.*\d.*\)$/.test(v)) parentheses = true;
+    if (/\d\s*[^\d\s]{0,3}\s*-$/.test(v)) trailingMinus = true;
+
+    // The last separator followed by one or two digits at the end is the decimal separator
+    const decimal = v.match(/\d([.,])\d{1,2}(?!\d)[^\d]*$/)?.[1];
+    if (decimal === ',') commaDecimal++;
+    if (decimal === '.') dotDecimal++;
+
+    const groupMatch = v.match(/\d([.,'\s\u00a0\u202f])\d{3}(?!\d)/);
+    if (groupMatch && groupMatch[1] !== decimal) {
+      const sep = /\s/.test(groupMatch[1]) ? ' ' : groupMatch[1] as ParseProfile['thousandsSeparator'];
+      thousands.set(sep, (thousands.get(sep) ?? 0) + 1);
+    }
+  }
+
+  const decimalSeparator = commaDecimal > dotDecimal ? ',' : '.';
+  const thousandCandidates = Array.from(thousands.entries())
+    .filter(([sep]) => sep !== decimalSeparator)
+    .sort((a, b) => b[1] - a[1]);
+  const thousandsSeparator = thousandCandidates[0]?.[0] ?? (decimalSeparator === ',' ? '' : ',');
+
+  return {
+    decimalSeparator,
+    thousandsSeparator,
+    negativeStyle: parentheses ? 'parentheses' : trailingMinus ? 'trailing-minus' : 'minus',
+  };
+}
+
+/** Guess the parse profile from sample values of the date and amount (or balance) columns. */
+export function detectParseProfile(dateValues: string[], amountValues: string[]): ParseProfile {
+  const dates = dateValues.filter(v => v?.trim());
+  const amounts = amountValues.filter(v => v?.trim());
+  return {
+    ...DEFAULT_PARSE_PROFILE,
+    ...(amounts.length ? detectNumberFormat(amounts) : {}),
+    dateFormat: dates.length ? detectDateFormat(dates) : DEFAULT_PARSE_PROFILE.dateFormat,
+  };
+}
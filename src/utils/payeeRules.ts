@@ -1,4 +1,5 @@
 import { PayeeRenamingRule } from '../types';
+import { getSetting, setSetting } from '../storage';
 
 export function applyRenamingRules(payee: string, rules: PayeeRenamingRule[]): string {
   let result = payee;
@@ -41,12 +42,11 @@ export function extractPayeePattern(payee: string): string {
 }
 
 export function getRenamingRules(): PayeeRenamingRule[] {
-  const saved = localStorage.getItem('payee-renaming-rules');
-  return saved ? JSON.parse(saved) : [];
+  return getSetting<PayeeRenamingRule[]>('payee-renaming-rules', []);
 }
 
 export function saveRenamingRules(rules: PayeeRenamingRule[]): void {
-  localStorage.setItem('payee-renaming-rules', JSON.stringify(rules));
+  setSetting('payee-renaming-rules', rules);
 }
 
 export function addRenamingRule(rule: Omit<PayeeRenamingRule, 'id'>): PayeeRenamingRule {
@@ -0,0 +1,193 @@
+// QIF (Quicken Interchange Format) reader and writer, for moving data to and from desktop finance apps
+
+import { Transaction, Category, TransactionSplit } from '../types';
+import { detectParseProfile, parseAmount, parseDate } from './parseProfile';
+import { validateSplits } from './splits';
+
+// Account sections with the plain bank-register layout; investment sections and lists are skipped
+const REGISTER_TYPES = ['bank', 'ccard', 'cash', 'oth a', 'oth l'];
+
+interface QifSplit {
+  category?: string;
+  memo?: string;
+  amount?: string;
+}
+
+interface QifRecord {
+  fields: Map<string, string>; // First occurrence of each single-letter field
+  splits: QifSplit[];
+  account?: string;
+}
+
+// Group the lines of every register section into records; `!Account` blocks set the account for what follows
+function readRecords(content: string): QifRecord[] {
+  const records: QifRecord[] = [];
+  let section = '';
+  let account: string | undefined;
+  let fields = new Map<string, string>();
+  let splits: QifSplit[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trimEnd();
+    if (!line) continue;
+
+    if (line.startsWith('!')) {
+      const header = line.toLowerCase();
+      // Options like !Option:AutoSwitch don't change the current section
+      if (header.startsWith('!type:')) section = header.slice(6).trim();
+      else if (header === '!account') section = 'account';
+      fields = new Map();
+      splits = [];
+      continue;
+    }
+
+    if (line === '^') {
+      if (section === 'account') account = fields.get('N') ?? account;
+      else if (REGISTER_TYPES.includes(section) && fields.size > 0) records.push({ fields, splits, account });
+      fields = new Map();
+      splits = [];
+      continue;
+    }
+
+    const code = line[0];
+    const value = line.slice(1).trim();
+    // S starts a split; E and $ belong to the split opened last
+    if (code === 'S') splits.push({ category: value });
+    else if (code === 'E' && splits.length) splits[splits.length - 1].memo = value;
+    else if (code === '$' && splits.length) splits[splits.length - 1].amount = value;
+    else if (!fields.has(code)) fields.set(code, value);
+  }
+
+  return records;
+}
+
+/**
+ * Map a QIF category path ("Parent:Child", optionally with a "/Class" suffix) onto our category list.
+ * Unknown paths are kept as written, so they survive a round trip through `toQif`.
+ */
+export function resolveQifCategory(path: string | undefined, categories: Category[]): string | undefined {
+  const name = path?.split('/')[0].trim();
+  // [Account] is a transfer between accounts, not a category
+  if (!name || name.startsWith('[')) return undefined;
+
+  const segments = name.split(':').map(s => s.trim().toLowerCase());
+  const leaf = segments[segments.length - 1];
+  const candidates = categories.filter(c => c.name.toLowerCase() === leaf);
+  const byName = new Map(categories.map(c => [c.name, c]));
+  // Prefer the candidate whose parents match the path; a bare leaf match is the fallback
+  const exact = candidates.find(c => {
+    let parent = c.parent;
+    for (let i = segments.length - 2; i >= 0; i--) {
+      if (parent?.toLowerCase() !== segments[i]) return false;
+      parent = byName.get(parent)?.parent;
+    }
+    return true;
+  });
+  return (exact ?? candidates[0])?.name ?? name;
+}
+
+/** Parse the bank and credit card registers of a QIF file. */
+export function parseQif(content: string, categories: Category[] = []): Transaction[] {
+  if (!/^\s*!(Type|Account|Option)/im.test(content)) {
+    throw new Error('Not a valid QIF file');
+  }
+
+  const records = readRecords(content).filter(r => r.fields.has('D') && (r.fields.has('T') || r.fields.has('U')));
+  // QIF has no fixed date or number format; "1/15'24" is Quicken's way of writing 2024
+  const normalizeDate = (value: string) => value.replace(/'/g, '/').replace(/\s+/g, '');
+  const profile = detectParseProfile(
+    records.map(r => normalizeDate(r.fields.get('D')!)),
+    records.map(r => r.fields.get('T') ?? r.fields.get('U')!),
+  );
+  const now = Date.now();
+  const result: Transaction[] = [];
+
+  for (const { fields, splits, account } of records) {
+    const date = parseDate(normalizeDate(fields.get('D')!), profile);
+    const amount = parseAmount(fields.get('T') ?? fields.get('U')!, profile);
+    if (isNaN(date.getTime()) || isNaN(amount)) continue;
+
+    // A split transaction shows the category of its largest part
+    const mainSplit = splits.reduce<QifSplit | undefined>((best, s) =>
+      !best || Math.abs(parseAmount(s.amount ?? '0', profile)) > Math.abs(parseAmount(best.amount ?? '0', profile)) ? s : best,
+    undefined);
+    const categoryPath = mainSplit?.category ?? fields.get('L');
+    const transfer = categoryPath?.match(/^\[(.*)\]/)?.[1];
+    const payee = fields.get('P');
+    const memo = fields.get('M') || splits.map(s => s.memo).filter(Boolean).join('; ') || undefined;
+    const parts = splits.map((s): TransactionSplit => {
+      const category = resolveQifCategory(s.category, categories);
+      return { amount: parseAmount(s.amount ?? '', profile), ...(category && { category }), ...(s.memo && { note: s.memo }) };
+    });
+
+    result.push({
+      id: `txn-${now}-${result.length}`,
+      date,
+      payee: payee || memo || 'Unknown',
+      amount,
+      type: amount >= 0 ? 'credit' : 'debit',
+      description: (payee ? memo : undefined) ?? (transfer ? `Transfer: ${transfer}` : undefined),
+      category: resolveQifCategory(categoryPath, categories),
+      tags: [],
+      account,
+      reference: fields.get('N') || undefined,
+      // Splits that don't add up to the total are left out rather than guessed at
+      ...(validateSplits(amount, parts) === null && { splits: parts }),
+    });
+  }
+
+  return result;
+}
+
+// "Parent:Child" path of a category, following the parent links
+function categoryPath(name: string, byName: Map<string, Category>): string {
+  const path = [name];
+  let parent = byName.get(name)?.parent;
+  while (parent && !path.includes(parent)) {
+    path.unshift(parent);
+    parent = byName.get(parent)?.parent;
+  }
+  return path.join(':');
+}
+
+function formatQifDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(date.getMonth() + 1)}/${pad(date.getDate())}/${date.getFullYear()}`;
+}
+
+// Field values are single lines
+const field = (code: string, value: string) => `${code}${value.replace(/\s*[\r\n]+\s*/g, ' ')}`;
+
+/**
+ * Write transactions as a QIF bank register, one `!Account` block per account.
+ * Dates are written as MM/DD/YYYY, which Quicken, GnuCash and friends all read.
+ */
+export function toQif(transactions: Transaction[], categories: Category[]): string {
+  const byName = new Map(categories.map(c => [c.name, c]));
+  const byAccount = new Map<string, Transaction[]>();
+  for (const t of transactions) {
+    const key = t.account ?? '';
+    if (!byAccount.has(key)) byAccount.set(key, []);
+    byAccount.get(key)!.push(t);
+  }
+
+  const lines: string[] = [];
+  for (const [account, accountTransactions] of byAccount) {
+    // Transactions without an account go into whichever account the importing app has open
+    if (account) lines.push('!Account', field('N', account), 'TBank', '^');
+    lines.push('!Type:Bank');
+    for (const t of [...accountTransactions].sort((a, b) => a.date.getTime() - b.date.getTime())) {
+      lines.push(field('D', formatQifDate(t.date)), field('T', t.amount.toFixed(2)), field('P', t.payee));
+      if (t.description) lines.push(field('M', t.description));
+      if (t.reference) lines.push(field('N', t.reference));
+      if (t.category) lines.push(field('L', categoryPath(t.category, byName)));
+      for (const s of t.splits ?? []) {
+        lines.push(field('S', s.category ? categoryPath(s.category, byName) : ''));
+        if (s.note) lines.push(field('E', s.note));
+        lines.push(field('$', s.amount.toFixed(2)));
+      }
+      lines.push('^');
+    }
+  }
+  return lines.join('\n') + '\n';
+}
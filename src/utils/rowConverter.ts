@@ -0,0 +1,76 @@
+// Turns mapped CSV rows into transactions; shared by the import worker and the main thread
+
+import { Transaction, ColumnMapping, ParseProfile } from '../types';
+import { parseAmount, parseDate, parseDebitCredit, parseDirection, DEFAULT_DIRECTION_VALUES } from './parseProfile';
+
+const SAVINGS_KEYWORDS = ['savings', 'transfer to savings', 'deposit', 'investment'];
+
+export function isLikelySaving(amount: number, payee: string, description?: string): boolean {
+  return amount > 0 && SAVINGS_KEYWORDS.some(kw =>
+    payee.toLowerCase().includes(kw) || description?.toLowerCase().includes(kw)
+  );
+}
+
+/** Build a row converter for one file; returns undefined for rows whose date or amount can't be parsed. */
+export function createRowConverter(headers: string[], columnMapping: ColumnMapping, profile: ParseProfile) {
+  // Files grouped under one mapping can differ in header case or spacing, so fall back to a loose match
+  const getIdx = (field?: string) => {
+    if (!field) return -1;
+    const exact = headers.indexOf(field);
+    if (exact >= 0) return exact;
+    const loose = field.trim().toLowerCase();
+    return headers.findIndex(h => h.trim().toLowerCase() === loose);
+  };
+
+  const dateIdx   = getIdx(columnMapping.date);
+  const payeeIdx  = getIdx(columnMapping.payee);
+  const amountIdx = getIdx(columnMapping.amount);
+  const debitIdx  = getIdx(columnMapping.debit);
+  const creditIdx = getIdx(columnMapping.credit);
+  const directionIdx = getIdx(columnMapping.direction);
+  const directionValues = columnMapping.directionValues ?? DEFAULT_DIRECTION_VALUES;
+  const txnIdIdx  = getIdx(columnMapping.transactionId);
+  const typeIdx   = getIdx(columnMapping.type);
+  const descIdx   = getIdx(columnMapping.description);
+  const accountIdx = getIdx(columnMapping.account);
+  const balanceIdx = getIdx(columnMapping.balance);
+  const refIdx    = getIdx(columnMapping.reference);
+  const now = Date.now();
+
+  return (row: string[], index: number): Transaction | undefined => {
+    const rawBalance = balanceIdx >= 0 ? row[balanceIdx]?.trim() : undefined;
+    const rawType    = typeIdx >= 0 ? row[typeIdx]?.toLowerCase() : undefined;
+    const direction  = directionIdx >= 0 ? parseDirection(row[directionIdx], directionValues) : undefined;
+    let amount: number;
+    if (debitIdx >= 0 || creditIdx >= 0) {
+      amount = parseDebitCredit(row[debitIdx], row[creditIdx], profile);
+    } else {
+      amount = row[amountIdx]?.trim() ? parseAmount(row[amountIdx], profile) : 0;
+      // The direction column decides the sign; the amount cell may or may not carry one already
+      if (direction) amount = direction === 'debit' ? -Math.abs(amount) : Math.abs(amount);
+    }
+    const date = parseDate(row[dateIdx], profile);
+    if (isNaN(date.getTime()) || isNaN(amount)) return undefined;
+
+    const payee      = row[payeeIdx] || 'Unknown';
+    const description = descIdx >= 0 ? row[descIdx] : undefined;
+    const txnType: 'credit' | 'debit' | undefined =
+      rawType?.includes('credit') ? 'credit' : rawType?.includes('debit') ? 'debit' : direction;
+
+    return {
+      id: `txn-${now}-${index}`,
+      transactionId: txnIdIdx >= 0 ? row[txnIdIdx] : undefined,
+      date,
+      payee,
+      amount,
+      type: txnType,
+      description,
+      category: undefined,
+      tags: [],
+      account: accountIdx >= 0 ? row[accountIdx] : undefined,
+      balance: rawBalance ? parseAmount(rawBalance, profile) : undefined,
+      reference: refIdx >= 0 ? row[refIdx] : undefined,
+      isSaving: isLikelySaving(amount, payee, description),
+    };
+  };
+}
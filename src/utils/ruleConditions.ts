@@ -0,0 +1,103 @@
+// Conditions a category rule can test besides its payee pattern: text fields, amount ranges, the sign,
+// the weekday and a date window.
+
+import { Transaction } from '../types';
+
+export type TextField = 'payee' | 'description' | 'account' | 'currency';
+export type TextOperator = 'contains' | 'equals' | 'starts_with' | 'regex';
+
+export type RuleCondition =
+  | { type: 'text'; field: TextField; operator: TextOperator; value: string } // Case-insensitive
+  | { type: 'amount'; min?: number; max?: number } // Absolute amount, bounds inclusive; use `sign` for direction
+  | { type: 'sign'; sign: 'expense' | 'income' }
+  | { type: 'weekday'; days: number[] } // 0 is Sunday, as in Date.getDay
+  | { type: 'date'; from?: string; to?: string }; // yyyy-mm-dd in local time, bounds inclusive
+
+/** How a rule combines its conditions: every one must hold, or at least one. */
+export type ConditionMatch = 'all' | 'any';
+
+export const TEXT_FIELD_LABELS: Record<TextField, string> = {
+  payee: 'Payee',
+  description: 'Description',
+  account: 'Account',
+  currency: 'Currency',
+};
+
+export const TEXT_OPERATOR_LABELS: Record<TextOperator, string> = {
+  contains: 'contains',
+  equals: 'is',
+  starts_with: 'starts with',
+  regex: 'matches regex',
+};
+
+export const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Rules run over every transaction, so each pattern is compiled once; null marks an invalid one
+const regexCache = new Map<string, RegExp | null>();
+
+function compile(pattern: string): RegExp | null {
+  if (!regexCache.has(pattern)) {
+    try {
+      regexCache.set(pattern, new RegExp(pattern, 'i'));
+    } catch {
+      console.error('Invalid regex in rule condition:', pattern);
+      regexCache.set(pattern, null);
+    }
+  }
+  return regexCache.get(pattern)!;
+}
+
+export function textMatches(text: string | undefined, operator: TextOperator, value: string): boolean {
+  if (text === undefined) return false;
+  if (operator === 'regex') return compile(value)?.test(text) ?? false;
+  const haystack = text.toLowerCase();
+  const needle = value.toLowerCase();
+  if (operator === 'equals') return haystack === needle;
+  if (operator === 'starts_with') return haystack.startsWith(needle);
+  return haystack.includes(needle);
+}
+
+function localDay(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/** Whether `condition` holds; a condition on a field the transaction doesn't have never does. */
+export function conditionMatches(condition: RuleCondition, t: Partial<Transaction>): boolean {
+  switch (condition.type) {
+    case 'text':
+      return textMatches(t[condition.field], condition.operator, condition.value);
+    case 'amount': {
+      if (t.amount === undefined) return false;
+      const amount = Math.abs(t.amount);
+      return (condition.min === undefined || amount >= condition.min) && (condition.max === undefined || amount <= condition.max);
+    }
+    case 'sign':
+      if (t.amount === undefined) return false;
+      return condition.sign === 'expense' ? t.amount < 0 : t.amount > 0;
+    case 'weekday':
+      return t.date !== undefined && condition.days.includes(new Date(t.date).getDay());
+    case 'date': {
+      if (t.date === undefined) return false;
+      const day = localDay(new Date(t.date));
+      return (!condition.from || day >= condition.from) && (!condition.to || day <= condition.to);
+    }
+  }
+}
+
+export function describeCondition(condition: RuleCondition): string {
+  switch (condition.type) {
+    case 'text':
+      return `${TEXT_FIELD_LABELS[condition.field]} ${TEXT_OPERATOR_LABELS[condition.operator]} "${condition.value}"`;
+    case 'amount':
+      if (condition.min !== undefined && condition.max !== undefined) return `Amount ${condition.min}–${condition.max}`;
+      if (condition.min !== undefined) return `Amount ≥ ${condition.min}`;
+      return `Amount ≤ ${condition.max ?? '∞'}`;
+    case 'sign':
+      return condition.sign === 'expense' ? 'Is an expense' : 'Is income';
+    case 'weekday':
+      return `On ${condition.days.map(d => WEEKDAY_NAMES[d]).join(', ')}`;
+    case 'date':
+      if (condition.from && condition.to) return `From ${condition.from} to ${condition.to}`;
+      return condition.from ? `From ${condition.from}` : `Until ${condition.to ?? '…'}`;
+  }
+}
@@ -0,0 +1,109 @@
+// Dry-running the category rules against the ledger: what they would change, and which rules never take effect.
+
+import { Transaction } from '../types';
+import { CategoryRule, evaluateRules, ruleMatches, normalizePayeeName } from './smartCategorization';
+import { describeCondition } from './ruleConditions';
+
+export interface CategoryChange {
+  transaction: Transaction;
+  to: string;
+  ruleId: string; // The rule that decides the new category
+}
+
+export type RuleIssue =
+  | { kind: 'never_matches'; ruleId: string }
+  // Every transaction the rule matches is already fully decided by earlier rules, mostly `byRuleId`
+  | { kind: 'shadowed'; ruleId: string; byRuleId: string }
+  // Both rules match `count` transactions but assign different categories; the earlier one wins
+  | { kind: 'overlap'; ruleId: string; otherRuleId: string; count: number };
+
+export interface DryRunResult {
+  changes: CategoryChange[];
+  otherChanges: number; // Transactions whose tags, payee or flags would change but not the category
+  matchCounts: Record<string, number>; // By rule id
+  issues: RuleIssue[];
+}
+
+/**
+ * Run the enabled rules over `transactions` without saving anything. A rule is shadowed when it matches
+ * but, on every transaction it matches, earlier rules already set each field it sets and it adds no new tag.
+ */
+export function dryRunRules(transactions: Transaction[], rules: CategoryRule[]): DryRunResult {
+  const enabled = rules.filter(r => r.enabled);
+  const usesPayee = enabled.some(r => r.pattern);
+  const matchCounts: Record<string, number> = Object.fromEntries(enabled.map(r => [r.id, 0]));
+  const effective = new Set<string>();
+  const shadowedBy = new Map<string, Map<string, number>>(); // rule → earlier rule that decided its fields → times
+  const overlaps = new Map<string, number>(); // `${earlier}\n${later}` → transactions
+  const changes: CategoryChange[] = [];
+  let otherChanges = 0;
+
+  for (const t of transactions) {
+    const normalized = usesPayee ? normalizePayeeName(t.payee) : undefined;
+    const matched = enabled.filter(rule => ruleMatches(rule, t, normalized));
+    if (matched.length === 0) continue;
+
+    // Which earlier rule decided each field first, as evaluateRules does it
+    const deciders: Record<string, CategoryRule> = {};
+    const tags = new Set(t.tags);
+    for (const rule of matched) {
+      matchCounts[rule.id]++;
+      const fields = [
+        rule.category && 'category',
+        rule.actions?.renamePayee && 'payee',
+        rule.actions?.isSaving !== undefined && 'isSaving',
+        rule.actions?.isHidden !== undefined && 'isHidden',
+      ].filter((f): f is string => !!f);
+      const newTags = (rule.tags ?? []).filter(tag => !tags.has(tag));
+      newTags.forEach(tag => tags.add(tag));
+
+      const decided = fields.filter(f => deciders[f]);
+      if (decided.length < fields.length || newTags.length > 0) {
+        effective.add(rule.id);
+      } else if (decided.length > 0) {
+        const by = shadowedBy.get(rule.id) ?? new Map<string, number>();
+        const winner = deciders[decided[0]].id;
+        by.set(winner, (by.get(winner) ?? 0) + 1);
+        shadowedBy.set(rule.id, by);
+      }
+
+      const earlier = deciders.category;
+      if (rule.category && earlier && earlier.category !== rule.category) {
+        const key = `${earlier.id}\n${rule.id}`;
+        overlaps.set(key, (overlaps.get(key) ?? 0) + 1);
+      }
+      for (const f of fields) deciders[f] ??= rule;
+    }
+
+    const { updates } = evaluateRules(t, matched);
+    if (updates.category !== undefined) {
+      changes.push({ transaction: t, to: updates.category, ruleId: deciders.category.id });
+    } else if (Object.keys(updates).length > 0) {
+      otherChanges++;
+    }
+  }
+
+  const issues: RuleIssue[] = [];
+  for (const rule of enabled) {
+    if (matchCounts[rule.id] === 0) {
+      issues.push({ kind: 'never_matches', ruleId: rule.id });
+    } else if (!effective.has(rule.id) && shadowedBy.has(rule.id)) {
+      const by = [...shadowedBy.get(rule.id)!].sort((a, b) => b[1] - a[1])[0][0];
+      issues.push({ kind: 'shadowed', ruleId: rule.id, byRuleId: by });
+    }
+  }
+  for (const [key, count] of overlaps) {
+    const [otherRuleId, ruleId] = key.split('\n');
+    // A shadowed rule already points at the rule that wins
+    if (issues.some(i => i.kind === 'shadowed' && i.ruleId === ruleId && i.byRuleId === otherRuleId)) continue;
+    issues.push({ kind: 'overlap', ruleId, otherRuleId, count });
+  }
+
+  return { changes, otherChanges, matchCounts, issues };
+}
+
+/** "#3 UBER": a rule's place in the priority order and what it matches, to name it in messages. */
+export function ruleLabel(rule: CategoryRule, rules: CategoryRule[]): string {
+  const what = rule.pattern || (rule.conditions?.length ? describeCondition(rule.conditions[0]) : '');
+  return `#${rules.indexOf(rule) + 1} ${what}`;
+}
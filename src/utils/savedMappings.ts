@@ -0,0 +1,41 @@
+// Column mappings saved per bank export, matched to new files by their header row
+
+import { ColumnMapping, ParseProfile } from '../types';
+import { headerSignature } from './columnDetection';
+import { detectParseProfile } from './parseProfile';
+import { getSetting, setSetting } from '../storage';
+
+export interface SavedMapping {
+  name: string;
+  mapping: ColumnMapping;
+  headers?: string[]; // Header row of the file the mapping was saved from, used for auto-selection
+  profile?: ParseProfile; // Date/number format of that bank's export
+}
+
+const STORAGE_KEY = 'saved-column-mappings';
+
+export function loadSavedMappings(): SavedMapping[] {
+  return getSetting<SavedMapping[]>(STORAGE_KEY, []);
+}
+
+export function storeSavedMappings(mappings: SavedMapping[]): void {
+  setSetting(STORAGE_KEY, mappings);
+}
+
+/** The saved mapping whose header set matches this file, if any. */
+export function findSavedMapping(headers: string[], savedMappings: SavedMapping[]): SavedMapping | undefined {
+  const signature = headerSignature(headers);
+  return savedMappings.find(m => m.headers && headerSignature(m.headers) === signature);
+}
+
+export function columnSamples(headers: string[], sampleData: string[][], column?: string): string[] {
+  const idx = column ? headers.indexOf(column) : -1;
+  return idx >= 0 ? sampleData.map(row => row[idx] ?? '') : [];
+}
+
+export function detectProfileFor(headers: string[], sampleData: string[][], mapping: Partial<ColumnMapping>): ParseProfile {
+  return detectParseProfile(
+    columnSamples(headers, sampleData, mapping.date),
+    [mapping.amount, mapping.debit, mapping.credit, mapping.balance].flatMap(col => columnSamples(headers, sampleData, col)),
+  );
+}
@@ -1,39 +1,63 @@
 // Smart categorization utilities for payee normalization and auto-categorization
 
+import { PayeeRenamingRule, Transaction } from '../types';
 import { getRenamingRules } from './payeeRules';
+import { getSetting, setSetting } from '../storage';
+import { RuleCondition, ConditionMatch, conditionMatches, textMatches, describeCondition } from './ruleConditions';
+import { predictCategory } from './categoryModel';
 
 export interface SmartCategory {
   normalizedPayee: string;
   suggestedCategory: string;
   confidence: number; // 0-1
   keywords: string[];
-  method: 'keyword' | 'pattern' | 'similarity' | 'user_rule';
+  method: 'keyword' | 'pattern' | 'similarity' | 'user_rule' | 'learned';
   tags?: string[];
 }
 
+/** What a matching rule does besides setting the category and adding tags. */
+export interface RuleActions {
+  isSaving?: boolean;
+  isHidden?: boolean;
+  renamePayee?: string;
+}
+
 export interface CategoryRule {
   id: string;
-  pattern: string; // Can be plain text or regex
-  category: string;
+  pattern: string; // Can be plain text or regex, matched against the payee; empty to use only `conditions`
+  category: string; // Empty when the rule only tags or flags
   isRegex: boolean;
   enabled: boolean;
   confidence: number;
   createdAt: Date;
   tags?: string[];
+  priority: number; // Lower runs first
+  conditions?: RuleCondition[];
+  match?: ConditionMatch; // How the pattern and conditions combine; all of them by default
+  actions?: RuleActions;
+  runOnImport?: boolean; // Apply to new transactions as they are imported
 }
 
-// Get category rules from localStorage
+export type NewCategoryRule = Omit<CategoryRule, 'id' | 'createdAt' | 'priority'>;
+
+// Get category rules from the settings store, in priority order
 export function getCategoryRules(): CategoryRule[] {
-  const saved = localStorage.getItem('category-rules');
-  return saved ? JSON.parse(saved).map((rule: any) => ({
-    ...rule,
-    createdAt: new Date(rule.createdAt)
-  })) : [];
+  // Stored with dates as strings
+  return getSetting<Array<Omit<CategoryRule, 'createdAt' | 'priority'> & { createdAt: string; priority?: number }>>('category-rules', [])
+    .map((rule, index): CategoryRule => ({
+      ...rule,
+      // Rules from before priorities ran in list order
+      priority: rule.priority ?? index,
+      createdAt: new Date(rule.createdAt)
+    }))
+    .sort((a, b) => a.priority - b.priority);
 }
 
-// Save category rules to localStorage
+const nextPriority = (rules: CategoryRule[]) => rules.reduce((max, r) => Math.max(max, r.priority + 1), 0);
+
+// Save category rules to the settings store
 export function saveCategoryRules(rules: CategoryRule[]): void {
-  localStorage.setItem('category-rules', JSON.stringify(rules));
+  setSetting('category-rules', rules);
 }
 
 // Update an existing category rule
@@ -47,11 +71,12 @@ export function updateCategoryRule(updatedRule: CategoryRule): void {
 }
 
 // Add a new category rule
-export function addCategoryRule(rule: Omit<CategoryRule, 'id' | 'createdAt'>): CategoryRule {
+export function addCategoryRule(rule: NewCategoryRule): CategoryRule {
   const rules = getCategoryRules();
   
-  // Check for duplicate pattern (case-insensitive)
-  const existingIndex = rules.findIndex(r => 
+  // Check for duplicate pattern (case-insensitive); rules with further conditions are always distinct
+  const existingIndex = rule.conditions?.length ? -1 : rules.findIndex(r =>
+    !r.conditions?.length &&
     r.pattern.toLowerCase() === rule.pattern.toLowerCase() && 
     r.isRegex === rule.isRegex
   );
@@ -73,20 +98,23 @@ export function addCategoryRule(rule: Omit<CategoryRule, 'id' | 'createdAt'>): C
     ...rule,
     id: `cat-rule-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
     createdAt: new Date(),
+    priority: nextPriority(rules),
   };
   rules.push(newRule);
   saveCategoryRules(rules);
   return newRule;
 }
 
-export function batchAddCategoryRules(newRules: Array<Omit<CategoryRule, 'id' | 'createdAt'>>): CategoryRule[] {
+export function batchAddCategoryRules(newRules: NewCategoryRule[]): CategoryRule[] {
   if (newRules.length === 0) return [];
 
   const rules = getCategoryRules();
-  const addedRules = newRules.map(rule => ({
+  const first = nextPriority(rules);
+  const addedRules = newRules.map((rule, i) => ({
     ...rule,
     id: `cat-rule-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
     createdAt: new Date(),
+    priority: first + i,
   }));
   
   rules.push(...addedRules);
@@ -95,11 +123,11 @@ export function batchAddCategoryRules(newRules: Array<Omit<CategoryRule, 'id' |
 }
 
 // Extract meaningful words from payee name by removing digits, special chars, and common suffixes
-export function normalizePayeeName(payee: string): string {
+// Pass the renaming rules explicitly where the settings cache isn't loaded (e.g. inside a worker)
+export function normalizePayeeName(payee: string, renamingRules: PayeeRenamingRule[] = getRenamingRules()): string {
   if (!payee) return 'Unknown';
   
   // First apply user's renaming rules
-  const renamingRules = getRenamingRules();
   let normalized = payee;
   
   for (const rule of renamingRules) {
@@ -155,42 +183,99 @@ function escapeRegex(str: string): string {
   return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
-// Smart categorization based on payee keywords and user rules
-export function suggestCategory(payee: string, existingTransactions: any[] = []): SmartCategory {
+/**
+ * Whether a rule holds for a transaction. The payee pattern matches the payee or its normalized form and
+ * counts as one more condition; a rule with neither a pattern nor conditions matches nothing.
+ */
+export function ruleMatches(rule: CategoryRule, t: Partial<Transaction>, normalized?: string): boolean {
+  const checks: Array<() => boolean> = (rule.conditions ?? []).map(condition => () => conditionMatches(condition, t));
+  if (rule.pattern) {
+    const operator = rule.isRegex ? 'regex' : 'contains';
+    checks.unshift(() => textMatches(t.payee, operator, rule.pattern)
+      || textMatches(normalized ?? normalizePayeeName(t.payee ?? ''), operator, rule.pattern));
+  }
+  if (checks.length === 0) return false;
+  return (rule.match ?? 'all') === 'all' ? checks.every(check => check()) : checks.some(check => check());
+}
+
+export interface RuleOutcome {
+  updates: Partial<Transaction>; // Only fields the rules change
+  matched: CategoryRule[];
+}
+
+/**
+ * What the enabled rules do to a transaction. Rules run in priority order and, for each field, the first
+ * matching rule that sets it decides; tags from every matching rule are added.
+ */
+export function evaluateRules(t: Transaction, rules: CategoryRule[] = getCategoryRules()): RuleOutcome {
+  const updates: Partial<Transaction> = {};
+  const matched: CategoryRule[] = [];
+  const tags = new Set<string>();
+
+  for (const rule of rules) {
+    if (!rule.enabled || !ruleMatches(rule, t)) continue;
+    matched.push(rule);
+    const actions = rule.actions ?? {};
+    if (rule.category && updates.category === undefined) updates.category = rule.category;
+    if (actions.renamePayee && updates.payee === undefined) updates.payee = actions.renamePayee;
+    if (actions.isSaving !== undefined && updates.isSaving === undefined) updates.isSaving = actions.isSaving;
+    if (actions.isHidden !== undefined && updates.isHidden === undefined) updates.isHidden = actions.isHidden;
+    for (const tag of rule.tags ?? []) tags.add(tag);
+  }
+
+  const addedTags = [...tags].filter(tag => !t.tags.includes(tag));
+  if (addedTags.length > 0) updates.tags = [...t.tags, ...addedTags];
+  for (const key of Object.keys(updates) as Array<keyof Transaction>) {
+    if (updates[key] === t[key]) delete updates[key];
+  }
+  return { updates, matched };
+}
+
+/** Run the rules marked to run on import over newly imported transactions. */
+export function applyImportRules<T extends Transaction>(transactions: T[]): T[] {
+  const rules = getCategoryRules().filter(r => r.runOnImport);
+  if (rules.length === 0) return transactions;
+  return transactions.map(t => ({ ...t, ...evaluateRules(t, rules).updates }));
+}
+
+// A learned suggestion at least this confident is preferred over the built-in keyword table
+const LEARNED_CONFIDENCE = 0.6;
+
+// Smart categorization based on payee keywords and user rules. Rule conditions on other fields
+// only hold when those are passed in `details`, and the learned model uses its description and amount.
+export function suggestCategory(payee: string, existingTransactions: any[] = [], details: Partial<Transaction> = {}): SmartCategory {
   const normalized = normalizePayeeName(payee);
-  const payeeLower = payee.toLowerCase();
-  const normalizedLower = normalized.toLowerCase();
   
   // First check user-defined category rules
-  const categoryRules = getCategoryRules();
-  for (const rule of categoryRules) {
-    if (!rule.enabled) continue;
-    
-    try {
-      let matches = false;
-      if (rule.isRegex) {
-        const regex = new RegExp(rule.pattern, 'i');
-        matches = regex.test(payee) || regex.test(normalized);
-      } else {
-        matches = payeeLower.includes(rule.pattern.toLowerCase()) || 
-                 normalizedLower.includes(rule.pattern.toLowerCase());
-      }
-      
-      if (matches) {
-        return {
-          normalizedPayee: normalized,
-          suggestedCategory: rule.category,
-          confidence: rule.confidence,
-          keywords: [rule.pattern],
-          method: 'user_rule',
-          tags: rule.tags
-        };
-      }
-    } catch (error) {
-      console.error('Error applying category rule:', rule, error);
+  const transaction = { ...details, payee };
+  for (const rule of getCategoryRules()) {
+    if (!rule.enabled || !rule.category) continue;
+
+    if (ruleMatches(rule, transaction, normalized)) {
+      return {
+        normalizedPayee: normalized,
+        suggestedCategory: rule.category,
+        confidence: rule.confidence,
+        keywords: [rule.pattern || (rule.conditions?.length ? describeCondition(rule.conditions[0]) : '')],
+        method: 'user_rule',
+        tags: rule.tags
+      };
     }
   }
   
+  // Then the model learned from the user's own categorizations
+  const prediction = predictCategory(transaction);
+  const learned: SmartCategory | null = prediction && {
+    normalizedPayee: normalized,
+    suggestedCategory: prediction.category,
+    confidence: prediction.confidence,
+    keywords: prediction.evidence,
+    method: 'learned'
+  };
+  if (learned && learned.confidence >= LEARNED_CONFIDENCE) {
+    return learned;
+  }
+
   // Then check hardcoded keyword mappings (as fallback)
   const keywordResult = suggestCategoryByKeywords(payee, normalized);
   if (keywordResult.confidence > 0) {
@@ -203,8 +288,11 @@ export function suggestCategory(payee: string, existingTransactions: any[] = [])
     return patternResult;
   }
   
-  // Try similarity-based suggestions
+  // Try similarity-based suggestions, unless the less confident learned one still beats it
   const similarityResult = suggestCategoryBySimilarity(payee, normalized, existingTransactions);
+  if (learned && learned.confidence >= similarityResult.confidence) {
+    return learned;
+  }
   if (similarityResult.confidence > 0) {
     return similarityResult;
   }
@@ -457,7 +545,7 @@ function suggestCategoryBySimilarity(payee: string, normalized: string, existing
 }
 
 // Calculate string similarity (Levenshtein distance based)
-function calculateStringSimilarity(str1: string, str2: string): number {
+export function calculateStringSimilarity(str1: string, str2: string): number {
   const longer = str1.length > str2.length ? str1 : str2;
   const shorter = str1.length > str2.length ? str2 : str1;
   
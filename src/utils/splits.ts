@@ -0,0 +1,49 @@
+// Split transactions: one bank transaction divided into parts with their own amount, category, tags and note.
+// Anything that totals by category counts the parts in place of the transaction.
+
+import { Transaction, TransactionSplit } from '../types';
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+export function isSplit(t: Transaction): boolean {
+  return !!t.splits?.length;
+}
+
+/** Why `splits` can't divide `amount`, or null when they can. Amounts are compared in cents. */
+export function validateSplits(amount: number, splits: TransactionSplit[]): string | null {
+  if (splits.length < 2) return 'A split needs at least two parts';
+  if (splits.some(s => !Number.isFinite(s.amount) || toCents(s.amount) === 0)) return 'Every part needs an amount';
+  const left = toCents(amount) - splits.reduce((sum, s) => sum + toCents(s.amount), 0);
+  if (left !== 0) return `The parts must add up to ${amount.toFixed(2)}; ${(left / 100).toFixed(2)} is unassigned`;
+  return null;
+}
+
+/** The category a split transaction shows where it appears as one row: its largest part's. */
+export function mainSplitCategory(splits: TransactionSplit[]): string | undefined {
+  const largest = splits.reduce<TransactionSplit | undefined>(
+    (best, s) => !best || Math.abs(s.amount) > Math.abs(best.amount) ? s : best,
+    undefined,
+  );
+  return largest?.category;
+}
+
+/**
+ * The ledger with each split transaction replaced by its parts. A part keeps the transaction's id with a `#n`
+ * suffix, adds its tags to the transaction's and has its note, if any, as the description. Returns
+ * `transactions` itself when nothing is split.
+ */
+export function expandSplits(transactions: Transaction[]): Transaction[] {
+  if (!transactions.some(isSplit)) return transactions;
+  return transactions.flatMap(t => {
+    if (!isSplit(t)) return [t];
+    const { splits, ...parent } = t;
+    return splits!.map((s, i) => ({
+      ...parent,
+      id: `${t.id}#${i + 1}`,
+      amount: s.amount,
+      category: s.category,
+      tags: s.tags?.length ? [...new Set([...t.tags, ...s.tags])] : t.tags,
+      description: s.note || t.description,
+    }));
+  });
+}
@@ -0,0 +1,94 @@
+// Reads Excel (XLSX/XLS) and OpenDocument (ODS) workbooks into the same header + rows shape as a CSV file
+
+import * as XLSX from 'xlsx';
+
+/** Where the table in a spreadsheet was found, so the user can pick another sheet or header row. */
+export interface SheetSelection {
+  names: string[]; // Sheets that have any content
+  name: string;
+  headerRow: number; // Zero-based; rows above it are preamble and skipped
+  preview: string[][]; // The first rows of the sheet as-is, preamble included
+}
+
+// Banks put the account name, period and such above the table; the header is expected within these rows
+export const PREVIEW_ROWS = 20;
+
+// Dates in a cell's display text, e.g. "1/15/24" or "15.01.2024"
+const DATE_TEXT = /^\d{1,4}[/.-]\d{1,2}[/.-]\d{1,4}$/;
+
+export function readWorkbook(data: ArrayBuffer): XLSX.WorkBook {
+  // cellNF keeps the number format, which is how date cells are told apart from numbers
+  return XLSX.read(data, { type: 'array', cellNF: true });
+}
+
+function cellText(cell: XLSX.CellObject | undefined): string {
+  if (!cell || cell.v === undefined || cell.v === null) return '';
+  if (cell.t === 'd' && cell.v instanceof Date) return cell.v.toISOString().slice(0, 10);
+  if (cell.t === 'n') {
+    const v = cell.v as number;
+    // Dates are serial numbers; write them as ISO so the parse profile isn't left guessing the locale.
+    // ODS files don't always carry the format, so fall back to what the cell displays.
+    const isDate = cell.z ? XLSX.SSF.is_date(String(cell.z)) : !!cell.w && DATE_TEXT.test(cell.w);
+    // Raw value rather than the display text, which may be rounded or carry thousands separators
+    return isDate ? XLSX.SSF.format('yyyy-mm-dd', v) : String(v);
+  }
+  return (cell.w ?? String(cell.v)).trim();
+}
+
+/** Every row of the sheet as text, with the table's full width. */
+export function sheetRows(sheet: XLSX.WorkSheet): string[][] {
+  if (!sheet['!ref']) return [];
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const rows: string[][] = [];
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: string[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      row.push(cellText(sheet[XLSX.utils.encode_cell({ r, c })]));
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+/** Sheets with at least one non-empty cell, in workbook order. */
+export function nonEmptySheetNames(workbook: XLSX.WorkBook): string[] {
+  return workbook.SheetNames.filter(name => {
+    const sheet = workbook.Sheets[name];
+    return Object.keys(sheet).some(key => !key.startsWith('!') && cellText(sheet[key]));
+  });
+}
+
+const filled = (row: string[]) => row.filter(cell => cell).length;
+const isText = (cell: string) => /\p{L}/u.test(cell);
+
+/**
+ * Guess the header row: the first row of text labels that is about as wide as the rows below it.
+ * Preamble lines ("Account: 123", "Statement 01/01–31/01") tend to be a single cell or mix in numbers.
+ */
+export function findHeaderRow(rows: string[][]): number {
+  const limit = Math.min(rows.length, PREVIEW_ROWS);
+  for (let i = 0; i < limit; i++) {
+    const cells = rows[i].filter(cell => cell);
+    if (cells.length < 2 || !cells.every(isText)) continue;
+    const below = rows.slice(i + 1).filter(row => filled(row) > 0).slice(0, 5);
+    if (below.length === 0) continue;
+    const width = Math.max(...below.map(filled));
+    if (cells.length >= Math.ceil(width * 0.75)) return i;
+  }
+  return 0;
+}
+
+/** Split a sheet at the header row; blank rows and anything above the header are dropped. */
+export function extractTable(rows: string[][], headerRow: number): { headers: string[]; rows: string[][] } {
+  const data = rows.slice(headerRow + 1).filter(row => row.some(cell => cell));
+  // The sheet's range often runs past the table, so drop columns that are empty throughout
+  const usedWidth = (row: string[]) => {
+    let end = row.length;
+    while (end > 0 && !row[end - 1]) end--;
+    return end;
+  };
+  const width = data.reduce((max, row) => Math.max(max, usedWidth(row)), usedWidth(rows[headerRow] ?? []));
+  // Unlabelled columns still need a distinct name for the mapper
+  const headers = Array.from({ length: width }, (_, i) => rows[headerRow]?.[i] || `Column ${i + 1}`);
+  return { headers, rows: data.map(row => row.slice(0, width)) };
+}
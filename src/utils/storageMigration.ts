@@ -0,0 +1,74 @@
+// Moving a workspace between local storage (IndexedDB) and the backend. The copy is a merge restore of a
+// backup of the active storage into the other one, so entries the destination already has, by id, are kept.
+
+import { Category, StorageType, Transaction } from '../types';
+import * as storage from '../storage';
+import { createBackup, restoreBackup } from './backup';
+
+export const STORAGE_LABELS: Record<StorageType, string> = {
+  local: 'local storage',
+  backend: 'the backend server',
+};
+
+export interface MigrationProgress {
+  step: string;
+  progress: number; // 0-100
+}
+
+export interface MigrationResult {
+  copied: number; // Transactions the destination didn't have yet
+  alreadyThere: number;
+  queued: number; // Backend writes still waiting for the server; they are sent once it is reachable
+  transactions: Transaction[];
+  categories: Category[];
+}
+
+/**
+ * Copy transactions, categories, import history and settings from the active storage into `to`, and make
+ * `to` the active storage. On failure the active storage is switched back; anything already copied stays.
+ * `categories` is the list in use now, which may come from categories.yaml rather than storage.
+ */
+export async function migrateWorkspace(
+  to: StorageType,
+  categories: Category[],
+  onProgress: (progress: MigrationProgress) => void,
+): Promise<MigrationResult> {
+  const from = storage.getStorageType();
+  if (from === to) throw new Error('Already using this storage');
+
+  onProgress({ step: `Reading ${STORAGE_LABELS[from]}`, progress: 5 });
+  const backup = await createBackup(categories);
+
+  storage.setStorageType(to);
+  try {
+    onProgress({ step: `Reading ${STORAGE_LABELS[to]}`, progress: 20 });
+    await storage.loadSettings();
+    const [existingIds, storedCategories] = await Promise.all([
+      storage.getTransactions().then(ts => new Set(ts.map(t => t.id))),
+      storage.getCategories(),
+    ]);
+    const copied = backup.transactions.filter(t => !existingIds.has(t.id)).length;
+
+    onProgress({ step: `Copying ${copied.toLocaleString()} transactions, categories and settings`, progress: 40 });
+    const restored = await restoreBackup(backup, 'merge', storedCategories);
+
+    let queued = 0;
+    if (to === 'backend') {
+      onProgress({ step: 'Uploading to the server', progress: 70 });
+      await storage.flushOutbox();
+      queued = await storage.countPendingWrites();
+    }
+
+    onProgress({ step: 'Checking the copy', progress: 90 });
+    const copiedIds = new Set((await storage.getTransactions()).map(t => t.id));
+    const missing = backup.transactions.filter(t => !copiedIds.has(t.id)).length;
+    if (missing > 0) throw new Error(`${missing.toLocaleString()} transactions are missing from ${STORAGE_LABELS[to]} after copying`);
+
+    onProgress({ step: 'Done', progress: 100 });
+    return { copied, alreadyThere: backup.transactions.length - copied, queued, ...restored };
+  } catch (error) {
+    storage.setStorageType(from);
+    await storage.loadSettings().catch(reloadError => console.error('Failed to reload settings:', reloadError));
+    throw error;
+  }
+}
@@ -0,0 +1,93 @@
+// Main-thread handle on the import worker: one request in flight at a time, cancellable by terminating the worker
+
+import type { ImportWorkerRequest, ImportWorkerResponse, ImportWorkerResult } from './importWorker';
+
+export type { ImportWorkerResult } from './importWorker';
+
+export interface ImportProgress {
+  message: string;
+  sub: string;
+  progress: number;
+}
+
+export class ImportCancelledError extends Error {
+  constructor() {
+    super('Import cancelled');
+    this.name = 'ImportCancelledError';
+  }
+}
+
+interface PendingRequest {
+  resolve: (response: ImportWorkerResponse) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: ImportProgress) => void;
+}
+
+export class ImportWorkerClient {
+  private worker = new Worker(new URL('./importWorker.ts', import.meta.url), { type: 'module' });
+  private pending: PendingRequest | null = null;
+
+  constructor() {
+    this.worker.onmessage = (event: MessageEvent<ImportWorkerResponse>) => {
+      const response = event.data;
+      const pending = this.pending;
+      if (!pending) return;
+      if (response.type === 'progress') {
+        pending.onProgress?.(response);
+        return;
+      }
+      this.pending = null;
+      if (response.type === 'error') pending.reject(new Error(response.message));
+      else pending.resolve(response);
+    };
+    this.worker.onerror = (event) => {
+      const pending = this.pending;
+      this.pending = null;
+      pending?.reject(new Error(event.message || 'Import worker failed'));
+    };
+  }
+
+  private request(message: ImportWorkerRequest, onProgress?: (progress: ImportProgress) => void): Promise<ImportWorkerResponse> {
+    if (this.pending) return Promise.reject(new Error('Another import is still running'));
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject, onProgress };
+      this.worker.postMessage(message);
+    });
+  }
+
+  /**
+   * Parse a CSV or spreadsheet file. The rows stay in the worker under `fileId`; only the headers and a sample
+   * come back, plus for spreadsheets the sheet and header row that were picked.
+   */
+  async parseFile(fileId: string, file: File, sampleSize: number, onProgress?: (progress: ImportProgress) => void) {
+    return this.parsed(await this.request({ type: 'parse', fileId, file, sampleSize }, onProgress));
+  }
+
+  /** Switch a loaded spreadsheet to another sheet or header row, replacing its rows in the worker. */
+  async selectSheet(fileId: string, sheetName: string, headerRow: number | undefined, sampleSize: number) {
+    return this.parsed(await this.request({ type: 'selectSheet', fileId, sheetName, headerRow, sampleSize }));
+  }
+
+  private parsed(response: ImportWorkerResponse) {
+    if (response.type !== 'parsed') throw new Error('Unexpected response from import worker');
+    return { headers: response.headers, sample: response.sample, rowCount: response.rowCount, sheet: response.sheet };
+  }
+
+  /** Convert the parsed files with their mappings, add the statement transactions, and check everything for duplicates. */
+  async runImport(
+    message: Omit<Extract<ImportWorkerRequest, { type: 'import' }>, 'type'>,
+    onProgress?: (progress: ImportProgress) => void,
+  ): Promise<ImportWorkerResult> {
+    const response = await this.request({ type: 'import', ...message }, onProgress);
+    if (response.type !== 'result') throw new Error('Unexpected response from import worker');
+    return response.result;
+  }
+
+  /** Stop the worker mid-way. Any parsed rows are discarded, so the client can't be reused afterwards. */
+  terminate() {
+    this.worker.terminate();
+    const pending = this.pending;
+    this.pending = null;
+    pending?.reject(new ImportCancelledError());
+  }
+}
@@ -0,0 +1,213 @@
+// Import worker: parses CSV and spreadsheet files, converts rows and detects duplicates off the main thread.
+// Parsed rows stay here between the upload and the column mapping, so only a sample crosses over.
+
+import Papa from 'papaparse';
+import type { WorkBook } from 'xlsx';
+import { Transaction, ColumnMapping, ParseProfile } from '../types';
+import { createRowConverter } from '../utils/rowConverter';
+import { tableFormat } from '../utils/importGroups';
+import {
+  SheetSelection, PREVIEW_ROWS, readWorkbook, sheetRows, nonEmptySheetNames, findHeaderRow, extractTable,
+} from '../utils/spreadsheet';
+import { DuplicateIndex, DuplicateMatch, DuplicateOptions } from '../utils/duplicateDetection';
+
+export type ImportWorkerRequest =
+  | { type: 'parse'; fileId: string; file: File; sampleSize: number }
+  // Re-read a loaded spreadsheet from another sheet or header row; headerRow is detected when left out
+  | { type: 'selectSheet'; fileId: string; sheetName: string; headerRow?: number; sampleSize: number }
+  | {
+      type: 'import';
+      // Parsed CSV files, grouped by the mapping that applies to them
+      groups: Array<{ fileIds: string[]; mapping: ColumnMapping; profile: ParseProfile }>;
+      // Already-structured transactions from OFX/camt.053/MT940 files in the same drop, one list per file
+      statements: Transaction[][];
+      batchId: string;
+      existing: Transaction[];
+      duplicateOptions: DuplicateOptions | null; // null when duplicate detection is off
+    };
+
+export interface ImportWorkerResult {
+  newTransactions: Transaction[];
+  duplicates: DuplicateMatch[];
+  probable: DuplicateMatch[];
+  fileStats: Array<{ fileId: string; totalRows: number; invalidCount: number }>;
+}
+
+export type ImportWorkerResponse =
+  | { type: 'progress'; message: string; sub: string; progress: number }
+  | { type: 'parsed'; headers: string[]; sample: string[][]; rowCount: number; sheet?: SheetSelection }
+  | { type: 'result'; result: ImportWorkerResult }
+  | { type: 'error'; message: string };
+
+const PROGRESS_EVERY = 5000;
+
+// Parsed CSV files by id, kept until the worker is terminated
+const files = new Map<string, { headers: string[]; rows: string[][] }>();
+// Spreadsheets stay loaded too, so another sheet can be picked without reading the file again
+const workbooks = new Map<string, WorkBook>();
+
+function post(response: ImportWorkerResponse) {
+  self.postMessage(response);
+}
+
+function parseCsv(fileId: string, file: File, sampleSize: number) {
+  let headers: string[] = [];
+  const rows: string[][] = [];
+  Papa.parse<string[]>(file, {
+    step: (results) => {
+      const row = results.data;
+      if (headers.length === 0) {
+        headers = row;
+        return;
+      }
+      if (!row.some(cell => cell.trim())) return;
+      rows.push(row);
+      if (rows.length % PROGRESS_EVERY === 0) {
+        post({
+          type: 'progress',
+          message: 'Reading file…',
+          sub: `${file.name}: read ${rows.length.toLocaleString()} rows`,
+          progress: Math.min(99, (results.meta.cursor / file.size) * 100),
+        });
+      }
+    },
+    complete: () => {
+      if (headers.length === 0 || rows.length === 0) {
+        post({ type: 'error', message: `${file.name} has no data rows.` });
+        return;
+      }
+      files.set(fileId, { headers, rows });
+      post({ type: 'parsed', headers, sample: rows.slice(0, sampleSize), rowCount: rows.length });
+    },
+    error: (error) => post({ type: 'error', message: error.message }),
+  });
+}
+
+function selectSheet(fileId: string, sheetName: string, headerRow: number | undefined, sampleSize: number) {
+  const workbook = workbooks.get(fileId);
+  const sheet = workbook?.Sheets[sheetName];
+  if (!workbook || !sheet) throw new Error(`Sheet "${sheetName}" is not loaded; please upload the file again.`);
+  const rows = sheetRows(sheet);
+  const header = headerRow ?? findHeaderRow(rows);
+  const table = extractTable(rows, header);
+  files.set(fileId, table);
+  // An empty table is reported rather than rejected, so the user can pick a different sheet or header row
+  post({
+    type: 'parsed',
+    headers: table.headers,
+    sample: table.rows.slice(0, sampleSize),
+    rowCount: table.rows.length,
+    sheet: { names: nonEmptySheetNames(workbook), name: sheetName, headerRow: header, preview: rows.slice(0, PREVIEW_ROWS) },
+  });
+}
+
+async function parseSpreadsheet(fileId: string, file: File, sampleSize: number) {
+  post({ type: 'progress', message: 'Reading spreadsheet…', sub: file.name, progress: 10 });
+  const workbook = readWorkbook(await file.arrayBuffer());
+  const [first] = nonEmptySheetNames(workbook);
+  if (!first) throw new Error(`${file.name} has no data rows.`);
+  workbooks.set(fileId, workbook);
+  selectSheet(fileId, first, undefined, sampleSize);
+}
+
+// `sources[i]` names the file `incoming[i]` came from. Accepted rows join the index, so a statement that overlaps
+// another file of the same drop (the same month as OFX and CSV) is caught too.
+function detectDuplicates(incoming: Transaction[], sources: string[], existing: Transaction[], options: DuplicateOptions | null) {
+  const newTransactions: Transaction[] = [];
+  const duplicates: DuplicateMatch[] = [];
+  const probable: DuplicateMatch[] = [];
+  if (!options || (existing.length === 0 && new Set(sources).size < 2)) {
+    return { newTransactions: incoming, duplicates, probable };
+  }
+
+  const index = new DuplicateIndex(existing, options);
+  incoming.forEach((t, i) => {
+    const match = index.find(t, sources[i]);
+    if (!match) {
+      newTransactions.push(t);
+      index.add(t, sources[i]);
+    } else if (match.kind === 'exact') duplicates.push(match);
+    else probable.push(match);
+    if ((i + 1) % PROGRESS_EVERY === 0) {
+      post({
+        type: 'progress',
+        message: 'Checking for duplicates…',
+        sub: `Scanned ${(i + 1).toLocaleString()} of ${incoming.length.toLocaleString()} rows`,
+        progress: 50 + ((i + 1) / incoming.length) * 50,
+      });
+    }
+  });
+  return { newTransactions, duplicates, probable };
+}
+
+function runImport(request: Extract<ImportWorkerRequest, { type: 'import' }>) {
+  const converted: Transaction[] = [];
+  const sources: string[] = [];
+  const fileStats: ImportWorkerResult['fileStats'] = [];
+  const totalRows = request.groups.reduce((sum, g) => sum + g.fileIds.reduce((n, id) => n + (files.get(id)?.rows.length ?? 0), 0), 0);
+  let processed = 0;
+
+  for (const group of request.groups) {
+    for (const fileId of group.fileIds) {
+      const file = files.get(fileId);
+      if (!file) throw new Error('File is no longer loaded; please upload it again.');
+      // Files in a group share a header set, but not necessarily the column order
+      const toTransaction = createRowConverter(file.headers, group.mapping, group.profile);
+      let valid = 0;
+      file.rows.forEach((row, i) => {
+        const t = toTransaction(row, i);
+        if (t) {
+          converted.push(t);
+          sources.push(fileId);
+          valid++;
+        }
+        if (++processed % PROGRESS_EVERY === 0) {
+          post({
+            type: 'progress',
+            message: 'Parsing rows…',
+            sub: `Processed ${processed.toLocaleString()} of ${totalRows.toLocaleString()} rows`,
+            progress: (processed / totalRows) * 50,
+          });
+        }
+      });
+      fileStats.push({ fileId, totalRows: file.rows.length, invalidCount: file.rows.length - valid });
+    }
+  }
+
+  // Ids are only unique within one file, so renumber everything that goes into this batch
+  const now = Date.now();
+  request.statements.forEach((statement, i) => statement.forEach(() => sources.push(`statement-${i}`)));
+  const incoming = [...converted, ...request.statements.flat()].map((t, i) => ({
+    ...t,
+    id: `txn-${now}-${i}`,
+    importBatchId: request.batchId,
+  }));
+
+  post({
+    type: 'result',
+    result: {
+      ...detectDuplicates(incoming, sources, request.existing, request.duplicateOptions),
+      fileStats,
+    },
+  });
+}
+
+self.onmessage = async (event: MessageEvent<ImportWorkerRequest>) => {
+  const request = event.data;
+  try {
+    switch (request.type) {
+      case 'parse':
+        if (tableFormat(request.file.name) !== 'csv') await parseSpreadsheet(request.fileId, request.file, request.sampleSize);
+        else parseCsv(request.fileId, request.file, request.sampleSize);
+        break;
+      case 'selectSheet':
+        selectSheet(request.fileId, request.sheetName, request.headerRow, request.sampleSize);
+        break;
+      case 'import':
+        runImport(request);
+        break;
+    }
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};